@@ -0,0 +1,196 @@
+// components/BenchmarkView.tsx
+import { Form, Detail, ActionPanel, Action, Icon, Keyboard } from "@raycast/api";
+import React, { useState } from "react";
+import { useBenchmark } from "../hooks/useBenchmark";
+import {
+  BenchmarkResult,
+  BenchmarkSettings,
+  BenchmarkStats,
+  DEFAULT_BENCHMARK_SETTINGS,
+  formatChange,
+  parseBenchmarkSettings,
+} from "../utils/benchmark";
+import { formatDuration } from "../utils/formatting";
+
+interface BenchmarkViewProps {
+  language: string;
+  languageName: string;
+  onRunBenchmark: (
+    settings: BenchmarkSettings,
+    onProgress?: (completedRuns: number, totalRuns: number) => void,
+    signal?: AbortSignal,
+  ) => Promise<BenchmarkResult>;
+}
+
+const STAT_LABELS: [keyof BenchmarkStats, string][] = [
+  ["minMs", "Min"],
+  ["medianMs", "Median"],
+  ["meanMs", "Mean"],
+  ["p95Ms", "p95"],
+  ["stddevMs", "Std Dev"],
+];
+
+/**
+ * Formats a timing statistic, keeping a decimal for short times where whole milliseconds hide differences.
+ */
+function formatStat(durationMs: number): string {
+  return durationMs < 100 ? `${durationMs.toFixed(1)} ms` : formatDuration(durationMs);
+}
+
+/**
+ * Builds the Markdown table of a benchmark's statistics, with the change against the baseline when there is one.
+ */
+function buildBenchmarkMarkdown(result: BenchmarkResult, baseline: BenchmarkResult | null): string {
+  const isBaseline = baseline?.timestamp === result.timestamp;
+  const comparison = baseline && !isBaseline ? baseline : null;
+  const header = comparison
+    ? ["| Statistic | Time | Baseline | Change |", "| --- | --- | --- | --- |"]
+    : ["| Statistic | Time |", "| --- | --- |"];
+  const rows = STAT_LABELS.map(([key, label]) =>
+    comparison
+      ? `| ${label} | ${formatStat(result.stats[key])} | ${formatStat(comparison.stats[key])} | ${formatChange(result.stats[key], comparison.stats[key])} |`
+      : `| ${label} | ${formatStat(result.stats[key])} |`,
+  );
+
+  const { iterations, warmupRuns } = result.settings;
+  const sections = [
+    `## Benchmark: ${iterations} ${iterations === 1 ? "run" : "runs"}`,
+    [...header, ...rows].join("\n"),
+    (result.startupOverheadMs !== undefined
+      ? `Wall time of each run, minus ${formatStat(result.startupOverheadMs)} of login shell start-up measured with empty runs. The start-up of the interpreter or program is included.`
+      : "Wall time of each run, including the start-up of the login shell and the interpreter or program.") +
+      (warmupRuns > 0 ? ` ${warmupRuns} warm-up ${warmupRuns === 1 ? "run was" : "runs were"} not counted.` : ""),
+  ];
+  if (isBaseline) {
+    sections.push("_This benchmark is the pinned baseline._");
+  }
+  return sections.join("\n\n");
+}
+
+export const BenchmarkView: React.FC<BenchmarkViewProps> = ({ language, languageName, onRunBenchmark }) => {
+  const {
+    result,
+    baseline,
+    settings,
+    isRunning,
+    onRunBenchmark: runBenchmark,
+    onPinBaseline,
+    onClearBaseline,
+    onResetResult,
+    onStopBenchmark,
+  } = useBenchmark(language, onRunBenchmark);
+  const [settingsError, setSettingsError] = useState<string | undefined>();
+
+  const stopAction = isRunning ? (
+    <Action
+      title="Stop Benchmark"
+      icon={Icon.Stop}
+      style={Action.Style.Destructive}
+      shortcut={{ modifiers: ["ctrl"], key: "c" }}
+      onAction={onStopBenchmark}
+    />
+  ) : null;
+
+  if (!result) {
+    const initialSettings = settings ?? DEFAULT_BENCHMARK_SETTINGS;
+    return (
+      <Form
+        navigationTitle={`Benchmark ${languageName}`}
+        isLoading={isRunning}
+        actions={
+          <ActionPanel>
+            <Action.SubmitForm
+              title="Run Benchmark"
+              icon={Icon.Stopwatch}
+              onSubmit={async (values: { iterations: string; warmupRuns: string }) => {
+                try {
+                  const parsedSettings = parseBenchmarkSettings(values);
+                  setSettingsError(undefined);
+                  await runBenchmark(parsedSettings);
+                } catch (parseError: unknown) {
+                  setSettingsError(parseError instanceof Error ? parseError.message : String(parseError));
+                }
+              }}
+            />
+            {stopAction}
+          </ActionPanel>
+        }
+      >
+        <Form.TextField
+          id="iterations"
+          title="Iterations"
+          placeholder="Number of measured runs"
+          defaultValue={String(initialSettings.iterations)}
+          error={settingsError}
+          onChange={() => setSettingsError(undefined)}
+        />
+        <Form.TextField
+          id="warmupRuns"
+          title="Warm-up Runs"
+          placeholder="Runs before measuring, not counted"
+          defaultValue={String(initialSettings.warmupRuns)}
+        />
+        <Form.Description text="Compiled languages are built once; only the runs are timed. The stdin, arguments, environment and limits from the form are used for every run." />
+        {baseline && (
+          <Form.Description
+            title="Baseline"
+            text={`Median ${formatStat(baseline.stats.medianMs)} over ${baseline.settings.iterations} runs, pinned ${new Date(baseline.timestamp).toLocaleString()}`}
+          />
+        )}
+      </Form>
+    );
+  }
+
+  const isBaseline = baseline?.timestamp === result.timestamp;
+  return (
+    <Detail
+      navigationTitle={`Benchmark ${languageName}`}
+      isLoading={isRunning}
+      markdown={buildBenchmarkMarkdown(result, baseline)}
+      metadata={
+        <Detail.Metadata>
+          <Detail.Metadata.Label title="Language" text={languageName} />
+          <Detail.Metadata.Label title="Ran At" text={new Date(result.timestamp).toLocaleString()} />
+          <Detail.Metadata.Label title="Iterations" text={String(result.settings.iterations)} />
+          <Detail.Metadata.Label title="Warm-up Runs" text={String(result.settings.warmupRuns)} />
+          {result.compileDurationMs !== null && (
+            <Detail.Metadata.Label title="Compile Time" text={formatDuration(result.compileDurationMs)} />
+          )}
+          {result.startupOverheadMs !== undefined && (
+            <Detail.Metadata.Label title="Shell Start-up" text={formatStat(result.startupOverheadMs)} />
+          )}
+          {baseline && !isBaseline && (
+            <Detail.Metadata.Label title="Baseline From" text={new Date(baseline.timestamp).toLocaleString()} />
+          )}
+        </Detail.Metadata>
+      }
+      actions={
+        <ActionPanel>
+          {stopAction}
+          <Action title="Run Again" icon={Icon.RotateClockwise} onAction={() => runBenchmark(result.settings)} />
+          {!isBaseline && <Action title="Pin as Baseline" icon={Icon.Pin} onAction={onPinBaseline} />}
+          {baseline && (
+            <Action
+              title="Clear Baseline"
+              icon={Icon.PinDisabled}
+              style={Action.Style.Destructive}
+              shortcut={Keyboard.Shortcut.Common.Remove}
+              onAction={onClearBaseline}
+            />
+          )}
+          <Action
+            title="Change Settings"
+            icon={Icon.Gear}
+            shortcut={Keyboard.Shortcut.Common.Edit}
+            onAction={onResetResult}
+          />
+          <Action.CopyToClipboard
+            title="Copy Results"
+            content={buildBenchmarkMarkdown(result, baseline)}
+            shortcut={Keyboard.Shortcut.Common.Copy}
+          />
+        </ActionPanel>
+      }
+    />
+  );
+};
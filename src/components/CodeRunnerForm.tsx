@@ -1,42 +1,315 @@
 // components/CodeRunnerForm.tsx
-import { Form, ActionPanel, Action, Image, Icon } from "@raycast/api";
-import React from "react";
+import { Form, ActionPanel, Action, Image, Icon, Keyboard } from "@raycast/api";
+import React, { useMemo, useState } from "react";
+import * as path from "path";
+import { BenchmarkResult, BenchmarkSettings } from "../utils/benchmark";
+import { CellResult, CellRunMode, splitCells } from "../utils/cells";
 import { CodeExecutionResult, DetectedLanguage } from "../utils/codeRunner";
-import { logoMap } from "../utils/imageMap";
+import { extractDiagnostics, formatDiagnostics } from "../utils/diagnostics";
+import { formatRunAsMarkdown, getDefaultFileName, prepareExportCode } from "../utils/exporting";
+import { DetectedFormatter } from "../utils/formatters";
+import { formatDuration, formatMemory } from "../utils/formatting";
+import { getLanguageDefinition } from "../utils/languages";
+import { createRunCodeDeeplink } from "../utils/launcher";
+import { ReplSession, supportsSessions } from "../utils/replSession";
+import { stripAnsi } from "../utils/richOutput";
+import { formatSandboxReport, isSandboxEnabled } from "../utils/sandbox";
+import { CURSOR_PLACEHOLDER } from "../utils/templates";
+import { EMPTY_LIMIT_OVERRIDES, ResourceLimitOverrides, getDefaultResourceLimits } from "../utils/resourceLimits";
+import { SnippetDetails } from "../utils/snippets";
+import { TestCase, TestCaseResult } from "../utils/testCases";
+import { BenchmarkView } from "./BenchmarkView";
+import { DiagnosticsList } from "./DiagnosticsList";
+import { ExportProjectForm, SaveFileForm } from "./ExportForms";
+import { OutputDetail } from "./OutputDetail";
+import { SnippetForm } from "./SnippetForm";
+import { TemplateForm } from "./TemplateForm";
+import { TestCasesList } from "./TestCasesList";
 
 interface CodeRunnerFormProps {
   code: string;
+  stdin: string;
+  args: string;
+  env: string;
+  limitOverrides: ResourceLimitOverrides;
   language: string;
+  interpreterPath: string;
+  isSessionMode: boolean;
+  isSnippetMode: boolean;
+  template: string;
+  activeSession: ReplSession | null;
+  formatter: DetectedFormatter | null; // Hides Format Code when the language has no installed formatter
+  formatError: string | null; // Shown on the code field
   result: CodeExecutionResult | null;
+  resultSource: { code: string; stdin: string } | null; // Code and stdin of the run that produced the result
+  cellResults: CellResult[];
+  selectedCellIndex: number;
   availableLanguages: DetectedLanguage[];
+  customRunnerErrors: string[];
   isExecutingCode: boolean; // Only for the form's internal spinner
   onCodeChange: (newCode: string) => void;
+  onStdinChange: (newStdin: string) => void;
+  onArgsChange: (newArgs: string) => void;
+  onEnvChange: (newEnv: string) => void;
+  onLimitOverridesChange: (changes: Partial<ResourceLimitOverrides>) => void;
   onLanguageChange: (newValue: string) => void;
+  onInterpreterChange: (newPath: string) => void;
+  onSessionModeChange: (enabled: boolean) => void;
+  onResetSession: () => void;
+  onSnippetModeChange: (enabled: boolean) => void;
+  onSaveTemplate: (template: string) => Promise<void>;
+  onResetTemplate: () => Promise<void>;
+  onApplyTemplate: (wrapCode: boolean) => Promise<void>;
+  onFormatCode: () => Promise<void>;
   onRunCode: () => Promise<void>;
+  onRunCells: (mode: CellRunMode) => Promise<void>;
+  onSelectedCellChange: (index: number) => void;
+  onStopExecution: () => void;
+  onSaveSnippet: (details: SnippetDetails) => Promise<void>;
+  onSaveAsFile: (directory: string, fileName: string) => Promise<void>;
+  onExportProject: (directory: string, name: string) => Promise<void>;
+  onRunTestCase: (testCase: TestCase) => Promise<TestCaseResult>;
+  onRunBenchmark: (
+    settings: BenchmarkSettings,
+    onProgress?: (completedRuns: number, totalRuns: number) => void,
+    signal?: AbortSignal,
+  ) => Promise<BenchmarkResult>;
   onClearCode: () => void;
 }
 
 export const CodeRunnerForm: React.FC<CodeRunnerFormProps> = ({
   code,
+  stdin,
+  args,
+  env,
+  limitOverrides,
   language,
+  interpreterPath,
+  isSessionMode,
+  isSnippetMode,
+  template,
+  activeSession,
+  formatter,
+  formatError,
   result,
+  resultSource,
+  cellResults,
+  selectedCellIndex,
   availableLanguages,
+  customRunnerErrors,
   isExecutingCode,
   onCodeChange,
+  onStdinChange,
+  onArgsChange,
+  onEnvChange,
+  onLimitOverridesChange,
   onLanguageChange,
+  onInterpreterChange,
+  onSessionModeChange,
+  onResetSession,
+  onSnippetModeChange,
+  onSaveTemplate,
+  onResetTemplate,
+  onApplyTemplate,
+  onFormatCode,
   onRunCode,
+  onRunCells,
+  onSelectedCellChange,
+  onStopExecution,
+  onSaveSnippet,
+  onSaveAsFile,
+  onExportProject,
+  onRunTestCase,
+  onRunBenchmark,
   onClearCode,
 }) => {
+  // Keep the override fields visible while any override is set
+  const hasLimitOverrides = Object.values(limitOverrides).some((value) => value.trim() !== "");
+  const [isOverridingLimits, setIsOverridingLimits] = useState<boolean>(hasLimitOverrides);
+  const defaultLimits = getDefaultResourceLimits();
+
+  // Parsed once the run has finished, so streaming output is not re-parsed on every chunk
+  const diagnostics = useMemo(
+    () =>
+      result && !isExecutingCode
+        ? extractDiagnostics(getLanguageDefinition(language)?.parseDiagnostics, result.stderr, result.stdout)
+        : [],
+    [result, language, isExecutingCode],
+  );
+
+  const cells = useMemo(() => splitCells(code, language), [code, language]);
+  const selectedCell = cells[Math.min(selectedCellIndex, cells.length - 1)];
+
+  const candidates = availableLanguages.find((lang) => lang.value === language)?.candidates ?? [];
+  // Fall back to the default installation when nothing was chosen or the chosen one is gone
+  const selectedInterpreter = candidates.some((candidate) => candidate.executablePath === interpreterPath)
+    ? interpreterPath
+    : candidates[0]?.executablePath;
+
   return (
     <Form
       isLoading={isExecutingCode} // Shows spinner on form fields during code execution
       actions={
         <ActionPanel>
           <Action.SubmitForm title="Run Code" onSubmit={onRunCode} />
+          {isExecutingCode && (
+            <Action
+              title="Stop Execution"
+              icon={Icon.Stop}
+              style={Action.Style.Destructive}
+              shortcut={{ modifiers: ["ctrl"], key: "c" }}
+              onAction={onStopExecution}
+            />
+          )}
+          {cells.length > 1 && selectedCell && (
+            <ActionPanel.Section title="Cells">
+              <Action
+                title="Run Selected Cell"
+                icon={Icon.Play}
+                shortcut={{ modifiers: ["cmd", "shift"], key: "return" }}
+                onAction={() => onRunCells("cell")}
+              />
+              <Action
+                title="Run Through Selected Cell"
+                icon={Icon.ArrowDown}
+                shortcut={{ modifiers: ["cmd", "shift"], key: "u" }}
+                onAction={() => onRunCells("upTo")}
+              />
+              <Action
+                title="Run All Cells"
+                icon={Icon.List}
+                shortcut={{ modifiers: ["cmd", "shift"], key: "a" }}
+                onAction={() => onRunCells("all")}
+              />
+            </ActionPanel.Section>
+          )}
+          {formatter && (
+            <Action
+              title="Format Code"
+              icon={Icon.Wand}
+              shortcut={{ modifiers: ["cmd", "shift"], key: "f" }}
+              onAction={onFormatCode}
+            />
+          )}
           <Action title="Clear Code" onAction={onClearCode} />
-          {result && result.stdout && <Action.CopyToClipboard title="Copy Standard Output" content={result.stdout} />}
-          {result && result.stderr && <Action.CopyToClipboard title="Copy Standard Error" content={result.stderr} />}
+          {isSessionMode && activeSession && (
+            <Action
+              title="Reset Session"
+              icon={Icon.ArrowCounterClockwise}
+              shortcut={{ modifiers: ["cmd", "shift"], key: "r" }}
+              onAction={onResetSession}
+            />
+          )}
+          <Action.Push
+            title="Save as Snippet"
+            icon={Icon.SaveDocument}
+            shortcut={Keyboard.Shortcut.Common.Save}
+            target={
+              <SnippetForm navigationTitle="Save as Snippet" submitTitle="Save Snippet" onSubmit={onSaveSnippet} />
+            }
+          />
+          <Action.Push
+            title="Test Cases"
+            icon={Icon.CheckList}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "t" }}
+            target={
+              <TestCasesList
+                language={language}
+                languageName={getLanguageDefinition(language)?.name ?? language}
+                onRunTestCase={onRunTestCase}
+              />
+            }
+          />
+          <Action.Push
+            title="Benchmark"
+            icon={Icon.Stopwatch}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "b" }}
+            target={
+              <BenchmarkView
+                language={language}
+                languageName={getLanguageDefinition(language)?.name ?? language}
+                onRunBenchmark={onRunBenchmark}
+              />
+            }
+          />
+          {result && !isExecutingCode && (
+            <Action.Push
+              title="Show Output"
+              icon={Icon.Eye}
+              shortcut={{ modifiers: ["cmd", "shift"], key: "e" }}
+              target={<OutputDetail result={result} />}
+            />
+          )}
+          {result && result.stdout && (
+            <Action.CopyToClipboard title="Copy Standard Output" content={stripAnsi(result.stdout)} />
+          )}
+          {result && result.stderr && (
+            <Action.CopyToClipboard title="Copy Standard Error" content={stripAnsi(result.stderr)} />
+          )}
           {result && result.error && <Action.CopyToClipboard title="Copy Error Message" content={result.error} />}
+          {result && resultSource && !isExecutingCode && (
+            <Action.CopyToClipboard
+              title="Copy as Markdown"
+              icon={Icon.Document}
+              content={formatRunAsMarkdown({
+                language,
+                languageName: getLanguageDefinition(language)?.name ?? language,
+                code: resultSource.code,
+                stdin: resultSource.stdin,
+                result,
+              })}
+            />
+          )}
+          <Action.Push
+            title="Save as File…"
+            icon={Icon.SaveDocument}
+            target={
+              <SaveFileForm
+                defaultFileName={getDefaultFileName(language, prepareExportCode(language, code, isSnippetMode))}
+                onSave={onSaveAsFile}
+              />
+            }
+          />
+          <Action.Push
+            title="Export as Project"
+            icon={Icon.Folder}
+            target={<ExportProjectForm defaultName={`${language}-snippet`} onExport={onExportProject} />}
+          />
+          <Action.CopyToClipboard
+            title="Copy Deeplink"
+            icon={Icon.Link}
+            shortcut={Keyboard.Shortcut.Common.CopyDeeplink}
+            content={createRunCodeDeeplink({ language, code, stdin })}
+          />
+          <ActionPanel.Section title="Template">
+            <Action title="New from Template" icon={Icon.NewDocument} onAction={() => onApplyTemplate(false)} />
+            {template.includes(CURSOR_PLACEHOLDER) && (
+              <Action title="Wrap in Template" icon={Icon.Code} onAction={() => onApplyTemplate(true)} />
+            )}
+            <Action.Push
+              title="Edit Template"
+              icon={Icon.Pencil}
+              target={
+                <TemplateForm
+                  languageName={getLanguageDefinition(language)?.name ?? language}
+                  template={template}
+                  onSave={onSaveTemplate}
+                  onReset={onResetTemplate}
+                />
+              }
+            />
+          </ActionPanel.Section>
+          {diagnostics.length > 0 && (
+            <ActionPanel.Section title="Diagnostics">
+              <Action.Push
+                title="Show Diagnostics"
+                icon={Icon.Bug}
+                shortcut={{ modifiers: ["cmd", "shift"], key: "d" }}
+                target={<DiagnosticsList diagnostics={diagnostics} code={code} language={language} />}
+              />
+              <Action.CopyToClipboard title="Copy Diagnostics" content={formatDiagnostics(diagnostics)} />
+            </ActionPanel.Section>
+          )}
         </ActionPanel>
       }
     >
@@ -47,7 +320,7 @@ export const CodeRunnerForm: React.FC<CodeRunnerFormProps> = ({
             title={lang.name}
             value={lang.value}
             icon={{
-              source: logoMap[lang.value] as Image.Source,
+              source: getLanguageDefinition(lang.value)?.icon as Image.Source,
               mask: Image.Mask.RoundedRectangle,
             }}
           />
@@ -61,16 +334,170 @@ export const CodeRunnerForm: React.FC<CodeRunnerFormProps> = ({
         />
       </Form.Dropdown>
 
+      {candidates.length > 1 && (
+        <Form.Dropdown id="interpreter" title="Interpreter" value={selectedInterpreter} onChange={onInterpreterChange}>
+          {candidates.map((candidate) => (
+            <Form.Dropdown.Item
+              key={candidate.executablePath}
+              title={`${candidate.command}${candidate.version ? ` ${candidate.version}` : ""} — ${candidate.executablePath}`}
+              value={candidate.executablePath}
+            />
+          ))}
+        </Form.Dropdown>
+      )}
+
+      {supportsSessions(language) && (
+        <Form.Checkbox
+          id="sessionMode"
+          label="Keep state between runs (session mode)"
+          value={isSessionMode}
+          onChange={onSessionModeChange}
+        />
+      )}
+      {supportsSessions(language) && isSessionMode && (
+        <Form.Description
+          title="Session"
+          text={
+            activeSession
+              ? `● Active since ${new Date(activeSession.startedAt).toLocaleTimeString()}, ${activeSession.runCount} ${activeSession.runCount === 1 ? "run" : "runs"}. Variables, imports and definitions are kept.`
+              : "○ No session yet. The next run starts one."
+          }
+        />
+      )}
+
+      {getLanguageDefinition(language)?.wrapSnippet && (
+        <Form.Checkbox
+          id="snippetMode"
+          label="Wrap bare statements (snippet mode)"
+          info="Adds the scaffolding the language needs (e.g., package main, imports and func main in Go) before running. Full programs run unchanged."
+          value={isSnippetMode}
+          onChange={onSnippetModeChange}
+        />
+      )}
+
+      {isSandboxEnabled() && (
+        <Form.Description
+          title="Sandbox"
+          text="Sandboxed Mode is on. Runs get a scrubbed environment and a fresh HOME; the run metadata shows every protection that was active."
+        />
+      )}
+
+      {customRunnerErrors.length > 0 && (
+        <Form.Description title="Custom Runner Errors" text={customRunnerErrors.join("\n")} />
+      )}
+
       <Form.TextArea
         id="code"
         title="Code"
         placeholder="Enter your code here..."
         value={code}
         onChange={onCodeChange}
+        error={formatError ?? undefined}
+        info={formatter ? `Format Code uses ${formatter.name} (${formatter.executablePath}).` : undefined}
         autoFocus
         enableMarkdown
       />
 
+      {cells.length > 1 && selectedCell && (
+        <Form.Dropdown
+          id="cell"
+          title="Cell"
+          info="Split code into cells with marker comments such as # %% or // %%, optionally followed by a title."
+          value={String(selectedCell.index)}
+          onChange={(value) => onSelectedCellChange(Number(value))}
+        >
+          {cells.map((cell) => (
+            <Form.Dropdown.Item
+              key={cell.index}
+              title={`${cell.index + 1}. ${cell.title}`}
+              value={String(cell.index)}
+            />
+          ))}
+        </Form.Dropdown>
+      )}
+
+      {/* Program Inputs Section */}
+      <Form.TextArea
+        id="stdin"
+        title="Stdin"
+        placeholder="Input passed to the program's standard input..."
+        value={stdin}
+        onChange={onStdinChange}
+      />
+      <Form.TextField
+        id="args"
+        title="Arguments"
+        placeholder={`e.g. --verbose "hello world"`}
+        value={args}
+        onChange={onArgsChange}
+      />
+      <Form.TextArea
+        id="env"
+        title="Environment"
+        placeholder="KEY=value, one per line"
+        value={env}
+        onChange={onEnvChange}
+      />
+      <Form.Checkbox
+        id="overrideLimits"
+        label="Override resource limits for this language"
+        value={isOverridingLimits || hasLimitOverrides}
+        onChange={(checked) => {
+          setIsOverridingLimits(checked);
+          if (!checked) {
+            onLimitOverridesChange(EMPTY_LIMIT_OVERRIDES); // Unchecking restores the preference defaults
+          }
+        }}
+      />
+      {(isOverridingLimits || hasLimitOverrides) && (
+        <React.Fragment>
+          <Form.TextField
+            id="timeoutSeconds"
+            title="Timeout (s)"
+            placeholder={`Default: ${defaultLimits.timeoutSeconds} (0 = no limit)`}
+            value={limitOverrides.timeoutSeconds}
+            onChange={(value) => onLimitOverridesChange({ timeoutSeconds: value })}
+          />
+          <Form.TextField
+            id="cpuTimeSeconds"
+            title="CPU Time (s)"
+            placeholder={`Default: ${defaultLimits.cpuTimeSeconds} (0 = no limit)`}
+            value={limitOverrides.cpuTimeSeconds}
+            onChange={(value) => onLimitOverridesChange({ cpuTimeSeconds: value })}
+          />
+          <Form.TextField
+            id="memoryMb"
+            title="Memory (MB)"
+            placeholder={`Default: ${defaultLimits.memoryMb} (0 = no limit)`}
+            value={limitOverrides.memoryMb}
+            onChange={(value) => onLimitOverridesChange({ memoryMb: value })}
+          />
+          <Form.TextField
+            id="maxOutputKb"
+            title="Max Output (KB)"
+            placeholder={`Default: ${defaultLimits.maxOutputKb} (0 = no limit)`}
+            value={limitOverrides.maxOutputKb}
+            onChange={(value) => onLimitOverridesChange({ maxOutputKb: value })}
+          />
+        </React.Fragment>
+      )}
+
+      {/* Cell Results Section */}
+      {cellResults.length > 0 && <Form.Separator />}
+      {cellResults.map((cellResult) => (
+        <Form.TextArea
+          key={cellResult.cellIndexes.join("-")}
+          id={`cell-result-${cellResult.cellIndexes.join("-")}`}
+          title={cellResult.title}
+          value={
+            stripAnsi(
+              [cellResult.result.stdout, cellResult.result.stderr, cellResult.result.error].filter(Boolean).join("\n"),
+            ) || "No output."
+          }
+          autoFocus={false}
+        />
+      ))}
+
       {/* Display Results Section */}
       {result && (
         <React.Fragment>
@@ -78,7 +505,7 @@ export const CodeRunnerForm: React.FC<CodeRunnerFormProps> = ({
           <Form.TextArea
             id="stdout"
             title="Standard Output"
-            value={result.stdout || "No standard output."}
+            value={stripAnsi(result.stdout) || "No standard output."}
             placeholder="No standard output."
             autoFocus={false}
           />
@@ -86,11 +513,18 @@ export const CodeRunnerForm: React.FC<CodeRunnerFormProps> = ({
             <Form.TextArea
               id="stderr"
               title="Standard Error"
-              value={result.stderr}
+              value={stripAnsi(result.stderr)}
               placeholder="No standard error."
               autoFocus={false}
             />
           )}
+          {result.outputFiles && result.outputFiles.length > 0 && (
+            <Form.Description
+              title="Images"
+              text={`${result.outputFiles.map((filePath) => path.basename(filePath)).join(", ")} (Show Output to view)`}
+            />
+          )}
+          {diagnostics.length > 0 && <Form.Description title="Diagnostics" text={formatDiagnostics(diagnostics)} />}
           {result.error && (
             <Form.TextArea
               id="error"
@@ -100,6 +534,28 @@ export const CodeRunnerForm: React.FC<CodeRunnerFormProps> = ({
               autoFocus={false}
             />
           )}
+
+          {/* Run Metadata Section */}
+          {!isExecutingCode && (
+            <React.Fragment>
+              {result.exitCode !== null && <Form.Description title="Exit Code" text={String(result.exitCode)} />}
+              {result.signal && <Form.Description title="Signal" text={result.signal} />}
+              {result.installDurationMs !== undefined && (
+                <Form.Description title="Install Time" text={formatDuration(result.installDurationMs)} />
+              )}
+              {result.compileCached && <Form.Description title="Compile Time" text="Cached build" />}
+              {result.compileDurationMs !== null && (
+                <Form.Description title="Compile Time" text={formatDuration(result.compileDurationMs)} />
+              )}
+              {result.runDurationMs !== null && (
+                <Form.Description title="Run Time" text={formatDuration(result.runDurationMs)} />
+              )}
+              {result.peakMemoryKb !== null && (
+                <Form.Description title="Peak Memory" text={formatMemory(result.peakMemoryKb)} />
+              )}
+              {result.sandbox && <Form.Description title="Sandbox" text={formatSandboxReport(result.sandbox)} />}
+            </React.Fragment>
+          )}
         </React.Fragment>
       )}
     </Form>
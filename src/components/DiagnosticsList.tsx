@@ -0,0 +1,64 @@
+// components/DiagnosticsList.tsx
+import { List, ActionPanel, Action, Icon, Color, Image, Keyboard } from "@raycast/api";
+import React from "react";
+import {
+  Diagnostic,
+  DiagnosticSeverity,
+  formatDiagnosticLocation,
+  formatDiagnostics,
+  quoteSourceLine,
+} from "../utils/diagnostics";
+import { toCodeBlock } from "../utils/formatting";
+
+interface DiagnosticsListProps {
+  diagnostics: Diagnostic[];
+  code: string; // The snippet the diagnostics refer to, used to quote the offending lines
+  language: string;
+}
+
+const SEVERITY_ICONS: Record<DiagnosticSeverity, Image.ImageLike> = {
+  error: { source: Icon.XMarkCircle, tintColor: Color.Red },
+  warning: { source: Icon.Warning, tintColor: Color.Yellow },
+  note: { source: Icon.Info, tintColor: Color.Blue },
+};
+
+/**
+ * Builds the Markdown shown for a diagnostic: its message followed by the quoted source around it.
+ */
+function buildDiagnosticMarkdown(diagnostic: Diagnostic, code: string, language: string): string {
+  const sections = [`**${formatDiagnosticLocation(diagnostic)}**`, diagnostic.message];
+  const quote = quoteSourceLine(code, diagnostic.line, 2);
+  if (quote) {
+    sections.push(toCodeBlock(quote, language));
+  }
+  return sections.join("\n\n");
+}
+
+export const DiagnosticsList: React.FC<DiagnosticsListProps> = ({ diagnostics, code, language }) => {
+  const allDiagnosticsText = formatDiagnostics(diagnostics);
+
+  return (
+    <List navigationTitle="Diagnostics" isShowingDetail={diagnostics.length > 0}>
+      <List.EmptyView icon={Icon.CheckCircle} title="No Diagnostics" />
+      {diagnostics.map((diagnostic, index) => (
+        <List.Item
+          key={`${diagnostic.line}:${diagnostic.column}:${index}`}
+          title={diagnostic.message}
+          icon={SEVERITY_ICONS[diagnostic.severity]}
+          accessories={[{ text: formatDiagnosticLocation(diagnostic) }]}
+          detail={<List.Item.Detail markdown={buildDiagnosticMarkdown(diagnostic, code, language)} />}
+          actions={
+            <ActionPanel>
+              <Action.CopyToClipboard title="Copy Diagnostic" content={formatDiagnostics([diagnostic])} />
+              <Action.CopyToClipboard
+                title="Copy All Diagnostics"
+                content={allDiagnosticsText}
+                shortcut={Keyboard.Shortcut.Common.Copy}
+              />
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List>
+  );
+};
@@ -0,0 +1,61 @@
+// components/EnvironmentReportDetail.tsx
+import { Detail, ActionPanel, Action, Icon, Keyboard, Color } from "@raycast/api";
+import React from "react";
+import { EnvironmentReport, formatEnvironmentReport } from "../utils/environmentDiagnostics";
+import { formatDuration } from "../utils/formatting";
+
+interface EnvironmentReportDetailProps {
+  report: EnvironmentReport | null;
+  isLoading: boolean;
+  onRerun: () => Promise<void>;
+}
+
+export const EnvironmentReportDetail: React.FC<EnvironmentReportDetailProps> = ({ report, isLoading, onRerun }) => {
+  const markdown = report ? formatEnvironmentReport(report) : "# Environment Diagnostics\n\nRunning detection…";
+
+  return (
+    <Detail
+      isLoading={isLoading}
+      markdown={markdown}
+      metadata={
+        report && (
+          <Detail.Metadata>
+            <Detail.Metadata.Label title="Shell" text={report.shell.shellPath} />
+            <Detail.Metadata.Label title="Shell Startup" text={formatDuration(report.shell.durationMs)} />
+            <Detail.Metadata.Label
+              title="Shell Startup Output"
+              text={report.shell.stderr.trim() ? "Yes, see report" : "None"}
+            />
+            <Detail.Metadata.Separator />
+            <Detail.Metadata.TagList title="Languages">
+              {report.languages.map((language) => (
+                <Detail.Metadata.TagList.Item
+                  key={language.value}
+                  text={language.version ? `${language.name} ${language.version}` : language.name}
+                  color={language.defaultExecutable ? Color.Green : Color.Red}
+                />
+              ))}
+            </Detail.Metadata.TagList>
+          </Detail.Metadata>
+        )
+      }
+      actions={
+        <ActionPanel>
+          {report && (
+            <Action.CopyToClipboard
+              title="Copy Report"
+              content={formatEnvironmentReport(report)}
+              shortcut={Keyboard.Shortcut.Common.Copy}
+            />
+          )}
+          <Action
+            title="Run Diagnostics Again"
+            icon={Icon.ArrowClockwise}
+            shortcut={Keyboard.Shortcut.Common.Refresh}
+            onAction={onRerun}
+          />
+        </ActionPanel>
+      }
+    />
+  );
+};
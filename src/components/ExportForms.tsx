@@ -0,0 +1,91 @@
+// components/ExportForms.tsx
+import { Form, ActionPanel, Action, useNavigation } from "@raycast/api";
+import * as os from "os";
+import * as path from "path";
+import React from "react";
+
+// Where exports go unless another directory is chosen
+const DEFAULT_EXPORT_DIRECTORY = path.join(os.homedir(), "Downloads");
+
+interface SaveFileFormProps {
+  defaultFileName: string; // e.g. 'main.py'
+  onSave: (directory: string, fileName: string) => Promise<void>;
+}
+
+export const SaveFileForm: React.FC<SaveFileFormProps> = ({ defaultFileName, onSave }) => {
+  const { pop } = useNavigation();
+  return (
+    <Form
+      navigationTitle="Save as File"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Save File"
+            onSubmit={async (values: { directory: string[]; fileName: string }) => {
+              if (values.directory.length === 0 || !values.fileName.trim()) {
+                return;
+              }
+              await onSave(values.directory[0], values.fileName.trim());
+              pop();
+            }}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.Description text="Scripts get a shebang line and are made executable, so they can be run directly." />
+      <Form.FilePicker
+        id="directory"
+        title="Destination"
+        allowMultipleSelection={false}
+        canChooseDirectories
+        canChooseFiles={false}
+        defaultValue={[DEFAULT_EXPORT_DIRECTORY]}
+      />
+      <Form.TextField id="fileName" title="File Name" defaultValue={defaultFileName} />
+    </Form>
+  );
+};
+
+interface ExportProjectFormProps {
+  defaultName: string;
+  onExport: (directory: string, name: string) => Promise<void>;
+}
+
+export const ExportProjectForm: React.FC<ExportProjectFormProps> = ({ defaultName, onExport }) => {
+  const { pop } = useNavigation();
+  return (
+    <Form
+      navigationTitle="Export as Project"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Export Project"
+            onSubmit={async (values: { directory: string[]; name: string }) => {
+              if (values.directory.length === 0) {
+                return;
+              }
+              await onExport(values.directory[0], values.name);
+              pop();
+            }}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.Description text="A folder named after the project is created with the files its toolchain needs (e.g., go.mod and main.go) and a README with the command that runs it." />
+      <Form.FilePicker
+        id="directory"
+        title="Destination"
+        allowMultipleSelection={false}
+        canChooseDirectories
+        canChooseFiles={false}
+        defaultValue={[DEFAULT_EXPORT_DIRECTORY]}
+      />
+      <Form.TextField
+        id="name"
+        title="Project Name"
+        defaultValue={defaultName}
+        info="Lowercase letters, digits, - and _; anything else is replaced by -."
+      />
+    </Form>
+  );
+};
@@ -0,0 +1,105 @@
+// components/OutputDetail.tsx
+import { Detail, ActionPanel, Action, Icon, Keyboard } from "@raycast/api";
+import React, { useState } from "react";
+import * as path from "path";
+import { CodeExecutionResult } from "../utils/codeRunner";
+import { toCodeBlock } from "../utils/formatting";
+import { OutputFormat, renderImages, renderOutput, showAnsiEscapes, stripAnsi } from "../utils/richOutput";
+
+interface OutputDetailProps {
+  result: CodeExecutionResult;
+  navigationTitle?: string;
+}
+
+const FORMAT_LABELS: Record<OutputFormat, string> = {
+  json: "JSON",
+  csv: "CSV",
+  tsv: "TSV",
+  text: "Text",
+};
+
+/**
+ * Builds the Markdown of a run's output, either rendered (ANSI colors removed, JSON pretty-printed, CSV and TSV as
+ * tables, images shown) or raw (exactly as printed, with escape characters made visible).
+ */
+function buildOutputMarkdown(
+  result: CodeExecutionResult,
+  isRaw: boolean,
+  collapseJson: boolean,
+): { markdown: string; format: OutputFormat } {
+  const rendered = renderOutput(result.stdout, { collapseJson });
+  const sections = [
+    "## Standard Output",
+    !result.stdout ? "_No standard output._" : isRaw ? toCodeBlock(showAnsiEscapes(result.stdout)) : rendered.markdown,
+  ];
+  const outputFiles = result.outputFiles ?? [];
+  if (outputFiles.length > 0 && !isRaw) {
+    sections.push("## Images", renderImages(outputFiles));
+  }
+  if (result.stderr) {
+    sections.push("## Standard Error", toCodeBlock(isRaw ? showAnsiEscapes(result.stderr) : stripAnsi(result.stderr)));
+  }
+  if (result.error) {
+    sections.push("## Execution Error", toCodeBlock(result.error));
+  }
+  return { markdown: sections.join("\n\n"), format: rendered.format };
+}
+
+export const OutputDetail: React.FC<OutputDetailProps> = ({ result, navigationTitle = "Output" }) => {
+  const [isRaw, setIsRaw] = useState<boolean>(false);
+  const [collapseJson, setCollapseJson] = useState<boolean>(true);
+  const { markdown, format } = buildOutputMarkdown(result, isRaw, collapseJson);
+  const outputFiles = result.outputFiles ?? [];
+
+  return (
+    <Detail
+      navigationTitle={navigationTitle}
+      markdown={markdown}
+      metadata={
+        <Detail.Metadata>
+          <Detail.Metadata.Label title="View" text={isRaw ? "Raw" : "Rendered"} />
+          {result.stdout && <Detail.Metadata.Label title="Output Format" text={FORMAT_LABELS[format]} />}
+          {outputFiles.length > 0 && (
+            <Detail.Metadata.TagList title="Images">
+              {outputFiles.map((filePath) => (
+                <Detail.Metadata.TagList.Item key={filePath} text={path.basename(filePath)} />
+              ))}
+            </Detail.Metadata.TagList>
+          )}
+        </Detail.Metadata>
+      }
+      actions={
+        <ActionPanel>
+          <Action
+            title={isRaw ? "Show Rendered Output" : "Show Raw Output"}
+            icon={isRaw ? Icon.Eye : Icon.Code}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "v" }}
+            onAction={() => setIsRaw((previous) => !previous)}
+          />
+          {format === "json" && !isRaw && (
+            <Action
+              title={collapseJson ? "Expand JSON" : "Collapse JSON"}
+              icon={collapseJson ? Icon.ChevronDown : Icon.ChevronUp}
+              shortcut={{ modifiers: ["cmd", "shift"], key: "j" }}
+              onAction={() => setCollapseJson((previous) => !previous)}
+            />
+          )}
+          <Action.CopyToClipboard
+            title="Copy Standard Output"
+            content={stripAnsi(result.stdout)}
+            shortcut={Keyboard.Shortcut.Common.Copy}
+          />
+          <Action.CopyToClipboard title="Copy Raw Output" content={result.stdout} />
+          {outputFiles.length > 0 && (
+            <ActionPanel.Section title="Images">
+              {outputFiles.map((filePath) => (
+                <Action.Open key={filePath} title={`Open ${path.basename(filePath)}`} target={filePath} />
+              ))}
+              <Action.ShowInFinder path={outputFiles[0]} />
+            </ActionPanel.Section>
+          )}
+        </ActionPanel>
+      }
+    />
+  );
+};
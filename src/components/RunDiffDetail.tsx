@@ -0,0 +1,30 @@
+// components/RunDiffDetail.tsx
+import { Detail } from "@raycast/api";
+import React from "react";
+import { diffLines, formatDiff, hasChanges } from "../utils/diff";
+import { toCodeBlock } from "../utils/formatting";
+import { HistoryEntry } from "../utils/history";
+
+interface RunDiffDetailProps {
+  base: HistoryEntry; // The older run, shown as removed lines
+  target: HistoryEntry; // The newer run, shown as added lines
+}
+
+/**
+ * Formats one section of the comparison, or notes that the two runs are identical for it.
+ */
+function diffSection(title: string, before: string, after: string): string {
+  const lines = diffLines(before, after);
+  return hasChanges(lines) ? `## ${title}\n\n${toCodeBlock(formatDiff(lines), "diff")}` : `## ${title}\n\nIdentical.`;
+}
+
+export const RunDiffDetail: React.FC<RunDiffDetailProps> = ({ base, target }) => {
+  const markdown = [
+    `Comparing the run from **${new Date(base.timestamp).toLocaleString()}** (\`-\`) with the run from **${new Date(target.timestamp).toLocaleString()}** (\`+\`).`,
+    diffSection("Standard Output", base.result.stdout, target.result.stdout),
+    diffSection("Standard Error", base.result.stderr, target.result.stderr),
+    diffSection("Code", base.code, target.code),
+  ].join("\n\n");
+
+  return <Detail navigationTitle="Compare Runs" markdown={markdown} />;
+};
@@ -0,0 +1,153 @@
+// components/RunHistoryList.tsx
+import { List, ActionPanel, Action, Icon, Color, Image, Keyboard, useNavigation } from "@raycast/api";
+import React from "react";
+import { formatDuration } from "../utils/formatting";
+import { HistoryEntry } from "../utils/history";
+import { getLanguageDefinition } from "../utils/languages";
+import { RunDiffDetail } from "./RunDiffDetail";
+import { RunResultDetail, buildRunMarkdown } from "./RunResultDetail";
+
+interface RunHistoryListProps {
+  entries: HistoryEntry[];
+  isLoading: boolean;
+  diffBaseId: string | null;
+  onDeleteEntry: (id: string) => Promise<void>;
+  onClearHistory: () => Promise<void>;
+  onRestoreEntry: (entry: HistoryEntry) => Promise<void>;
+  onRerunEntry: (entry: HistoryEntry) => Promise<HistoryEntry | null>;
+  onMarkForDiff: (id: string | null) => void;
+}
+
+/**
+ * Uses the first non-empty line of the code as a title for the run.
+ */
+function getEntryTitle(entry: HistoryEntry): string {
+  return (
+    entry.code
+      .split("\n")
+      .find((line) => line.trim())
+      ?.trim() || "(empty code)"
+  );
+}
+
+export const RunHistoryList: React.FC<RunHistoryListProps> = ({
+  entries,
+  isLoading,
+  diffBaseId,
+  onDeleteEntry,
+  onClearHistory,
+  onRestoreEntry,
+  onRerunEntry,
+  onMarkForDiff,
+}) => {
+  const { push } = useNavigation();
+  const diffBase = entries.find((entry) => entry.id === diffBaseId);
+
+  const rerunAndShow = async (entry: HistoryEntry) => {
+    const newEntry = await onRerunEntry(entry);
+    if (newEntry) {
+      push(<RunResultDetail entry={newEntry} />);
+    }
+  };
+
+  return (
+    <List isLoading={isLoading} isShowingDetail={entries.length > 0} searchBarPlaceholder="Search past runs...">
+      <List.EmptyView
+        icon={Icon.Clock}
+        title="No Runs Yet"
+        description="Runs from the Run Code command will appear here."
+      />
+      {entries.map((entry) => (
+        <List.Item
+          key={entry.id}
+          title={getEntryTitle(entry)}
+          icon={{
+            source: (getLanguageDefinition(entry.language)?.icon ?? Icon.Code) as Image.Source,
+            mask: Image.Mask.RoundedRectangle,
+          }}
+          keywords={[entry.languageName, entry.language, ...entry.code.split(/\s+/).filter(Boolean)]}
+          accessories={[
+            ...(entry.id === diffBaseId ? [{ tag: { value: "Diff Base", color: Color.Blue } }] : []),
+            {
+              icon: entry.result.error
+                ? { source: Icon.XMarkCircle, tintColor: Color.Red }
+                : { source: Icon.CheckCircle, tintColor: Color.Green },
+              tooltip: entry.result.error ?? "Succeeded",
+            },
+          ]}
+          detail={
+            <List.Item.Detail
+              markdown={buildRunMarkdown(entry)}
+              metadata={
+                <List.Item.Detail.Metadata>
+                  <List.Item.Detail.Metadata.Label title="Language" text={entry.languageName} />
+                  <List.Item.Detail.Metadata.Label title="Ran At" text={new Date(entry.timestamp).toLocaleString()} />
+                  <List.Item.Detail.Metadata.Label title="Duration" text={formatDuration(entry.durationMs)} />
+                </List.Item.Detail.Metadata>
+              }
+            />
+          }
+          actions={
+            <ActionPanel>
+              <Action title="Show Output" icon={Icon.Eye} onAction={() => push(<RunResultDetail entry={entry} />)} />
+              <Action
+                title="Restore in Run Code"
+                icon={Icon.ArrowCounterClockwise}
+                onAction={() => onRestoreEntry(entry)}
+              />
+              <Action
+                title="Re-Run"
+                icon={Icon.Play}
+                shortcut={{ modifiers: ["cmd", "shift"], key: "r" }}
+                onAction={() => rerunAndShow(entry)}
+              />
+              <ActionPanel.Section title="Compare">
+                {diffBase && diffBase.id !== entry.id && (
+                  <Action
+                    title="Diff with Marked Run"
+                    icon={Icon.Switch}
+                    shortcut={{ modifiers: ["cmd"], key: "d" }}
+                    onAction={() => {
+                      // Show the older run as the base of the diff
+                      const [base, target] =
+                        diffBase.timestamp <= entry.timestamp ? [diffBase, entry] : [entry, diffBase];
+                      push(<RunDiffDetail base={base} target={target} />);
+                    }}
+                  />
+                )}
+                {entry.id === diffBaseId ? (
+                  <Action title="Unmark for Diff" icon={Icon.Circle} onAction={() => onMarkForDiff(null)} />
+                ) : (
+                  <Action
+                    title="Mark for Diff"
+                    icon={Icon.CircleProgress50}
+                    shortcut={{ modifiers: ["cmd", "shift"], key: "d" }}
+                    onAction={() => onMarkForDiff(entry.id)}
+                  />
+                )}
+              </ActionPanel.Section>
+              <ActionPanel.Section>
+                <Action.CopyToClipboard title="Copy Code" content={entry.code} />
+                <Action.CopyToClipboard title="Copy Standard Output" content={entry.result.stdout} />
+                <Action
+                  title="Delete Run"
+                  icon={Icon.Trash}
+                  style={Action.Style.Destructive}
+                  shortcut={Keyboard.Shortcut.Common.Remove}
+                  onAction={() => onDeleteEntry(entry.id)}
+                />
+                <Action
+                  title="Clear History"
+                  icon={Icon.Trash}
+                  style={Action.Style.Destructive}
+                  shortcut={Keyboard.Shortcut.Common.RemoveAll}
+                  onAction={onClearHistory}
+                />
+              </ActionPanel.Section>
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List>
+  );
+};
@@ -0,0 +1,115 @@
+// components/RunResultDetail.tsx
+import { Detail, ActionPanel, Action, Icon, Color } from "@raycast/api";
+import React from "react";
+import { formatDuration, formatMemory, toCodeBlock } from "../utils/formatting";
+import { extractDiagnostics, formatDiagnostics } from "../utils/diagnostics";
+import { HistoryEntry } from "../utils/history";
+import { getLanguageDefinition } from "../utils/languages";
+import { renderImages, stripAnsi } from "../utils/richOutput";
+import { SANDBOX_PROTECTION_LABELS, SandboxProtection } from "../utils/sandbox";
+import { DiagnosticsList } from "./DiagnosticsList";
+import { OutputDetail } from "./OutputDetail";
+
+/**
+ * Builds the Markdown shown for a past run: its code followed by every non-empty output stream.
+ * @param entry The history entry.
+ * @returns The Markdown document.
+ */
+export function buildRunMarkdown(entry: HistoryEntry): string {
+  const sections = [`## Code\n\n${toCodeBlock(entry.code, entry.language)}`];
+  sections.push(`## Standard Output\n\n${toCodeBlock(stripAnsi(entry.result.stdout) || "No standard output.")}`);
+  if (entry.result.outputFiles && entry.result.outputFiles.length > 0) {
+    sections.push(`## Images\n\n${renderImages(entry.result.outputFiles)}`);
+  }
+  if (entry.result.stderr) {
+    sections.push(`## Standard Error\n\n${toCodeBlock(stripAnsi(entry.result.stderr))}`);
+  }
+  if (entry.result.error) {
+    sections.push(`## Execution Error\n\n${toCodeBlock(entry.result.error)}`);
+  }
+  return sections.join("\n\n");
+}
+
+interface RunResultDetailProps {
+  entry: HistoryEntry;
+  actions?: React.ReactNode; // Extra actions, shown after the copy actions
+}
+
+export const RunResultDetail: React.FC<RunResultDetailProps> = ({ entry, actions }) => {
+  const { result } = entry;
+  const diagnostics = extractDiagnostics(
+    getLanguageDefinition(entry.language)?.parseDiagnostics,
+    result.stderr,
+    result.stdout,
+  );
+  return (
+    <Detail
+      navigationTitle={`${entry.languageName} Run`}
+      markdown={buildRunMarkdown(entry)}
+      metadata={
+        <Detail.Metadata>
+          <Detail.Metadata.Label title="Language" text={entry.languageName} />
+          <Detail.Metadata.Label title="Ran At" text={new Date(entry.timestamp).toLocaleString()} />
+          <Detail.Metadata.Label title="Duration" text={formatDuration(entry.durationMs)} />
+          {entry.outputTruncated && <Detail.Metadata.Label title="Output" text="Truncated in history" />}
+          {result.exitCode !== null && <Detail.Metadata.Label title="Exit Code" text={String(result.exitCode)} />}
+          {result.signal && <Detail.Metadata.Label title="Signal" text={result.signal} />}
+          {result.installDurationMs !== undefined && (
+            <Detail.Metadata.Label title="Install Time" text={formatDuration(result.installDurationMs)} />
+          )}
+          {result.compileCached && <Detail.Metadata.Label title="Compile Time" text="Cached build" />}
+          {result.compileDurationMs !== null && (
+            <Detail.Metadata.Label title="Compile Time" text={formatDuration(result.compileDurationMs)} />
+          )}
+          {result.runDurationMs !== null && (
+            <Detail.Metadata.Label title="Run Time" text={formatDuration(result.runDurationMs)} />
+          )}
+          {result.peakMemoryKb !== null && (
+            <Detail.Metadata.Label title="Peak Memory" text={formatMemory(result.peakMemoryKb)} />
+          )}
+          {result.sandbox && (
+            <Detail.Metadata.TagList title="Sandbox">
+              {(Object.keys(SANDBOX_PROTECTION_LABELS) as SandboxProtection[]).map((protection) => {
+                const isActive = result.sandbox?.protections.includes(protection);
+                return (
+                  <Detail.Metadata.TagList.Item
+                    key={protection}
+                    text={`${isActive ? "✓" : "✗"} ${SANDBOX_PROTECTION_LABELS[protection]}`}
+                    color={isActive ? Color.Green : Color.SecondaryText}
+                  />
+                );
+              })}
+            </Detail.Metadata.TagList>
+          )}
+          {entry.wrapSnippet && <Detail.Metadata.Label title="Snippet Mode" text="On" />}
+          {entry.args && <Detail.Metadata.Label title="Arguments" text={entry.args} />}
+          {result.command && <Detail.Metadata.Label title="Command" text={result.command} />}
+        </Detail.Metadata>
+      }
+      actions={
+        <ActionPanel>
+          <Action.CopyToClipboard title="Copy Standard Output" content={stripAnsi(result.stdout)} />
+          <Action.Push
+            title="Show Output"
+            icon={Icon.Eye}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "e" }}
+            target={<OutputDetail result={result} navigationTitle={`${entry.languageName} Output`} />}
+          />
+          <Action.CopyToClipboard title="Copy Code" content={entry.code} />
+          {diagnostics.length > 0 && (
+            <React.Fragment>
+              <Action.Push
+                title="Show Diagnostics"
+                icon={Icon.Bug}
+                shortcut={{ modifiers: ["cmd", "shift"], key: "d" }}
+                target={<DiagnosticsList diagnostics={diagnostics} code={entry.code} language={entry.language} />}
+              />
+              <Action.CopyToClipboard title="Copy Diagnostics" content={formatDiagnostics(diagnostics)} />
+            </React.Fragment>
+          )}
+          {actions}
+        </ActionPanel>
+      }
+    />
+  );
+};
@@ -0,0 +1,63 @@
+// components/SnippetForm.tsx
+import { Form, ActionPanel, Action, useNavigation } from "@raycast/api";
+import React, { useState } from "react";
+import { SnippetDetails, parseTags } from "../utils/snippets";
+
+interface SnippetFormProps {
+  navigationTitle: string;
+  submitTitle: string;
+  initialDetails?: SnippetDetails;
+  onSubmit: (details: SnippetDetails) => Promise<void>;
+}
+
+export const SnippetForm: React.FC<SnippetFormProps> = ({ navigationTitle, submitTitle, initialDetails, onSubmit }) => {
+  const { pop } = useNavigation();
+  const [nameError, setNameError] = useState<string | undefined>();
+
+  return (
+    <Form
+      navigationTitle={navigationTitle}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title={submitTitle}
+            onSubmit={async (values: { name: string; description: string; tags: string }) => {
+              if (!values.name.trim()) {
+                setNameError("A name is required");
+                return;
+              }
+              await onSubmit({
+                name: values.name.trim(),
+                description: values.description.trim(),
+                tags: parseTags(values.tags),
+              });
+              pop();
+            }}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField
+        id="name"
+        title="Name"
+        placeholder="e.g. Binary search"
+        defaultValue={initialDetails?.name}
+        error={nameError}
+        onChange={() => setNameError(undefined)}
+        autoFocus
+      />
+      <Form.TextArea
+        id="description"
+        title="Description"
+        placeholder="What does this snippet do?"
+        defaultValue={initialDetails?.description}
+      />
+      <Form.TextField
+        id="tags"
+        title="Tags"
+        placeholder="Comma-separated, e.g. sorting, kata"
+        defaultValue={initialDetails?.tags.join(", ")}
+      />
+    </Form>
+  );
+};
@@ -0,0 +1,123 @@
+// components/SnippetList.tsx
+import { List, ActionPanel, Action, Icon, Image, Keyboard } from "@raycast/api";
+import React from "react";
+import { toCodeBlock } from "../utils/formatting";
+import { getLanguageDefinition } from "../utils/languages";
+import { Snippet, SnippetDetails } from "../utils/snippets";
+import { SnippetForm } from "./SnippetForm";
+import { ExportSnippetsForm, ImportSnippetsForm } from "./SnippetTransferForms";
+
+interface SnippetListProps {
+  snippets: Snippet[];
+  isLoading: boolean;
+  onOpenSnippet: (snippet: Snippet) => Promise<void>;
+  onUpdateSnippet: (id: string, details: SnippetDetails) => Promise<void>;
+  onDuplicateSnippet: (snippet: Snippet) => Promise<void>;
+  onDeleteSnippet: (id: string) => Promise<void>;
+  onExportSnippets: (directory: string) => Promise<void>;
+  onImportSnippets: (filePath: string) => Promise<void>;
+}
+
+export const SnippetList: React.FC<SnippetListProps> = ({
+  snippets,
+  isLoading,
+  onOpenSnippet,
+  onUpdateSnippet,
+  onDuplicateSnippet,
+  onDeleteSnippet,
+  onExportSnippets,
+  onImportSnippets,
+}) => {
+  // Group snippets by language, keeping the order of the first snippet of each language
+  const snippetsByLanguage = snippets.reduce<Map<string, Snippet[]>>((groups, snippet) => {
+    groups.set(snippet.language, [...(groups.get(snippet.language) ?? []), snippet]);
+    return groups;
+  }, new Map());
+
+  const libraryActions = (
+    <ActionPanel.Section title="Library">
+      <Action.Push
+        title="Import Snippets"
+        icon={Icon.Download}
+        target={<ImportSnippetsForm onImport={onImportSnippets} />}
+      />
+      {snippets.length > 0 && (
+        <Action.Push
+          title="Export Snippets"
+          icon={Icon.Upload}
+          target={<ExportSnippetsForm onExport={onExportSnippets} />}
+        />
+      )}
+    </ActionPanel.Section>
+  );
+
+  return (
+    <List isLoading={isLoading} isShowingDetail={snippets.length > 0} searchBarPlaceholder="Search snippets...">
+      <List.EmptyView
+        icon={Icon.Document}
+        title="No Snippets Yet"
+        description="Use “Save as Snippet” in Run Code, or import a snippet library."
+        actions={<ActionPanel>{libraryActions}</ActionPanel>}
+      />
+      {[...snippetsByLanguage.entries()].map(([language, languageSnippets]) => {
+        const definition = getLanguageDefinition(language);
+        return (
+          <List.Section key={language} title={definition?.name ?? language}>
+            {languageSnippets.map((snippet) => (
+              <List.Item
+                key={snippet.id}
+                title={snippet.name}
+                icon={{
+                  source: (definition?.icon ?? Icon.Code) as Image.Source,
+                  mask: Image.Mask.RoundedRectangle,
+                }}
+                keywords={[...snippet.tags, snippet.description, definition?.name ?? language]}
+                accessories={snippet.tags.map((tag) => ({ tag }))}
+                detail={
+                  <List.Item.Detail
+                    markdown={[snippet.description, toCodeBlock(snippet.code, snippet.language)]
+                      .filter(Boolean)
+                      .join("\n\n")}
+                  />
+                }
+                actions={
+                  <ActionPanel>
+                    <Action title="Open in Run Code" icon={Icon.Play} onAction={() => onOpenSnippet(snippet)} />
+                    <Action.Push
+                      title="Edit Details"
+                      icon={Icon.Pencil}
+                      shortcut={Keyboard.Shortcut.Common.Edit}
+                      target={
+                        <SnippetForm
+                          navigationTitle="Edit Snippet"
+                          submitTitle="Save Snippet"
+                          initialDetails={snippet}
+                          onSubmit={(details) => onUpdateSnippet(snippet.id, details)}
+                        />
+                      }
+                    />
+                    <Action
+                      title="Duplicate Snippet"
+                      icon={Icon.CopyClipboard}
+                      shortcut={Keyboard.Shortcut.Common.Duplicate}
+                      onAction={() => onDuplicateSnippet(snippet)}
+                    />
+                    <Action.CopyToClipboard title="Copy Code" content={snippet.code} />
+                    <Action
+                      title="Delete Snippet"
+                      icon={Icon.Trash}
+                      style={Action.Style.Destructive}
+                      shortcut={Keyboard.Shortcut.Common.Remove}
+                      onAction={() => onDeleteSnippet(snippet.id)}
+                    />
+                    {libraryActions}
+                  </ActionPanel>
+                }
+              />
+            ))}
+          </List.Section>
+        );
+      })}
+    </List>
+  );
+};
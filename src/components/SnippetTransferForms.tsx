@@ -0,0 +1,69 @@
+// components/SnippetTransferForms.tsx
+import { Form, ActionPanel, Action, useNavigation } from "@raycast/api";
+import * as os from "os";
+import * as path from "path";
+import React from "react";
+
+interface ExportSnippetsFormProps {
+  onExport: (directory: string) => Promise<void>;
+}
+
+export const ExportSnippetsForm: React.FC<ExportSnippetsFormProps> = ({ onExport }) => {
+  const { pop } = useNavigation();
+  return (
+    <Form
+      navigationTitle="Export Snippets"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Export Snippets"
+            onSubmit={async (values: { directory: string[] }) => {
+              await onExport(values.directory[0]);
+              pop();
+            }}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.Description text="The whole snippet library is written to a JSON file that can be shared and imported." />
+      <Form.FilePicker
+        id="directory"
+        title="Destination"
+        allowMultipleSelection={false}
+        canChooseDirectories
+        canChooseFiles={false}
+        defaultValue={[path.join(os.homedir(), "Downloads")]}
+      />
+    </Form>
+  );
+};
+
+interface ImportSnippetsFormProps {
+  onImport: (filePath: string) => Promise<void>;
+}
+
+export const ImportSnippetsForm: React.FC<ImportSnippetsFormProps> = ({ onImport }) => {
+  const { pop } = useNavigation();
+  return (
+    <Form
+      navigationTitle="Import Snippets"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Import Snippets"
+            onSubmit={async (values: { file: string[] }) => {
+              if (values.file.length === 0) {
+                return;
+              }
+              await onImport(values.file[0]);
+              pop();
+            }}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.Description text="Snippets from the file are added to the library. Snippets that were imported before are updated." />
+      <Form.FilePicker id="file" title="Library File" allowMultipleSelection={false} canChooseDirectories={false} />
+    </Form>
+  );
+};
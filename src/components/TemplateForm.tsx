@@ -0,0 +1,47 @@
+// components/TemplateForm.tsx
+import { Form, ActionPanel, Action, Icon, useNavigation } from "@raycast/api";
+import React from "react";
+import { CURSOR_PLACEHOLDER } from "../utils/templates";
+
+interface TemplateFormProps {
+  languageName: string;
+  template: string;
+  onSave: (template: string) => Promise<void>;
+  onReset: () => Promise<void>;
+}
+
+export const TemplateForm: React.FC<TemplateFormProps> = ({ languageName, template, onSave, onReset }) => {
+  const { pop } = useNavigation();
+
+  return (
+    <Form
+      navigationTitle={`${languageName} Template`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Save Template"
+            icon={Icon.SaveDocument}
+            onSubmit={async (values: { template: string }) => {
+              await onSave(values.template);
+              pop();
+            }}
+          />
+          <Action
+            title="Restore Default Template"
+            icon={Icon.ArrowCounterClockwise}
+            onAction={async () => {
+              await onReset();
+              pop();
+            }}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.Description
+        title="Starter Template"
+        text={`Used as the starting code for ${languageName}. Put ${CURSOR_PLACEHOLDER} where your code goes: it is removed from new code, and Wrap in Template puts the current code there.`}
+      />
+      <Form.TextArea id="template" title="Template" defaultValue={template} enableMarkdown={false} autoFocus />
+    </Form>
+  );
+};
@@ -0,0 +1,64 @@
+// components/TestCaseForm.tsx
+import { Form, ActionPanel, Action, useNavigation } from "@raycast/api";
+import React, { useState } from "react";
+import { TestCaseDetails } from "../utils/testCases";
+
+interface TestCaseFormProps {
+  navigationTitle: string;
+  submitTitle: string;
+  initialDetails?: TestCaseDetails;
+  onSubmit: (details: TestCaseDetails) => Promise<void>;
+}
+
+export const TestCaseForm: React.FC<TestCaseFormProps> = ({
+  navigationTitle,
+  submitTitle,
+  initialDetails,
+  onSubmit,
+}) => {
+  const { pop } = useNavigation();
+  const [nameError, setNameError] = useState<string | undefined>();
+
+  return (
+    <Form
+      navigationTitle={navigationTitle}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title={submitTitle}
+            onSubmit={async (values: TestCaseDetails) => {
+              if (!values.name.trim()) {
+                setNameError("A name is required");
+                return;
+              }
+              await onSubmit({ name: values.name.trim(), stdin: values.stdin, expectedOutput: values.expectedOutput });
+              pop();
+            }}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField
+        id="name"
+        title="Name"
+        placeholder="e.g. Empty input"
+        defaultValue={initialDetails?.name}
+        error={nameError}
+        onChange={() => setNameError(undefined)}
+        autoFocus
+      />
+      <Form.TextArea
+        id="stdin"
+        title="Stdin"
+        placeholder="Input passed to the program's standard input..."
+        defaultValue={initialDetails?.stdin}
+      />
+      <Form.TextArea
+        id="expectedOutput"
+        title="Expected Output"
+        placeholder="The exact standard output expected; trailing whitespace is ignored"
+        defaultValue={initialDetails?.expectedOutput}
+      />
+    </Form>
+  );
+};
@@ -0,0 +1,146 @@
+// components/TestCasesList.tsx
+import { List, ActionPanel, Action, Icon, Color, Image, Keyboard } from "@raycast/api";
+import React from "react";
+import { useTestCases } from "../hooks/useTestCases";
+import { formatDiff } from "../utils/diff";
+import { formatDuration, toCodeBlock } from "../utils/formatting";
+import { TestCase, TestCaseResult } from "../utils/testCases";
+import { TestCaseForm } from "./TestCaseForm";
+
+interface TestCasesListProps {
+  language: string;
+  languageName: string;
+  onRunTestCase: (testCase: TestCase) => Promise<TestCaseResult>;
+}
+
+/**
+ * Picks the icon of a test case from its latest result.
+ */
+function getTestCaseIcon(testResult: TestCaseResult | undefined, isRunning: boolean): Image.ImageLike {
+  if (isRunning) {
+    return { source: Icon.CircleProgress, tintColor: Color.Blue };
+  }
+  if (!testResult) {
+    return Icon.Circle;
+  }
+  return testResult.passed
+    ? { source: Icon.CheckCircle, tintColor: Color.Green }
+    : { source: Icon.XMarkCircle, tintColor: Color.Red };
+}
+
+/**
+ * Builds the Markdown shown for a test case: its outcome and diff, followed by its input and outputs.
+ */
+function buildTestCaseMarkdown(testCase: TestCase, testResult: TestCaseResult | undefined): string {
+  const sections: string[] = [];
+  if (testResult) {
+    sections.push(testResult.passed ? "## ✅ Passed" : "## ❌ Failed");
+    if (!testResult.passed) {
+      sections.push(`### Diff (expected \`-\`, actual \`+\`)\n\n${toCodeBlock(formatDiff(testResult.diff), "diff")}`);
+    }
+  }
+  sections.push(`### Stdin\n\n${toCodeBlock(testCase.stdin || "No input.")}`);
+  sections.push(`### Expected Output\n\n${toCodeBlock(testCase.expectedOutput || "No output.")}`);
+  if (testResult) {
+    sections.push(`### Actual Output\n\n${toCodeBlock(testResult.result.stdout || "No output.")}`);
+    if (testResult.result.stderr) {
+      sections.push(`### Standard Error\n\n${toCodeBlock(testResult.result.stderr)}`);
+    }
+    if (testResult.result.error) {
+      sections.push(`### Execution Error\n\n${toCodeBlock(testResult.result.error)}`);
+    }
+  }
+  return sections.join("\n\n");
+}
+
+export const TestCasesList: React.FC<TestCasesListProps> = ({ language, languageName, onRunTestCase }) => {
+  const {
+    testCases,
+    results,
+    runningTestCaseId,
+    isLoading,
+    onAddTestCase,
+    onUpdateTestCase,
+    onDeleteTestCase,
+    onRunTestCases,
+  } = useTestCases(language, onRunTestCase);
+
+  const finishedResults = testCases.map((testCase) => results[testCase.id]).filter(Boolean);
+  const passedCount = finishedResults.filter((testResult) => testResult.passed).length;
+  const addAction = (
+    <Action.Push
+      title="Add Test Case"
+      icon={Icon.Plus}
+      shortcut={Keyboard.Shortcut.Common.New}
+      target={<TestCaseForm navigationTitle="Add Test Case" submitTitle="Add Test Case" onSubmit={onAddTestCase} />}
+    />
+  );
+
+  return (
+    <List
+      navigationTitle={
+        finishedResults.length > 0
+          ? `${languageName} Tests — ${passedCount} of ${finishedResults.length} passed`
+          : `${languageName} Tests`
+      }
+      isLoading={isLoading || runningTestCaseId !== null}
+      isShowingDetail={testCases.length > 0}
+    >
+      <List.EmptyView
+        icon={Icon.CheckList}
+        title="No Test Cases"
+        description={`Add input and expected output pairs to check your ${languageName} code against.`}
+        actions={<ActionPanel>{addAction}</ActionPanel>}
+      />
+      {testCases.map((testCase) => {
+        const testResult = results[testCase.id];
+        return (
+          <List.Item
+            key={testCase.id}
+            title={testCase.name}
+            icon={getTestCaseIcon(testResult, testCase.id === runningTestCaseId)}
+            accessories={testResult ? [{ text: formatDuration(testResult.durationMs) }] : []}
+            detail={<List.Item.Detail markdown={buildTestCaseMarkdown(testCase, testResult)} />}
+            actions={
+              <ActionPanel>
+                <Action title="Run All Tests" icon={Icon.Play} onAction={() => onRunTestCases(testCases)} />
+                <Action
+                  title="Run This Test"
+                  icon={Icon.PlayFilled}
+                  shortcut={{ modifiers: ["cmd", "shift"], key: "return" }}
+                  onAction={() => onRunTestCases([testCase])}
+                />
+                <ActionPanel.Section>
+                  {addAction}
+                  <Action.Push
+                    title="Edit Test Case"
+                    icon={Icon.Pencil}
+                    shortcut={Keyboard.Shortcut.Common.Edit}
+                    target={
+                      <TestCaseForm
+                        navigationTitle="Edit Test Case"
+                        submitTitle="Save Test Case"
+                        initialDetails={testCase}
+                        onSubmit={(details) => onUpdateTestCase(testCase.id, details)}
+                      />
+                    }
+                  />
+                  {testResult && (
+                    <Action.CopyToClipboard title="Copy Actual Output" content={testResult.result.stdout} />
+                  )}
+                  <Action
+                    title="Delete Test Case"
+                    icon={Icon.Trash}
+                    style={Action.Style.Destructive}
+                    shortcut={Keyboard.Shortcut.Common.Remove}
+                    onAction={() => onDeleteTestCase(testCase.id)}
+                  />
+                </ActionPanel.Section>
+              </ActionPanel>
+            }
+          />
+        );
+      })}
+    </List>
+  );
+};
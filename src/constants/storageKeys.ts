@@ -0,0 +1,13 @@
+// constants/storageKeys.ts
+
+// LocalStorage Key for storing detected languages
+export const LANGUAGES_STORAGE_KEY = "detected_languages";
+export const LAST_USED_LANGUAGE_KEY = "lastUsedLanguage";
+// LocalStorage Key for storing detected code formatters
+export const FORMATTERS_STORAGE_KEY = "detected_formatters";
+// LocalStorage Key for storing past executions, newest first
+export const HISTORY_STORAGE_KEY = "execution_history";
+// LocalStorage Key for storing the named snippet library
+export const SNIPPETS_STORAGE_KEY = "snippets";
+// LocalStorage Key for storing the keys of code the user confirmed running from a launch, newest first
+export const CONFIRMED_AUTORUNS_STORAGE_KEY = "confirmed_autoruns";
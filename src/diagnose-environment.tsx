@@ -0,0 +1,13 @@
+// commands/diagnose-environment.tsx
+import { useEnvironmentDiagnostics } from "./hooks/useEnvironmentDiagnostics";
+import { EnvironmentReportDetail } from "./components/EnvironmentReportDetail";
+
+/**
+ * Raycast command reporting how language detection sees the environment.
+ * Shows the login shell, its PATH and startup noise, and the result of every detection step for each language.
+ */
+export default function Command() {
+  const { report, isLoading, onRerun } = useEnvironmentDiagnostics();
+
+  return <EnvironmentReportDetail report={report} isLoading={isLoading} onRerun={onRerun} />;
+}
@@ -0,0 +1,130 @@
+// hooks/useBenchmark.ts
+import { useState, useEffect, useCallback, useRef } from "react";
+import { showToast, Toast } from "@raycast/api";
+import {
+  BenchmarkResult,
+  BenchmarkSettings,
+  clearBenchmarkBaseline,
+  loadBenchmarkBaseline,
+  saveBenchmarkBaseline,
+} from "../utils/benchmark";
+import { formatDuration } from "../utils/formatting";
+
+interface UseBenchmarkReturn {
+  result: BenchmarkResult | null; // The latest finished benchmark
+  baseline: BenchmarkResult | null; // The benchmark pinned for the language, if any
+  settings: BenchmarkSettings | null; // Settings of the latest benchmark, reused by Run Again
+  isRunning: boolean;
+  onRunBenchmark: (settings: BenchmarkSettings) => Promise<void>;
+  onPinBaseline: () => Promise<void>; // Pins the latest benchmark
+  onClearBaseline: () => Promise<void>;
+  onResetResult: () => void; // Goes back to the settings
+  onStopBenchmark: () => void;
+}
+
+/**
+ * Runs benchmarks of the current code and manages the baseline they are compared against.
+ * @param language The language value being benchmarked.
+ * @param runBenchmark Benchmarks the current code, reporting progress after each run, until the signal is aborted.
+ */
+export function useBenchmark(
+  language: string,
+  runBenchmark: (
+    settings: BenchmarkSettings,
+    onProgress?: (completedRuns: number, totalRuns: number) => void,
+    signal?: AbortSignal,
+  ) => Promise<BenchmarkResult>,
+): UseBenchmarkReturn {
+  const [result, setResult] = useState<BenchmarkResult | null>(null);
+  const [baseline, setBaseline] = useState<BenchmarkResult | null>(null);
+  const [settings, setSettings] = useState<BenchmarkSettings | null>(null);
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  // Aborts the benchmark in progress; a ref, so the unmount cleanup sees the latest one
+  const abortController = useRef<AbortController | null>(null);
+
+  // Effect to load the language's baseline when the view opens
+  useEffect(() => {
+    loadBenchmarkBaseline(language).then(setBaseline);
+  }, [language]);
+
+  // Leaving the view stops a benchmark that is still running
+  useEffect(() => {
+    return () => abortController.current?.abort();
+  }, []);
+
+  /**
+   * Runs a benchmark, showing its progress in a toast.
+   */
+  const onRunBenchmark = useCallback(
+    async (newSettings: BenchmarkSettings) => {
+      setIsRunning(true);
+      setSettings(newSettings);
+      const controller = new AbortController();
+      abortController.current = controller;
+      const toast = await showToast({ style: Toast.Style.Animated, title: "Benchmarking..." });
+
+      try {
+        const benchmarkResult = await runBenchmark(
+          newSettings,
+          (completedRuns, totalRuns) => {
+            const isWarmup = completedRuns <= newSettings.warmupRuns;
+            toast.message = isWarmup
+              ? `Warm-up ${completedRuns} of ${newSettings.warmupRuns}`
+              : `Run ${completedRuns - newSettings.warmupRuns} of ${totalRuns - newSettings.warmupRuns}`;
+          },
+          controller.signal,
+        );
+        setResult(benchmarkResult);
+        toast.style = Toast.Style.Success;
+        toast.title = "Benchmark finished!";
+        toast.message = `Median ${formatDuration(benchmarkResult.stats.medianMs)}`;
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        toast.style = Toast.Style.Failure;
+        toast.title = "Benchmark failed!";
+        toast.message = errorMessage || "An unknown error occurred.";
+      } finally {
+        setIsRunning(false);
+        abortController.current = null;
+      }
+    },
+    [runBenchmark],
+  );
+
+  /**
+   * Pins the latest benchmark as the baseline of the language.
+   */
+  const onPinBaseline = useCallback(async () => {
+    if (!result) {
+      return;
+    }
+    await saveBenchmarkBaseline(result);
+    setBaseline(result);
+    await showToast({ style: Toast.Style.Success, title: "Pinned as baseline" });
+  }, [result]);
+
+  /**
+   * Removes the baseline of the language.
+   */
+  const onClearBaseline = useCallback(async () => {
+    await clearBenchmarkBaseline(language);
+    setBaseline(null);
+    await showToast({ style: Toast.Style.Success, title: "Baseline cleared" });
+  }, [language]);
+
+  const onResetResult = useCallback(() => setResult(null), []);
+
+  const onStopBenchmark = useCallback(() => abortController.current?.abort(), []);
+
+  return {
+    result,
+    baseline,
+    settings,
+    isRunning,
+    onRunBenchmark,
+    onPinBaseline,
+    onClearBaseline,
+    onResetResult,
+    onStopBenchmark,
+  };
+}
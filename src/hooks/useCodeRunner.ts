@@ -1,47 +1,245 @@
 // hooks/useCodeRunner.ts
-import { useState, useEffect, useCallback } from "react";
-import { showToast, Toast, LocalStorage } from "@raycast/api";
-import { runCode, CodeExecutionResult, detectInstalledLanguages, DetectedLanguage } from "../utils/codeRunner";
+import { useState, useEffect, useCallback, useRef } from "react";
+import { showToast, showInFinder, Toast, LocalStorage } from "@raycast/api";
+import * as path from "path";
+import {
+  startCodeRun,
+  createExecutionResult,
+  CodeExecutionResult,
+  CodeRun,
+  detectInstalledLanguages,
+  DetectedLanguage,
+  RunCodeOptions,
+  withInterpreter,
+} from "../utils/codeRunner";
+import { FORMATTERS_STORAGE_KEY, LANGUAGES_STORAGE_KEY, LAST_USED_LANGUAGE_KEY } from "../constants/storageKeys";
+import { formatExecutionSummary } from "../utils/formatting";
+import { CellResult, CellRunMode, combineCellResults, formatCellRange, selectCells, splitCells } from "../utils/cells";
+import { BenchmarkResult, BenchmarkSettings, computeBenchmarkStats } from "../utils/benchmark";
+import {
+  DetectedFormatter,
+  FormatResult,
+  detectInstalledFormatters,
+  findFormatter,
+  formatCode,
+} from "../utils/formatters";
+import { exportProject, prepareExportCode, saveCodeAsFile } from "../utils/exporting";
+import { recordRunSafely } from "../utils/history";
+import { RunCodeLaunchRequest, confirmAutorun, findRequestedLanguage } from "../utils/launcher";
+import { parseArguments, parseEnvironment } from "../utils/inputParsing";
+import { ReplSession, disposeAllSessions, startReplSession, supportsSessions } from "../utils/replSession";
+import { SnippetDetails, createSnippet } from "../utils/snippets";
+import { TestCase, TestCaseResult, runTestCase } from "../utils/testCases";
+import { getLanguageDefinition, loadLanguageDefinitions } from "../utils/languages";
+import { classifyLanguage, isLikelyPaste } from "../utils/languageInference";
+import { getExtensionPreferences } from "../utils/preferences";
+import { isSandboxEnabled } from "../utils/sandbox";
+import { applyTemplate, loadTemplate, resetTemplate, saveTemplate } from "../utils/templates";
+import {
+  EMPTY_LIMIT_OVERRIDES,
+  ResourceLimitOverrides,
+  ResourceLimits,
+  parseLimitOverrides,
+  resolveResourceLimits,
+} from "../utils/resourceLimits";
 
-// LocalStorage Key for storing detected languages
-const LANGUAGES_STORAGE_KEY = "detected_languages";
-const LAST_USED_LANGUAGE_KEY = "lastUsedLanguage";
+/**
+ * What a run from the form state uses (with stdin left to the caller), or why the form state cannot be run.
+ */
+type RunSetup =
+  { language: DetectedLanguage; options: Omit<RunCodeOptions, "stdin"> } | { errorTitle: string; errorMessage: string };
 
 interface UseCodeRunnerReturn {
   code: string;
+  stdin: string;
+  args: string; // Raw arguments string, split shell-style before running
+  env: string; // Raw environment variables, one KEY=value per line
+  limitOverrides: ResourceLimitOverrides; // Per-run overrides of the resource limit preferences
   language: string;
-  result: CodeExecutionResult | null;
+  interpreterPath: string; // Executable chosen for the current language; empty for the detected default
+  isSessionMode: boolean; // Whether runs of the current language share a long-lived interpreter
+  isSnippetMode: boolean; // Whether bare statements are wrapped in the language's scaffolding before running
+  template: string; // Starter template of the current language, saved by the user or built in
+  activeSession: ReplSession | null; // The running session of the current language, if any
+  formatter: DetectedFormatter | null; // Installed formatter of the current language, if any
+  formatError: string | null; // Why the last formatting failed, until the code changes
+  result: CodeExecutionResult | null; // Updated live with streamed output while a run is in progress
+  resultSource: { code: string; stdin: string } | null; // What produced the result; the fields may have changed since
+  cellResults: CellResult[]; // Output of each cell of the latest cell run, in run order
+  selectedCellIndex: number; // The cell that Run Cell and Run Up to Cell refer to
+  currentRun: CodeRun | null; // The run in progress, which can be subscribed to and cancelled
   availableLanguages: DetectedLanguage[];
+  customRunnerErrors: string[]; // Problems found in the custom runners config file
   isInitializing: boolean;
   isExecutingCode: boolean;
   onCodeChange: (newCode: string) => void;
+  onStdinChange: (newStdin: string) => void;
+  onArgsChange: (newArgs: string) => void;
+  onEnvChange: (newEnv: string) => void;
+  onLimitOverridesChange: (changes: Partial<ResourceLimitOverrides>) => void;
   onLanguageChange: (newValue: string) => void;
+  onInterpreterChange: (newPath: string) => void;
+  onSessionModeChange: (enabled: boolean) => void;
+  onResetSession: () => void;
+  onSnippetModeChange: (enabled: boolean) => void;
+  onSaveTemplate: (template: string) => Promise<void>;
+  onResetTemplate: () => Promise<void>;
+  onApplyTemplate: (wrapCode: boolean) => Promise<void>; // Replaces the code with the template, or wraps it in it
+  onFormatCode: () => Promise<void>;
   onRunCode: () => Promise<void>;
+  onRunCells: (mode: CellRunMode) => Promise<void>;
+  onSelectedCellChange: (index: number) => void;
+  onStopExecution: () => void;
+  onSaveSnippet: (details: SnippetDetails) => Promise<void>;
+  onSaveAsFile: (directory: string, fileName: string) => Promise<void>;
+  onExportProject: (directory: string, name: string) => Promise<void>;
+  onRunTestCase: (testCase: TestCase) => Promise<TestCaseResult>;
+  onRunBenchmark: (
+    settings: BenchmarkSettings,
+    onProgress?: (completedRuns: number, totalRuns: number) => void,
+    signal?: AbortSignal,
+  ) => Promise<BenchmarkResult>;
   performLanguageDetection: (showLoadingToast?: boolean) => Promise<void>; // Expose for retry button
 }
 
-export function useCodeRunner(): UseCodeRunnerReturn {
+/**
+ * Holds the state of the Run Code form and runs its code.
+ * @param launchRequest Code and inputs the command was launched with, used instead of the saved ones on the first load.
+ */
+export function useCodeRunner(launchRequest: RunCodeLaunchRequest | null = null): UseCodeRunnerReturn {
   const [code, setCode] = useState<string>("");
+  const [stdin, setStdin] = useState<string>("");
+  const [args, setArgs] = useState<string>("");
+  const [env, setEnv] = useState<string>("");
+  const [limitOverrides, setLimitOverrides] = useState<ResourceLimitOverrides>(EMPTY_LIMIT_OVERRIDES);
   const [language, setLanguage] = useState<string>("");
+  const [interpreterPath, setInterpreterPath] = useState<string>("");
+  const [isSessionMode, setIsSessionMode] = useState<boolean>(false);
+  const [isSnippetMode, setIsSnippetMode] = useState<boolean>(false);
+  const [template, setTemplate] = useState<string>("");
+  const [sessions, setSessions] = useState<Record<string, ReplSession>>({}); // Keyed by language value
   const [result, setResult] = useState<CodeExecutionResult | null>(null);
+  const [resultSource, setResultSource] = useState<{ code: string; stdin: string } | null>(null);
+  const [cellResults, setCellResults] = useState<CellResult[]>([]);
+  const [selectedCellIndex, setSelectedCellIndex] = useState<number>(0);
+  const [currentRun, setCurrentRun] = useState<CodeRun | null>(null);
   const [availableLanguages, setAvailableLanguages] = useState<DetectedLanguage[]>([]);
+  const [formatters, setFormatters] = useState<DetectedFormatter[]>([]);
+  const [formatError, setFormatError] = useState<string | null>(null);
+  const [customRunnerErrors, setCustomRunnerErrors] = useState<string[]>([]);
   const [isInitializing, setIsInitializing] = useState<boolean>(true); // Tracks initial setup and re-detection
   const [isExecutingCode, setIsExecutingCode] = useState<boolean>(false); // Tracks only code execution
+  const [isAutorunPending, setIsAutorunPending] = useState<boolean>(false); // Set once a launch asks to run the code
+  const pendingLaunchRequest = useRef<RunCodeLaunchRequest | null>(launchRequest); // Applied on the first load only
 
-  // Function to get initial code based on the selected language.
-  const getInitialCodeForLanguage = useCallback((langValue: string): string => {
-    switch (langValue) {
-      case "javascript":
-        return `console.log("Hello from JavaScript!");\nlet a = 10;\nlet b = 20;\nconsole.log("Sum:", a + b);`;
-      case "python":
-        return `print("Hello from Python!")\nx = 5\ny = 3\nprint(f"Product: {x * y}")`;
-      case "go":
-        return `package main\n\nimport "fmt"\n\nfunc main() {\n    fmt.Println("Hello from Go!")\n    a, b := 7, 2\n    fmt.Printf("Division: %f\\n", float64(a) / float64(b))\n}`;
-      default:
-        return "";
+  // Function to get initial code based on the selected language's starter template.
+  const getInitialCodeForLanguage = useCallback(async (langValue: string): Promise<string> => {
+    return applyTemplate(await loadTemplate(langValue));
+  }, []); // Memoize as it doesn't depend on any state
+
+  /**
+   * Loads the stdin, arguments, environment variables, limit overrides, interpreter, modes and template saved for a
+   * language.
+   * @param langValue The language whose inputs should be restored.
+   */
+  const loadSavedInputs = useCallback(async (langValue: string) => {
+    const [
+      savedStdin,
+      savedArgs,
+      savedEnv,
+      savedLimits,
+      savedInterpreter,
+      savedSessionMode,
+      savedSnippetMode,
+      savedTemplate,
+    ] = await Promise.all([
+      LocalStorage.getItem<string>(`stdin_${langValue}`),
+      LocalStorage.getItem<string>(`args_${langValue}`),
+      LocalStorage.getItem<string>(`env_${langValue}`),
+      LocalStorage.getItem<string>(`limits_${langValue}`),
+      LocalStorage.getItem<string>(`interpreter_${langValue}`),
+      LocalStorage.getItem<string>(`session_${langValue}`),
+      LocalStorage.getItem<string>(`snippet_${langValue}`),
+      loadTemplate(langValue),
+    ]);
+    setInterpreterPath(savedInterpreter || "");
+    setIsSessionMode(savedSessionMode === "true");
+    setIsSnippetMode(savedSnippetMode === "true");
+    setTemplate(savedTemplate);
+    setStdin(savedStdin || "");
+    setArgs(savedArgs || "");
+    setEnv(savedEnv || "");
+    try {
+      setLimitOverrides(savedLimits ? { ...EMPTY_LIMIT_OVERRIDES, ...JSON.parse(savedLimits) } : EMPTY_LIMIT_OVERRIDES);
+    } catch (parseError: unknown) {
+      console.error("[LocalStorage Parse Error]", parseError);
+      setLimitOverrides(EMPTY_LIMIT_OVERRIDES);
+    }
+  }, []); // Memoize as it doesn't depend on any state
+
+  /**
+   * Selects the language to start with and loads its code and inputs: the ones the command was launched with on the
+   * first load, otherwise the last used language and its saved code and inputs.
+   * @param detected The detected languages; must not be empty.
+   */
+  const restoreLanguageState = useCallback(
+    async (detected: DetectedLanguage[]) => {
+      const request = pendingLaunchRequest.current;
+      pendingLaunchRequest.current = null;
+      const requestedLanguage = request?.language ? findRequestedLanguage(detected, request.language) : undefined;
+      if (request?.language && !requestedLanguage) {
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Language not available!",
+          message: `'${request.language}' is not a detected language. Using the last used language instead.`,
+        });
+      }
+
+      // Determine the language to use: requested, last used, or first detected
+      const savedLanguage = await LocalStorage.getItem<string>(LAST_USED_LANGUAGE_KEY);
+      const matchedLanguageValue =
+        requestedLanguage?.value ?? detected.find((lang) => lang.value === savedLanguage)?.value ?? detected[0].value;
+      setLanguage(matchedLanguageValue);
+
+      // Load saved code for the matched language, or use initial snippet
+      const savedCode = await LocalStorage.getItem<string>(`code_${matchedLanguageValue}`);
+      setCode(request?.code ?? (savedCode || (await getInitialCodeForLanguage(matchedLanguageValue))));
+      await loadSavedInputs(matchedLanguageValue);
+      if (request?.stdin !== undefined) {
+        setStdin(request.stdin);
+      }
+      await LocalStorage.setItem(LAST_USED_LANGUAGE_KEY, matchedLanguageValue);
+      setIsAutorunPending(request?.autorun === true);
+    },
+    [getInitialCodeForLanguage, loadSavedInputs],
+  );
+
+  /**
+   * Validates the custom runners config file and reports any problems with a failure toast.
+   * Invalid runners are skipped, so surfacing the errors is the only way users learn why a runner is missing.
+   */
+  const checkCustomRunners = useCallback(async () => {
+    const { errors } = loadLanguageDefinitions();
+    setCustomRunnerErrors(errors);
+    if (errors.length > 0) {
+      console.error("[Custom Runners] Config errors:", errors);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: `Custom runners config has ${errors.length} ${errors.length === 1 ? "error" : "errors"}`,
+        message: errors.join("\n"),
+      });
     }
   }, []); // Memoize as it doesn't depend on any state
 
+  /**
+   * Detects the installed formatters and caches them with the detected languages.
+   */
+  const detectFormatters = useCallback(async () => {
+    const detected = await detectInstalledFormatters();
+    setFormatters(detected);
+    await LocalStorage.setItem(FORMATTERS_STORAGE_KEY, JSON.stringify(detected));
+  }, []); // Memoize as it doesn't depend on any state
+
   /**
    * Performs the language detection and updates state and local storage.
    * This is used for initial load and explicit "Detect New Languages" action.
@@ -60,7 +258,7 @@ export function useCodeRunner(): UseCodeRunnerReturn {
       }
 
       try {
-        const detected = await detectInstalledLanguages();
+        const [detected] = await Promise.all([detectInstalledLanguages(), detectFormatters()]);
         setAvailableLanguages(detected);
 
         if (detected.length === 0) {
@@ -69,7 +267,7 @@ export function useCodeRunner(): UseCodeRunnerReturn {
           if (toast) {
             toast.style = Toast.Style.Failure;
             toast.title = "No supported languages found!";
-            toast.message = "Please ensure Node.js, Python3, or Go are installed and in your PATH.";
+            toast.message = "Please ensure a supported language runtime is installed and in your PATH.";
           }
           await LocalStorage.removeItem(LANGUAGES_STORAGE_KEY); // Clear stale language cache
           return;
@@ -77,17 +275,7 @@ export function useCodeRunner(): UseCodeRunnerReturn {
 
         await LocalStorage.setItem(LANGUAGES_STORAGE_KEY, JSON.stringify(detected));
 
-        // Determine the language to use after detection: last used, or first detected
-        const savedLanguage = await LocalStorage.getItem<string>(LAST_USED_LANGUAGE_KEY);
-        const matchedLanguageValue = detected.find((lang) => lang.value === savedLanguage)?.value ?? detected[0].value;
-
-        setLanguage(matchedLanguageValue);
-
-        // Load saved code for the matched language, or use initial snippet
-        const savedCode = await LocalStorage.getItem<string>(`code_${matchedLanguageValue}`);
-        setCode(savedCode || getInitialCodeForLanguage(matchedLanguageValue));
-
-        await LocalStorage.setItem(LAST_USED_LANGUAGE_KEY, matchedLanguageValue);
+        await restoreLanguageState(detected);
 
         if (toast) {
           toast.style = Toast.Style.Success;
@@ -108,10 +296,11 @@ export function useCodeRunner(): UseCodeRunnerReturn {
         await LocalStorage.removeItem(LANGUAGES_STORAGE_KEY); // Clear stale language cache on error
       } finally {
         setIsInitializing(false); // Always set initializing to false at the end of detection
+        await checkCustomRunners();
       }
     },
-    [getInitialCodeForLanguage],
-  ); // Memoize, depends on getInitialCodeForLanguage
+    [restoreLanguageState, checkCustomRunners, detectFormatters],
+  ); // Memoize, depends on restoreLanguageState, checkCustomRunners and detectFormatters
 
   // Effect to initialize the extension: load languages from cache or detect
   useEffect(() => {
@@ -132,16 +321,18 @@ export function useCodeRunner(): UseCodeRunnerReturn {
             detected = JSON.parse(cachedLanguages);
             setAvailableLanguages(detected);
             if (detected.length > 0) {
-              const savedLanguage = await LocalStorage.getItem<string>(LAST_USED_LANGUAGE_KEY);
-              const matchedLanguageValue =
-                detected.find((lang) => lang.value === savedLanguage)?.value ?? detected[0].value;
-              setLanguage(matchedLanguageValue);
-              const savedCode = await LocalStorage.getItem<string>(`code_${matchedLanguageValue}`);
-              setCode(savedCode || getInitialCodeForLanguage(matchedLanguageValue));
-              await LocalStorage.setItem(LAST_USED_LANGUAGE_KEY, matchedLanguageValue);
+              await restoreLanguageState(detected);
               toast.style = Toast.Style.Success;
               toast.title = "Languages loaded from cache!";
               toast.message = "Enter code and run.";
+              await checkCustomRunners();
+              // Caches written by older versions have no formatters yet
+              const cachedFormatters = await LocalStorage.getItem<string>(FORMATTERS_STORAGE_KEY);
+              if (cachedFormatters) {
+                setFormatters(JSON.parse(cachedFormatters));
+              } else {
+                detectFormatters();
+              }
             } else {
               // Cache was empty or invalid, trigger a fresh detection
               console.log("[Initialization] Cached languages array is empty, performing fresh detection.");
@@ -174,7 +365,131 @@ export function useCodeRunner(): UseCodeRunnerReturn {
     }
 
     initializeExtension();
-  }, [performLanguageDetection, getInitialCodeForLanguage]); // Dependencies for useEffect
+  }, [performLanguageDetection, restoreLanguageState, checkCustomRunners, detectFormatters]); // Dependencies for useEffect
+
+  /**
+   * Resolves the language, interpreter and program inputs of a run from the form state.
+   * @returns What to run the code with, or why the form state cannot be run.
+   */
+  const resolveRunSetup = useCallback((): RunSetup => {
+    if (!code.trim()) {
+      return { errorTitle: "No code provided!", errorMessage: "Please enter some code to run." };
+    }
+
+    const detectedLanguage = availableLanguages.find((lang) => lang.value === language);
+    if (!detectedLanguage) {
+      return { errorTitle: "Language not available!", errorMessage: "Please select a detected language." };
+    }
+
+    let parsedArgs: string[];
+    try {
+      parsedArgs = parseArguments(args);
+    } catch (argsError: unknown) {
+      return {
+        errorTitle: "Invalid arguments!",
+        errorMessage: argsError instanceof Error ? argsError.message : String(argsError),
+      };
+    }
+
+    let parsedEnv: Record<string, string>;
+    try {
+      parsedEnv = parseEnvironment(env);
+    } catch (envError: unknown) {
+      return {
+        errorTitle: "Invalid environment variables!",
+        errorMessage: envError instanceof Error ? envError.message : String(envError),
+      };
+    }
+
+    let limits: ReturnType<typeof parseLimitOverrides>;
+    try {
+      limits = parseLimitOverrides(limitOverrides);
+    } catch (limitsError: unknown) {
+      return {
+        errorTitle: "Invalid resource limits!",
+        errorMessage: limitsError instanceof Error ? limitsError.message : String(limitsError),
+      };
+    }
+
+    return {
+      // A saved interpreter that is no longer installed falls back to the detected default
+      language: withInterpreter(detectedLanguage, interpreterPath || null),
+      options: { args: parsedArgs, env: parsedEnv, limits, wrapSnippet: isSnippetMode },
+    };
+  }, [code, args, env, limitOverrides, language, interpreterPath, isSnippetMode, availableLanguages]);
+
+  /**
+   * Returns the current language's session, replacing one that has exited or that was started with another
+   * interpreter, memory limit or Sandboxed Mode setting, since those apply to the interpreter as a whole.
+   * @param runLanguage The language and interpreter of the run.
+   * @param limits Limit overrides of the run.
+   * @returns The session, or null if the language has no session support.
+   */
+  const acquireSession = useCallback(
+    (runLanguage: DetectedLanguage, limits?: Partial<ResourceLimits>): ReplSession | null => {
+      const existing = sessions[language];
+      const sandboxed = isSandboxEnabled();
+      if (
+        existing &&
+        existing.isAlive &&
+        existing.executablePath === runLanguage.executablePath &&
+        existing.memoryMb === resolveResourceLimits(limits).memoryMb &&
+        (existing.sandbox !== null) === sandboxed
+      ) {
+        return existing;
+      }
+      existing?.dispose();
+      const session = startReplSession(runLanguage, limits, sandboxed);
+      if (session) {
+        setSessions((previous) => ({ ...previous, [language]: session }));
+      }
+      return session;
+    },
+    [language, sessions],
+  );
+
+  /**
+   * Formats the code with the current language's formatter and saves the result. A formatter error is kept in
+   * `formatError` and the code is left as it is.
+   * @returns The outcome, or null if the language has no installed formatter or there is no code.
+   */
+  const formatCurrentCode = useCallback(async (): Promise<FormatResult | null> => {
+    const formatter = findFormatter(formatters, language);
+    if (!formatter || !code.trim()) {
+      return null;
+    }
+    const formatResult = await formatCode(formatter, language, code);
+    if ("error" in formatResult) {
+      setFormatError(formatResult.error);
+      return formatResult;
+    }
+    setFormatError(null);
+    if (formatResult.code !== code) {
+      setCode(formatResult.code);
+      await LocalStorage.setItem(`code_${language}`, formatResult.code);
+    }
+    return formatResult;
+  }, [code, language, formatters]);
+
+  /**
+   * Formats the code with the current language's formatter, showing the formatter's error on failure.
+   */
+  const onFormatCode = useCallback(async () => {
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Formatting code..." });
+    const formatResult = await formatCurrentCode();
+    if (!formatResult) {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Nothing to format!";
+      toast.message = "No formatter is installed for this language, or there is no code.";
+    } else if ("error" in formatResult) {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Formatting failed!";
+      toast.message = formatResult.error;
+    } else {
+      toast.style = Toast.Style.Success;
+      toast.title = "Code formatted!";
+    }
+  }, [formatCurrentCode]);
 
   /**
    * Handles the execution of the code.
@@ -184,6 +499,8 @@ export function useCodeRunner(): UseCodeRunnerReturn {
   const onRunCode = useCallback(async () => {
     setIsExecutingCode(true); // Set executing code to true
     setResult(null); // Clear previous results before new execution
+    setResultSource({ code, stdin });
+    setCellResults([]);
 
     const toast = await showToast({
       style: Toast.Style.Animated,
@@ -191,27 +508,71 @@ export function useCodeRunner(): UseCodeRunnerReturn {
     });
 
     try {
-      if (!code.trim()) {
+      const setup = resolveRunSetup();
+      if ("errorTitle" in setup) {
         toast.style = Toast.Style.Failure;
-        toast.title = "No code provided!";
-        toast.message = "Please enter some code to run.";
+        toast.title = setup.errorTitle;
+        toast.message = setup.errorMessage;
         return;
       }
 
-      const executionResult = await runCode(language, code);
-      setResult(executionResult); // Set the result to be displayed
+      // Code the formatter rejects still runs as it is, so the error from the run shows what is wrong
+      let runCode = code;
+      if (getExtensionPreferences().formatOnRun) {
+        const formatResult = await formatCurrentCode();
+        if (formatResult && "code" in formatResult) {
+          runCode = formatResult.code;
+          setResultSource({ code: runCode, stdin });
+        }
+      }
+
+      const runLanguage = setup.language;
+      const startedAt = Date.now();
+      const session =
+        isSessionMode && supportsSessions(language) ? acquireSession(runLanguage, setup.options.limits) : null;
+      const run = session
+        ? session.run(runCode, { ...setup.options, stdin })
+        : startCodeRun(runLanguage, runCode, { ...setup.options, stdin });
+      setCurrentRun(run);
+
+      // Stream output into the result panels as it arrives
+      setResult(createExecutionResult({ command: run.command }));
+      const unsubscribe = run.subscribe((stream, chunk) => {
+        setResult((previous) => (previous ? { ...previous, [stream]: previous[stream] + chunk } : previous));
+      });
 
-      // Log the command executed for development purposes
-      console.log(`[CodeRunner] Command Executed: ${executionResult.command}`);
+      const executionResult = await run.result;
+      unsubscribe();
+      setResult(executionResult); // Set the final result to be displayed
 
-      if (executionResult.error) {
+      await recordRunSafely({
+        language,
+        languageName: runLanguage.name,
+        code: runCode,
+        stdin,
+        args,
+        env,
+        interpreterPath: runLanguage.executablePath,
+        limits: setup.options.limits,
+        sandboxed: isSandboxEnabled(),
+        wrapSnippet: setup.options.wrapSnippet,
+        result: executionResult,
+        timestamp: startedAt,
+        durationMs: Date.now() - startedAt,
+      });
+
+      if (run.cancelled) {
+        toast.style = Toast.Style.Failure;
+        toast.title = "Code execution stopped!";
+        toast.message = "Partial output displayed below.";
+      } else if (executionResult.error) {
         toast.style = Toast.Style.Failure;
         toast.title = "Code execution failed!";
-        toast.message = executionResult.error;
+        toast.message = [formatExecutionSummary(executionResult), executionResult.error].filter(Boolean).join("\n");
       } else {
         toast.style = Toast.Style.Success;
         toast.title = "Code executed successfully!";
-        toast.message = "Output displayed below.";
+        toast.message = formatExecutionSummary(executionResult) || "Output displayed below.";
       }
     } catch (error: unknown) {
       // Changed 'any' to 'unknown'
@@ -220,11 +581,231 @@ export function useCodeRunner(): UseCodeRunnerReturn {
       toast.title = "Failed to run code!";
       toast.message = errorMessage || "An unknown error occurred.";
       // Set an error result object in case of an uncaught exception during runCode
-      setResult({ stdout: "", stderr: "", error: errorMessage || "Unknown error", command: null });
+      setResult(createExecutionResult({ error: errorMessage || "Unknown error" }));
     } finally {
+      setCurrentRun(null);
       setIsExecutingCode(false); // Always set executing code to false
     }
-  }, [code, language]); // Dependencies for onRunCode
+  }, [code, stdin, args, env, language, isSessionMode, acquireSession, resolveRunSetup, formatCurrentCode]); // Dependencies for onRunCode
+
+  // Run the code a launch asked to run, once the form has loaded it and the user has confirmed it
+  useEffect(() => {
+    if (isAutorunPending && !isInitializing) {
+      setIsAutorunPending(false);
+      confirmAutorun(language, code, stdin)
+        .then((isConfirmed) => {
+          if (isConfirmed) {
+            onRunCode();
+          }
+        })
+        .catch((autorunError: unknown) => {
+          console.error("[Autorun Error]", autorunError);
+          showToast({
+            style: Toast.Style.Failure,
+            title: "Could not run the code",
+            message: autorunError instanceof Error ? autorunError.message : String(autorunError),
+          });
+        });
+    }
+  }, [isAutorunPending, isInitializing, onRunCode, language, code, stdin]);
+
+  /**
+   * Runs cells of the snippet, split at its cell markers, and shows the output of each cell.
+   * Languages with session support run the cells one by one in a session: the language's session in session mode,
+   * otherwise a new session that ends with the run. Other languages run the cells together as one program.
+   * @param mode Only the selected cell, every cell up to and including it, or all cells.
+   */
+  const onRunCells = useCallback(
+    async (mode: CellRunMode) => {
+      const setup = resolveRunSetup();
+      if ("errorTitle" in setup) {
+        await showToast({ style: Toast.Style.Failure, title: setup.errorTitle, message: setup.errorMessage });
+        return;
+      }
+      const cellsToRun = selectCells(splitCells(code, language), mode, selectedCellIndex);
+      if (cellsToRun.length === 0) {
+        return;
+      }
+
+      setIsExecutingCode(true);
+      setResult(null);
+      setCellResults([]);
+      const toast = await showToast({
+        style: Toast.Style.Animated,
+        title: `Running ${formatCellRange(cellsToRun)}...`,
+      });
+      const runLanguage = setup.language;
+      const startedAt = Date.now();
+      const session = supportsSessions(language)
+        ? isSessionMode
+          ? acquireSession(runLanguage, setup.options.limits)
+          : startReplSession(runLanguage, setup.options.limits)
+        : null;
+      const finishedResults: CellResult[] = [];
+
+      try {
+        if (session) {
+          for (const [position, cell] of cellsToRun.entries()) {
+            toast.message = `${position + 1} of ${cellsToRun.length}: ${cell.title}`;
+            const run = session.run(cell.code, { ...setup.options, stdin });
+            setCurrentRun(run);
+            const cellResult: CellResult = { cellIndexes: [cell.index], title: cell.title, result: await run.result };
+            finishedResults.push(cellResult);
+            setCellResults([...finishedResults]);
+            // Later cells usually depend on earlier ones, so stop at the first failure
+            if (cellResult.result.error || run.cancelled) {
+              break;
+            }
+          }
+        } else {
+          const run = startCodeRun(runLanguage, cellsToRun.map((cell) => cell.code).join("\n"), {
+            ...setup.options,
+            stdin,
+          });
+          setCurrentRun(run);
+          finishedResults.push({
+            cellIndexes: cellsToRun.map((cell) => cell.index),
+            title: formatCellRange(cellsToRun),
+            result: await run.result,
+          });
+          setCellResults([...finishedResults]);
+        }
+
+        const combinedResult = combineCellResults(finishedResults);
+        await recordRunSafely({
+          language,
+          languageName: runLanguage.name,
+          code: cellsToRun.map((cell) => cell.code).join("\n"),
+          stdin,
+          args,
+          env,
+          interpreterPath: runLanguage.executablePath,
+          limits: setup.options.limits,
+          sandboxed: isSandboxEnabled(),
+          wrapSnippet: setup.options.wrapSnippet,
+          result: combinedResult,
+          timestamp: startedAt,
+          durationMs: Date.now() - startedAt,
+        });
+
+        toast.style = combinedResult.error ? Toast.Style.Failure : Toast.Style.Success;
+        toast.title = combinedResult.error ? "Cell run failed!" : "Cells executed successfully!";
+        toast.message = combinedResult.error ?? `${finishedResults.length} of ${cellsToRun.length} run`;
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        toast.style = Toast.Style.Failure;
+        toast.title = "Failed to run cells!";
+        toast.message = errorMessage || "An unknown error occurred.";
+      } finally {
+        if (session && !isSessionMode) {
+          session.dispose();
+        }
+        setCurrentRun(null);
+        setIsExecutingCode(false);
+      }
+    },
+    [code, stdin, args, env, language, selectedCellIndex, isSessionMode, acquireSession, resolveRunSetup],
+  );
+
+  /**
+   * Runs the current code against a test case, with the arguments, environment and limits from the form.
+   * @throws {Error} If the form state cannot be run (e.g., no code or invalid environment variables).
+   */
+  const onRunTestCase = useCallback(
+    async (testCase: TestCase): Promise<TestCaseResult> => {
+      const setup = resolveRunSetup();
+      if ("errorTitle" in setup) {
+        throw new Error(`${setup.errorTitle} ${setup.errorMessage}`);
+      }
+      return runTestCase(setup.language, code, testCase, setup.options);
+    },
+    [code, resolveRunSetup],
+  );
+
+  /**
+   * Benchmarks the current code: compiles it once, then runs it the warm-up runs plus the measured iterations with
+   * the stdin, arguments, environment and limits from the form. The timeout applies to each run. The start-up time of
+   * the login shell, measured with empty runs, is subtracted from every timing.
+   * @param settings How many measured and warm-up runs to do.
+   * @param onProgress Called after each run, warm-up runs included.
+   * @param signal Stops the benchmark when aborted, e.g. when its view is closed.
+   * @returns The timings of the measured runs.
+   * @throws {Error} If the form state cannot be run, or a run fails.
+   */
+  const onRunBenchmark = useCallback(
+    async (
+      settings: BenchmarkSettings,
+      onProgress?: (completedRuns: number, totalRuns: number) => void,
+      signal?: AbortSignal,
+    ): Promise<BenchmarkResult> => {
+      const setup = resolveRunSetup();
+      if ("errorTitle" in setup) {
+        throw new Error(`${setup.errorTitle} ${setup.errorMessage}`);
+      }
+
+      const totalRuns = settings.warmupRuns + settings.iterations;
+      const durationsMs: number[] = [];
+      const startedAt = Date.now();
+      const run = startCodeRun(setup.language, code, {
+        ...setup.options,
+        stdin,
+        repetitions: totalRuns,
+        measureStartupOverhead: true,
+        onRepetitionComplete: (index, durationMs) => {
+          if (index >= settings.warmupRuns) {
+            durationsMs.push(durationMs);
+          }
+          onProgress?.(index + 1, totalRuns);
+        },
+      });
+      setCurrentRun(run);
+      if (signal?.aborted) {
+        run.cancel();
+      }
+      signal?.addEventListener("abort", () => run.cancel(), { once: true });
+      let executionResult: CodeExecutionResult;
+      try {
+        executionResult = await run.result;
+      } finally {
+        setCurrentRun(null);
+      }
+      if (run.cancelled) {
+        throw new Error("The benchmark was stopped.");
+      }
+      if (executionResult.error || durationsMs.length < settings.iterations) {
+        throw new Error(executionResult.error || "The benchmark stopped before all runs finished.");
+      }
+
+      const startupOverheadMs = executionResult.startupOverheadMs ?? 0;
+      const programDurationsMs = durationsMs.map((durationMs) => Math.max(0, durationMs - startupOverheadMs));
+      return {
+        language,
+        code,
+        settings,
+        durationsMs: programDurationsMs,
+        stats: computeBenchmarkStats(programDurationsMs),
+        compileDurationMs: executionResult.compileDurationMs,
+        startupOverheadMs: executionResult.startupOverheadMs,
+        timestamp: startedAt,
+      };
+    },
+    [code, stdin, language, resolveRunSetup],
+  );
+
+  /**
+   * Stops the run in progress, killing the whole process tree.
+   */
+  const onStopExecution = useCallback(() => {
+    currentRun?.cancel();
+  }, [currentRun]);
+
+  // Make sure a run in progress does not outlive the command
+  useEffect(() => {
+    return () => currentRun?.cancel();
+  }, [currentRun]);
+
+  // Stop every session interpreter when the command closes
+  useEffect(() => disposeAllSessions, []);
 
   /**
    * Updates the code example when the language selection changes, or triggers re-detection.
@@ -240,37 +821,350 @@ export function useCodeRunner(): UseCodeRunnerReturn {
       await LocalStorage.setItem(`code_${language}`, code);
       setLanguage(newValue);
       setResult(null); // Clear results when language changes
+      setCellResults([]);
+      setFormatError(null);
 
       // Load saved code for the new language, or set to default example
       const savedCode = await LocalStorage.getItem<string>(`code_${newValue}`);
-      setCode(savedCode || getInitialCodeForLanguage(newValue)); // Use saved code or default
+      setCode(savedCode || (await getInitialCodeForLanguage(newValue))); // Use saved code or default
+      await loadSavedInputs(newValue);
       await LocalStorage.setItem(LAST_USED_LANGUAGE_KEY, newValue); // Save to storage
     },
-    [code, language, getInitialCodeForLanguage, performLanguageDetection],
+    [code, language, getInitialCodeForLanguage, loadSavedInputs, performLanguageDetection],
   ); // Dependencies for onLanguageChange
 
+  /**
+   * Handles interpreter changes and remembers the choice for the current language.
+   */
+  const onInterpreterChange = useCallback(
+    async (newPath: string) => {
+      setInterpreterPath(newPath);
+      await LocalStorage.setItem(`interpreter_${language}`, newPath);
+    },
+    [language],
+  );
+
+  /**
+   * Selects the cell that Run Cell and Run Up to Cell refer to.
+   */
+  const onSelectedCellChange = useCallback((index: number) => {
+    setSelectedCellIndex(index);
+  }, []);
+
+  /**
+   * Turns session mode on or off for the current language. Turning it off ends the language's session.
+   */
+  const onSessionModeChange = useCallback(
+    async (enabled: boolean) => {
+      setIsSessionMode(enabled);
+      if (!enabled) {
+        sessions[language]?.dispose();
+        setSessions((previous) => {
+          const remaining = { ...previous };
+          delete remaining[language];
+          return remaining;
+        });
+      }
+      await LocalStorage.setItem(`session_${language}`, String(enabled));
+    },
+    [language, sessions],
+  );
+
+  /**
+   * Ends the current language's session, discarding its state; the next run starts a new one.
+   */
+  const onResetSession = useCallback(async () => {
+    sessions[language]?.dispose();
+    setSessions((previous) => {
+      const remaining = { ...previous };
+      delete remaining[language];
+      return remaining;
+    });
+    await showToast({ style: Toast.Style.Success, title: "Session reset", message: "The next run starts fresh." });
+  }, [language, sessions]);
+
+  /**
+   * Turns snippet mode on or off for the current language.
+   */
+  const onSnippetModeChange = useCallback(
+    async (enabled: boolean) => {
+      setIsSnippetMode(enabled);
+      await LocalStorage.setItem(`snippet_${language}`, String(enabled));
+    },
+    [language],
+  );
+
+  /**
+   * Saves the current language's starter template, used for new code from then on.
+   */
+  const onSaveTemplate = useCallback(
+    async (newTemplate: string) => {
+      await saveTemplate(language, newTemplate);
+      setTemplate(newTemplate);
+      await showToast({ style: Toast.Style.Success, title: "Template saved" });
+    },
+    [language],
+  );
+
+  /**
+   * Restores the current language's built-in starter template.
+   */
+  const onResetTemplate = useCallback(async () => {
+    await resetTemplate(language);
+    setTemplate(await loadTemplate(language));
+    await showToast({ style: Toast.Style.Success, title: "Template reset to default" });
+  }, [language]);
+
+  /**
+   * Replaces the code with the starter template, or puts the current code at the template's cursor placeholder.
+   * @param wrapCode Whether to wrap the current code instead of replacing it.
+   */
+  const onApplyTemplate = useCallback(
+    async (wrapCode: boolean) => {
+      const newCode = applyTemplate(template, wrapCode ? code : "");
+      setCode(newCode);
+      await LocalStorage.setItem(`code_${language}`, newCode);
+    },
+    [code, language, template],
+  );
+
+  /**
+   * Moves code to another language, e.g. after pasting Go while JavaScript was selected.
+   * Takes every value as an argument so toast actions can call it after the state has changed.
+   * @param fromLanguage The language the code was entered in.
+   * @param toLanguage The language to switch to.
+   * @param movedCode The code to show under the new language.
+   * @param fromLanguageCode The code to keep for the previous language (what it had before the paste).
+   */
+  const moveCodeToLanguage = useCallback(
+    async (fromLanguage: string, toLanguage: string, movedCode: string, fromLanguageCode: string) => {
+      await LocalStorage.setItem(`code_${fromLanguage}`, fromLanguageCode);
+      await LocalStorage.setItem(`code_${toLanguage}`, movedCode);
+      setLanguage(toLanguage);
+      setCode(movedCode);
+      setResult(null);
+      setCellResults([]);
+      setFormatError(null);
+      await loadSavedInputs(toLanguage);
+      await LocalStorage.setItem(LAST_USED_LANGUAGE_KEY, toLanguage);
+    },
+    [loadSavedInputs],
+  );
+
   /**
    * Handles code changes in the TextArea.
-   * Saves the code to local storage.
+   * Saves the code to local storage. When pasted code clearly belongs to another detected language, switches to
+   * that language or suggests it, depending on the Language Auto-Detection preference.
    */
   const onCodeChange = useCallback(
     async (newCode: string) => {
       setCode(newCode);
-      await LocalStorage.setItem(`code_${language}`, newCode); // Persist code for current language
+      setFormatError(null);
+
+      const autoDetection = getExtensionPreferences().languageAutoDetection ?? "switch";
+      const classification =
+        autoDetection !== "off" && isLikelyPaste(code, newCode)
+          ? classifyLanguage(
+              newCode,
+              availableLanguages.map((lang) => lang.value),
+              language,
+            )
+          : null;
+      if (!classification || classification.confidence !== "high" || classification.language === language) {
+        await LocalStorage.setItem(`code_${language}`, newCode); // Persist code for current language
+        return;
+      }
+
+      const previousLanguage = language;
+      const previousCode = code;
+      const previousName = getLanguageDefinition(previousLanguage)?.name ?? previousLanguage;
+      const detectedName = getLanguageDefinition(classification.language)?.name ?? classification.language;
+
+      if (autoDetection === "switch") {
+        const replacedCode = (await LocalStorage.getItem<string>(`code_${classification.language}`)) ?? "";
+        await moveCodeToLanguage(previousLanguage, classification.language, newCode, previousCode);
+        await showToast({
+          style: Toast.Style.Success,
+          title: `Switched to ${detectedName}`,
+          message: `The pasted code looks like ${detectedName}.`,
+          primaryAction: {
+            title: `Switch Back to ${previousName}`,
+            onAction: async (toast) => {
+              const latestCode = (await LocalStorage.getItem<string>(`code_${classification.language}`)) ?? newCode;
+              await moveCodeToLanguage(classification.language, previousLanguage, latestCode, replacedCode);
+              await toast.hide();
+            },
+          },
+        });
+        return;
+      }
+
+      await LocalStorage.setItem(`code_${language}`, newCode);
+      await showToast({
+        style: Toast.Style.Success,
+        title: `This looks like ${detectedName}`,
+        message: `Press ⌘T to switch from ${previousName}.`,
+        primaryAction: {
+          title: `Switch to ${detectedName}`,
+          shortcut: { modifiers: ["cmd"], key: "t" },
+          onAction: async (toast) => {
+            const latestCode = (await LocalStorage.getItem<string>(`code_${previousLanguage}`)) ?? newCode;
+            await moveCodeToLanguage(previousLanguage, classification.language, latestCode, previousCode);
+            await toast.hide();
+          },
+        },
+      });
+    },
+    [code, language, availableLanguages, moveCodeToLanguage],
+  ); // Dependencies for onCodeChange
+
+  /**
+   * Handles stdin changes and persists them for the current language.
+   */
+  const onStdinChange = useCallback(
+    async (newStdin: string) => {
+      setStdin(newStdin);
+      await LocalStorage.setItem(`stdin_${language}`, newStdin);
+    },
+    [language],
+  );
+
+  /**
+   * Handles command-line argument changes and persists them for the current language.
+   */
+  const onArgsChange = useCallback(
+    async (newArgs: string) => {
+      setArgs(newArgs);
+      await LocalStorage.setItem(`args_${language}`, newArgs);
+    },
+    [language],
+  );
+
+  /**
+   * Handles environment variable changes and persists them for the current language.
+   */
+  const onEnvChange = useCallback(
+    async (newEnv: string) => {
+      setEnv(newEnv);
+      await LocalStorage.setItem(`env_${language}`, newEnv);
     },
     [language],
-  ); // Dependency for onCodeChange
+  );
+
+  /**
+   * Handles changes to the per-run resource limit overrides and persists them for the current language.
+   */
+  const onLimitOverridesChange = useCallback(
+    async (changes: Partial<ResourceLimitOverrides>) => {
+      const newOverrides = { ...limitOverrides, ...changes };
+      setLimitOverrides(newOverrides);
+      await LocalStorage.setItem(`limits_${language}`, JSON.stringify(newOverrides));
+    },
+    [language, limitOverrides],
+  );
+
+  /**
+   * Saves the current code as a named snippet in the library.
+   */
+  const onSaveSnippet = useCallback(
+    async (details: SnippetDetails) => {
+      await createSnippet(language, code, details);
+      await showToast({ style: Toast.Style.Success, title: "Snippet saved", message: details.name });
+    },
+    [code, language],
+  );
+
+  /**
+   * Saves the code to a file in the chosen directory and reveals it in Finder.
+   */
+  const onSaveAsFile = useCallback(
+    async (directory: string, fileName: string) => {
+      try {
+        const filePath = path.join(directory, fileName);
+        await saveCodeAsFile(language, prepareExportCode(language, code, isSnippetMode), filePath);
+        await showToast({ style: Toast.Style.Success, title: "Code saved", message: filePath });
+        await showInFinder(filePath);
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        await showToast({ style: Toast.Style.Failure, title: "Failed to save code!", message: errorMessage });
+      }
+    },
+    [code, language, isSnippetMode],
+  );
+
+  /**
+   * Exports the code as a runnable project in the chosen directory and reveals it in Finder.
+   */
+  const onExportProject = useCallback(
+    async (directory: string, name: string) => {
+      const detectedLanguage = availableLanguages.find((lang) => lang.value === language);
+      if (!detectedLanguage) {
+        await showToast({ style: Toast.Style.Failure, title: "Language not available!" });
+        return;
+      }
+      try {
+        const projectDirectory = await exportProject(
+          withInterpreter(detectedLanguage, interpreterPath || null),
+          prepareExportCode(language, code, isSnippetMode),
+          directory,
+          name,
+        );
+        await showToast({ style: Toast.Style.Success, title: "Project exported", message: projectDirectory });
+        await showInFinder(projectDirectory);
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        await showToast({ style: Toast.Style.Failure, title: "Failed to export project!", message: errorMessage });
+      }
+    },
+    [code, language, interpreterPath, isSnippetMode, availableLanguages],
+  );
 
   return {
     code,
+    stdin,
+    args,
+    env,
+    limitOverrides,
     language,
+    interpreterPath,
+    isSessionMode,
+    isSnippetMode,
+    template,
+    activeSession: sessions[language]?.isAlive ? sessions[language] : null,
+    formatter: findFormatter(formatters, language) ?? null,
+    formatError,
     result,
+    resultSource,
+    cellResults,
+    selectedCellIndex,
+    currentRun,
     availableLanguages,
+    customRunnerErrors,
     isInitializing,
     isExecutingCode,
     onCodeChange,
+    onStdinChange,
+    onArgsChange,
+    onEnvChange,
+    onLimitOverridesChange,
     onLanguageChange,
+    onInterpreterChange,
+    onSessionModeChange,
+    onSnippetModeChange,
+    onSaveTemplate,
+    onResetTemplate,
+    onApplyTemplate,
+    onFormatCode,
+    onResetSession,
     onRunCode,
+    onRunCells,
+    onSelectedCellChange,
+    onStopExecution,
+    onSaveSnippet,
+    onSaveAsFile,
+    onExportProject,
+    onRunTestCase,
+    onRunBenchmark,
     performLanguageDetection,
   };
 }
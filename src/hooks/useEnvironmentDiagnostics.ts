@@ -0,0 +1,40 @@
+// hooks/useEnvironmentDiagnostics.ts
+import { useState, useEffect, useCallback } from "react";
+import { showToast, Toast } from "@raycast/api";
+import { EnvironmentReport, diagnoseEnvironment } from "../utils/environmentDiagnostics";
+
+interface UseEnvironmentDiagnosticsReturn {
+  report: EnvironmentReport | null; // The latest report; kept while a new one is collected
+  isLoading: boolean;
+  onRerun: () => Promise<void>;
+}
+
+/**
+ * Collects the environment report when the command opens, and again on request.
+ */
+export function useEnvironmentDiagnostics(): UseEnvironmentDiagnosticsReturn {
+  const [report, setReport] = useState<EnvironmentReport | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+
+  /**
+   * Runs every detection step again and replaces the report.
+   */
+  const onRerun = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setReport(await diagnoseEnvironment());
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      await showToast({ style: Toast.Style.Failure, title: "Failed to diagnose environment", message: errorMessage });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Effect to collect the report when the command opens
+  useEffect(() => {
+    onRerun();
+  }, [onRerun]);
+
+  return { report, isLoading, onRerun };
+}
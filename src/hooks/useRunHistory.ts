@@ -0,0 +1,143 @@
+// hooks/useRunHistory.ts
+import { useState, useEffect, useCallback } from "react";
+import { showToast, Toast, LocalStorage } from "@raycast/api";
+import { LANGUAGES_STORAGE_KEY } from "../constants/storageKeys";
+import { DetectedLanguage, runCode, withInterpreter } from "../utils/codeRunner";
+import { formatExecutionSummary } from "../utils/formatting";
+import { HistoryEntry, clearHistory, loadHistory, recordRunSafely, removeHistoryEntry } from "../utils/history";
+import { parseArguments, parseEnvironment } from "../utils/inputParsing";
+import { openInRunCode } from "../utils/launcher";
+import { isSandboxEnabled } from "../utils/sandbox";
+
+interface UseRunHistoryReturn {
+  entries: HistoryEntry[];
+  isLoading: boolean;
+  diffBaseId: string | null; // Entry marked as the left side of a diff
+  onDeleteEntry: (id: string) => Promise<void>;
+  onClearHistory: () => Promise<void>;
+  onRestoreEntry: (entry: HistoryEntry) => Promise<void>;
+  onRerunEntry: (entry: HistoryEntry) => Promise<HistoryEntry | null>;
+  onMarkForDiff: (id: string | null) => void;
+}
+
+export function useRunHistory(): UseRunHistoryReturn {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [diffBaseId, setDiffBaseId] = useState<string | null>(null);
+
+  const refreshEntries = useCallback(async () => {
+    setEntries(await loadHistory());
+  }, []);
+
+  // Effect to load the history when the command opens
+  useEffect(() => {
+    refreshEntries().finally(() => setIsLoading(false));
+  }, [refreshEntries]);
+
+  /**
+   * Deletes a single run from the history.
+   */
+  const onDeleteEntry = useCallback(
+    async (id: string) => {
+      await removeHistoryEntry(id);
+      if (diffBaseId === id) {
+        setDiffBaseId(null);
+      }
+      await refreshEntries();
+      await showToast({ style: Toast.Style.Success, title: "Run deleted from history" });
+    },
+    [diffBaseId, refreshEntries],
+  );
+
+  /**
+   * Deletes every run from the history.
+   */
+  const onClearHistory = useCallback(async () => {
+    await clearHistory();
+    setDiffBaseId(null);
+    await refreshEntries();
+    await showToast({ style: Toast.Style.Success, title: "History cleared" });
+  }, [refreshEntries]);
+
+  /**
+   * Restores a run's code and inputs as the saved state of its language, then opens the Run Code form.
+   */
+  const onRestoreEntry = useCallback(async (entry: HistoryEntry) => {
+    await openInRunCode(entry);
+  }, []);
+
+  /**
+   * Runs a past execution again with the same code and inputs, recording it as a new history entry.
+   * @returns The new entry, or null if the run could not be started.
+   */
+  const onRerunEntry = useCallback(
+    async (entry: HistoryEntry): Promise<HistoryEntry | null> => {
+      const toast = await showToast({ style: Toast.Style.Animated, title: "Re-running code..." });
+
+      try {
+        const cachedLanguages = await LocalStorage.getItem<string>(LANGUAGES_STORAGE_KEY);
+        const detected: DetectedLanguage[] = cachedLanguages ? JSON.parse(cachedLanguages) : [];
+        const detectedLanguage = detected.find((lang) => lang.value === entry.language);
+        if (!detectedLanguage) {
+          toast.style = Toast.Style.Failure;
+          toast.title = `${entry.languageName} is not available!`;
+          toast.message = "Open Run Code and detect languages first.";
+          return null;
+        }
+
+        const startedAt = Date.now();
+        // Use the same installation as the original run while it is still detected
+        const runLanguage = withInterpreter(detectedLanguage, entry.interpreterPath ?? null);
+        // Older entries without recorded limits or sandboxing run with the current preferences
+        const sandboxed = entry.sandboxed ?? isSandboxEnabled();
+        const result = await runCode(runLanguage, entry.code, {
+          stdin: entry.stdin,
+          args: parseArguments(entry.args),
+          env: parseEnvironment(entry.env),
+          limits: entry.limits,
+          sandboxed,
+          wrapSnippet: entry.wrapSnippet,
+        });
+        const newEntry: HistoryEntry = (await recordRunSafely({
+          language: entry.language,
+          languageName: entry.languageName,
+          code: entry.code,
+          stdin: entry.stdin,
+          args: entry.args,
+          env: entry.env,
+          interpreterPath: runLanguage.executablePath,
+          limits: entry.limits,
+          sandboxed,
+          wrapSnippet: entry.wrapSnippet,
+          result,
+          timestamp: startedAt,
+          durationMs: Date.now() - startedAt,
+        })) ?? { ...entry, id: "", result, timestamp: startedAt, durationMs: Date.now() - startedAt };
+        await refreshEntries();
+
+        toast.style = result.error ? Toast.Style.Failure : Toast.Style.Success;
+        toast.title = result.error ? "Code execution failed!" : "Code executed successfully!";
+        toast.message = formatExecutionSummary(result);
+        return newEntry;
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        toast.style = Toast.Style.Failure;
+        toast.title = "Failed to re-run code!";
+        toast.message = errorMessage || "An unknown error occurred.";
+        return null;
+      }
+    },
+    [refreshEntries],
+  );
+
+  return {
+    entries,
+    isLoading,
+    diffBaseId,
+    onDeleteEntry,
+    onClearHistory,
+    onRestoreEntry,
+    onRerunEntry,
+    onMarkForDiff: setDiffBaseId,
+  };
+}
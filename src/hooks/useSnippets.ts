@@ -0,0 +1,129 @@
+// hooks/useSnippets.ts
+import { useState, useEffect, useCallback } from "react";
+import { showToast, Toast, showInFinder } from "@raycast/api";
+import { openInRunCode } from "../utils/launcher";
+import {
+  Snippet,
+  SnippetDetails,
+  deleteSnippet,
+  duplicateSnippet,
+  exportSnippets,
+  importSnippets,
+  loadSnippets,
+  updateSnippet,
+} from "../utils/snippets";
+
+interface UseSnippetsReturn {
+  snippets: Snippet[];
+  isLoading: boolean;
+  onOpenSnippet: (snippet: Snippet) => Promise<void>;
+  onUpdateSnippet: (id: string, details: SnippetDetails) => Promise<void>;
+  onDuplicateSnippet: (snippet: Snippet) => Promise<void>;
+  onDeleteSnippet: (id: string) => Promise<void>;
+  onExportSnippets: (directory: string) => Promise<void>;
+  onImportSnippets: (filePath: string) => Promise<void>;
+}
+
+export function useSnippets(): UseSnippetsReturn {
+  const [snippets, setSnippets] = useState<Snippet[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+
+  const refreshSnippets = useCallback(async () => {
+    setSnippets(await loadSnippets());
+  }, []);
+
+  // Effect to load the library when the command opens
+  useEffect(() => {
+    refreshSnippets().finally(() => setIsLoading(false));
+  }, [refreshSnippets]);
+
+  /**
+   * Opens a snippet's code in the Run Code form.
+   */
+  const onOpenSnippet = useCallback(async (snippet: Snippet) => {
+    await openInRunCode({ language: snippet.language, code: snippet.code });
+  }, []);
+
+  /**
+   * Renames a snippet or changes its description and tags.
+   */
+  const onUpdateSnippet = useCallback(
+    async (id: string, details: SnippetDetails) => {
+      await updateSnippet(id, details);
+      await refreshSnippets();
+      await showToast({ style: Toast.Style.Success, title: "Snippet updated" });
+    },
+    [refreshSnippets],
+  );
+
+  /**
+   * Creates a copy of a snippet.
+   */
+  const onDuplicateSnippet = useCallback(
+    async (snippet: Snippet) => {
+      const copy = await duplicateSnippet(snippet);
+      await refreshSnippets();
+      await showToast({ style: Toast.Style.Success, title: "Snippet duplicated", message: copy.name });
+    },
+    [refreshSnippets],
+  );
+
+  /**
+   * Deletes a snippet from the library.
+   */
+  const onDeleteSnippet = useCallback(
+    async (id: string) => {
+      await deleteSnippet(id);
+      await refreshSnippets();
+      await showToast({ style: Toast.Style.Success, title: "Snippet deleted" });
+    },
+    [refreshSnippets],
+  );
+
+  /**
+   * Exports the library to a JSON file in the chosen directory and reveals it in Finder.
+   */
+  const onExportSnippets = useCallback(async (directory: string) => {
+    try {
+      const filePath = await exportSnippets(directory);
+      await showToast({ style: Toast.Style.Success, title: "Snippets exported", message: filePath });
+      await showInFinder(filePath);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      await showToast({ style: Toast.Style.Failure, title: "Failed to export snippets!", message: errorMessage });
+    }
+  }, []);
+
+  /**
+   * Imports the snippets of a previously exported library file.
+   */
+  const onImportSnippets = useCallback(
+    async (filePath: string) => {
+      try {
+        const { imported, skipped } = await importSnippets(filePath);
+        await refreshSnippets();
+        await showToast({
+          style: skipped > 0 ? Toast.Style.Failure : Toast.Style.Success,
+          title: `Imported ${imported} ${imported === 1 ? "snippet" : "snippets"}`,
+          message:
+            skipped > 0 ? `${skipped} invalid ${skipped === 1 ? "entry was" : "entries were"} skipped.` : undefined,
+        });
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        await showToast({ style: Toast.Style.Failure, title: "Failed to import snippets!", message: errorMessage });
+      }
+    },
+    [refreshSnippets],
+  );
+
+  return {
+    snippets,
+    isLoading,
+    onOpenSnippet,
+    onUpdateSnippet,
+    onDuplicateSnippet,
+    onDeleteSnippet,
+    onExportSnippets,
+    onImportSnippets,
+  };
+}
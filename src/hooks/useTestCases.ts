@@ -0,0 +1,137 @@
+// hooks/useTestCases.ts
+import { useState, useEffect, useCallback } from "react";
+import { showToast, Toast } from "@raycast/api";
+import {
+  TestCase,
+  TestCaseDetails,
+  TestCaseResult,
+  addTestCase,
+  deleteTestCase,
+  loadTestCases,
+  updateTestCase,
+} from "../utils/testCases";
+
+interface UseTestCasesReturn {
+  testCases: TestCase[];
+  results: Record<string, TestCaseResult>; // Latest result of each test case, by test case id
+  runningTestCaseId: string | null; // The test case being run, if any
+  isLoading: boolean;
+  onAddTestCase: (details: TestCaseDetails) => Promise<void>;
+  onUpdateTestCase: (id: string, details: TestCaseDetails) => Promise<void>;
+  onDeleteTestCase: (id: string) => Promise<void>;
+  onRunTestCases: (testCases: TestCase[]) => Promise<void>;
+}
+
+/**
+ * Manages the test cases saved for a language and runs the current code against them.
+ * @param language The language value whose test cases are shown.
+ * @param runTestCase Runs the current code against one test case.
+ */
+export function useTestCases(
+  language: string,
+  runTestCase: (testCase: TestCase) => Promise<TestCaseResult>,
+): UseTestCasesReturn {
+  const [testCases, setTestCases] = useState<TestCase[]>([]);
+  const [results, setResults] = useState<Record<string, TestCaseResult>>({});
+  const [runningTestCaseId, setRunningTestCaseId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+
+  const refreshTestCases = useCallback(async () => {
+    setTestCases(await loadTestCases(language));
+  }, [language]);
+
+  // Effect to load the language's test cases when the view opens
+  useEffect(() => {
+    refreshTestCases().finally(() => setIsLoading(false));
+  }, [refreshTestCases]);
+
+  /**
+   * Adds a test case for the language.
+   */
+  const onAddTestCase = useCallback(
+    async (details: TestCaseDetails) => {
+      await addTestCase(language, details);
+      await refreshTestCases();
+      await showToast({ style: Toast.Style.Success, title: "Test case added", message: details.name });
+    },
+    [language, refreshTestCases],
+  );
+
+  /**
+   * Updates a test case. Its previous result no longer applies, so it is cleared.
+   */
+  const onUpdateTestCase = useCallback(
+    async (id: string, details: TestCaseDetails) => {
+      await updateTestCase(language, id, details);
+      setResults((previous) => {
+        const remaining = { ...previous };
+        delete remaining[id];
+        return remaining;
+      });
+      await refreshTestCases();
+      await showToast({ style: Toast.Style.Success, title: "Test case updated" });
+    },
+    [language, refreshTestCases],
+  );
+
+  /**
+   * Deletes a test case.
+   */
+  const onDeleteTestCase = useCallback(
+    async (id: string) => {
+      await deleteTestCase(language, id);
+      await refreshTestCases();
+      await showToast({ style: Toast.Style.Success, title: "Test case deleted" });
+    },
+    [language, refreshTestCases],
+  );
+
+  /**
+   * Runs the code against the given test cases one after another, showing each result as soon as it is available.
+   */
+  const onRunTestCases = useCallback(
+    async (testCasesToRun: TestCase[]) => {
+      if (testCasesToRun.length === 0) {
+        return;
+      }
+      const toast = await showToast({ style: Toast.Style.Animated, title: "Running tests..." });
+
+      let passedCount = 0;
+      try {
+        for (const [index, testCase] of testCasesToRun.entries()) {
+          toast.message = `${index + 1} of ${testCasesToRun.length}: ${testCase.name}`;
+          setRunningTestCaseId(testCase.id);
+          const testResult = await runTestCase(testCase);
+          setResults((previous) => ({ ...previous, [testCase.id]: testResult }));
+          if (testResult.passed) {
+            passedCount++;
+          }
+        }
+
+        const allPassed = passedCount === testCasesToRun.length;
+        toast.style = allPassed ? Toast.Style.Success : Toast.Style.Failure;
+        toast.title = allPassed ? "All tests passed!" : "Some tests failed!";
+        toast.message = `${passedCount} of ${testCasesToRun.length} passed`;
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        toast.style = Toast.Style.Failure;
+        toast.title = "Failed to run tests!";
+        toast.message = errorMessage || "An unknown error occurred.";
+      } finally {
+        setRunningTestCaseId(null);
+      }
+    },
+    [runTestCase],
+  );
+
+  return {
+    testCases,
+    results,
+    runningTestCaseId,
+    isLoading,
+    onAddTestCase,
+    onUpdateTestCase,
+    onDeleteTestCase,
+    onRunTestCases,
+  };
+}
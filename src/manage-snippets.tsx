@@ -0,0 +1,32 @@
+// commands/manage-snippets.tsx
+import { useSnippets } from "./hooks/useSnippets";
+import { SnippetList } from "./components/SnippetList";
+
+/**
+ * Raycast command for browsing and managing the named snippet library.
+ */
+export default function Command() {
+  const {
+    snippets,
+    isLoading,
+    onOpenSnippet,
+    onUpdateSnippet,
+    onDuplicateSnippet,
+    onDeleteSnippet,
+    onExportSnippets,
+    onImportSnippets,
+  } = useSnippets();
+
+  return (
+    <SnippetList
+      snippets={snippets}
+      isLoading={isLoading}
+      onOpenSnippet={onOpenSnippet}
+      onUpdateSnippet={onUpdateSnippet}
+      onDuplicateSnippet={onDuplicateSnippet}
+      onDeleteSnippet={onDeleteSnippet}
+      onExportSnippets={onExportSnippets}
+      onImportSnippets={onImportSnippets}
+    />
+  );
+}
@@ -1,25 +1,65 @@
 // commands/run-code.tsx
-import { Form, ActionPanel, Action } from "@raycast/api";
+import { Form, ActionPanel, Action, Icon, LaunchProps, LaunchType, launchCommand } from "@raycast/api";
+import { useMemo } from "react";
 import { useCodeRunner } from "./hooks/useCodeRunner"; // Import the custom hook
 import { CodeRunnerForm } from "./components/CodeRunnerForm"; // Import the presentational component
+import { RunCodeArguments, parseLaunchRequest } from "./utils/launcher";
 
 /**
  * Main Raycast command component for the Code Runner.
- * Encapsulates the use of the custom hook and renders the form.
+ * Encapsulates the use of the custom hook and renders the form. Code and inputs can be passed as arguments, as
+ * launch context from other extensions, or through a deeplink.
  */
-export default function Command() {
+export default function Command(props: LaunchProps<{ arguments: RunCodeArguments }>) {
+  // Only read on the first render; the form owns the values from then on
+  const launchRequest = useMemo(() => parseLaunchRequest(props.arguments, props.launchContext), []);
   const {
     code,
+    stdin,
+    args,
+    env,
+    limitOverrides,
     language,
+    interpreterPath,
+    isSessionMode,
+    isSnippetMode,
+    template,
+    activeSession,
+    formatter,
+    formatError,
     result,
+    resultSource,
+    cellResults,
+    selectedCellIndex,
     availableLanguages,
+    customRunnerErrors,
     isInitializing,
     isExecutingCode,
     onCodeChange,
+    onStdinChange,
+    onArgsChange,
+    onEnvChange,
+    onLimitOverridesChange,
     onLanguageChange,
+    onInterpreterChange,
+    onSessionModeChange,
+    onResetSession,
+    onSnippetModeChange,
+    onSaveTemplate,
+    onResetTemplate,
+    onApplyTemplate,
+    onFormatCode,
     onRunCode,
+    onRunCells,
+    onSelectedCellChange,
+    onStopExecution,
+    onSaveSnippet,
+    onSaveAsFile,
+    onExportProject,
+    onRunTestCase,
+    onRunBenchmark,
     performLanguageDetection, // Exposed for retry action
-  } = useCodeRunner();
+  } = useCodeRunner(launchRequest);
 
   // 1. Show a general loading screen if isInitializing is true
   if (isInitializing) {
@@ -33,16 +73,28 @@ export default function Command() {
   // 2. If isInitializing is false, but no languages were detected at all
   if (availableLanguages.length === 0) {
     return (
-      <Form isLoading={false}>
+      <Form
+        isLoading={false}
+        actions={
+          <ActionPanel>
+            <Action title="Retry Language Detection" onAction={() => performLanguageDetection(true)} />
+            <Action
+              title="Diagnose Environment"
+              icon={Icon.Heartbeat}
+              onAction={() => launchCommand({ name: "diagnose-environment", type: LaunchType.UserInitiated })}
+            />
+          </ActionPanel>
+        }
+      >
         {" "}
         {/* isInitializing is false here */}
         <Form.Description
           title="No Supported Languages Found"
-          text="Please ensure Node.js, Python3, or Go are installed and in your system's PATH."
+          text="Please ensure a supported language (e.g., Node.js, Python3, Go, Rust, Java) is installed and in your system's PATH. Run Diagnose Environment to see the PATH your login shell resolves and why each language was not found."
         />
-        <ActionPanel>
-          <Action title="Retry Language Detection" onAction={() => performLanguageDetection(true)} />
-        </ActionPanel>
+        {customRunnerErrors.length > 0 && (
+          <Form.Description title="Custom Runner Errors" text={customRunnerErrors.join("\n")} />
+        )}
       </Form>
     );
   }
@@ -51,13 +103,48 @@ export default function Command() {
   return (
     <CodeRunnerForm
       code={code}
+      stdin={stdin}
+      args={args}
+      env={env}
+      limitOverrides={limitOverrides}
       language={language}
+      interpreterPath={interpreterPath}
+      isSessionMode={isSessionMode}
+      isSnippetMode={isSnippetMode}
+      template={template}
+      activeSession={activeSession}
+      formatter={formatter}
+      formatError={formatError}
       result={result}
+      resultSource={resultSource}
+      cellResults={cellResults}
+      selectedCellIndex={selectedCellIndex}
       availableLanguages={availableLanguages}
+      customRunnerErrors={customRunnerErrors}
       isExecutingCode={isExecutingCode}
       onCodeChange={onCodeChange}
+      onStdinChange={onStdinChange}
+      onArgsChange={onArgsChange}
+      onEnvChange={onEnvChange}
+      onLimitOverridesChange={onLimitOverridesChange}
       onLanguageChange={onLanguageChange}
+      onInterpreterChange={onInterpreterChange}
+      onSessionModeChange={onSessionModeChange}
+      onResetSession={onResetSession}
+      onSnippetModeChange={onSnippetModeChange}
+      onSaveTemplate={onSaveTemplate}
+      onResetTemplate={onResetTemplate}
+      onApplyTemplate={onApplyTemplate}
+      onFormatCode={onFormatCode}
       onRunCode={onRunCode}
+      onRunCells={onRunCells}
+      onSelectedCellChange={onSelectedCellChange}
+      onStopExecution={onStopExecution}
+      onSaveSnippet={onSaveSnippet}
+      onSaveAsFile={onSaveAsFile}
+      onExportProject={onExportProject}
+      onRunTestCase={onRunTestCase}
+      onRunBenchmark={onRunBenchmark}
       onClearCode={() => onCodeChange("")} // Simple clear code action
     />
   );
@@ -0,0 +1,25 @@
+// commands/run-history.tsx
+import { useRunHistory } from "./hooks/useRunHistory";
+import { RunHistoryList } from "./components/RunHistoryList";
+
+/**
+ * Raycast command listing past executions.
+ * Runs can be searched, inspected, restored into Run Code, re-run and compared.
+ */
+export default function Command() {
+  const { entries, isLoading, diffBaseId, onDeleteEntry, onClearHistory, onRestoreEntry, onRerunEntry, onMarkForDiff } =
+    useRunHistory();
+
+  return (
+    <RunHistoryList
+      entries={entries}
+      isLoading={isLoading}
+      diffBaseId={diffBaseId}
+      onDeleteEntry={onDeleteEntry}
+      onClearHistory={onClearHistory}
+      onRestoreEntry={onRestoreEntry}
+      onRerunEntry={onRerunEntry}
+      onMarkForDiff={onMarkForDiff}
+    />
+  );
+}
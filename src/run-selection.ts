@@ -0,0 +1,10 @@
+// commands/run-selection.ts
+import { runSelection } from "./utils/selectionRunner";
+
+/**
+ * Raycast command that runs the selected text, or the clipboard when nothing is selected, without opening a window.
+ * The result is reported in a toast or a HUD; the toast offers Stop Execution while the code runs.
+ */
+export default async function Command() {
+  await runSelection();
+}
@@ -0,0 +1,85 @@
+// utils/artifactCache.ts
+import { environment } from "@raycast/api";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+
+// The least recently used builds beyond this many are deleted
+const MAX_CACHED_ARTIFACTS = 50;
+
+/**
+ * Gets the directory where compiled artifacts are cached.
+ */
+function getArtifactCacheRoot(): string {
+  return path.join(environment.supportPath, "artifact-cache");
+}
+
+/**
+ * Computes the cache key of a build from everything that affects its output.
+ * @param parts The inputs of the build, e.g. the code, the compile command and the toolchain version.
+ * @returns A hex SHA-256 digest.
+ */
+export function computeArtifactKey(parts: string[]): string {
+  const hash = crypto.createHash("sha256");
+  // Length prefixes keep different splits of the same text from producing the same key
+  parts.forEach((part) => hash.update(`${part.length}:${part}`));
+  return hash.digest("hex");
+}
+
+/**
+ * Copies a cached build to where the run step expects it.
+ * @param key The cache key of the build.
+ * @param destination The path the compile step would have written.
+ * @returns True if the build was cached and restored.
+ */
+export function restoreArtifact(key: string, destination: string): boolean {
+  const cachedPath = path.join(getArtifactCacheRoot(), key);
+  try {
+    if (!fs.existsSync(cachedPath)) {
+      return false;
+    }
+    fs.copyFileSync(cachedPath, destination);
+    fs.chmodSync(destination, fs.statSync(cachedPath).mode);
+    // Mark the entry as recently used, so pruning keeps it
+    const now = new Date();
+    fs.utimesSync(cachedPath, now, now);
+    return true;
+  } catch (restoreError: unknown) {
+    console.error("[Artifact Cache Error]", restoreError);
+    return false;
+  }
+}
+
+/**
+ * Caches a successful build, then prunes the least recently used builds.
+ * @param key The cache key of the build.
+ * @param source The file written by the compile step; nothing is cached if it does not exist.
+ */
+export function storeArtifact(key: string, source: string): void {
+  try {
+    if (!fs.existsSync(source) || !fs.statSync(source).isFile()) {
+      return;
+    }
+    const root = getArtifactCacheRoot();
+    fs.mkdirSync(root, { recursive: true });
+    // Written under a temporary name first, so a concurrent run never restores a partially copied build
+    const partialPath = path.join(root, `${key}.${process.pid}.partial`);
+    fs.copyFileSync(source, partialPath);
+    fs.chmodSync(partialPath, fs.statSync(source).mode);
+    fs.renameSync(partialPath, path.join(root, key));
+    pruneArtifacts(root);
+  } catch (storeError: unknown) {
+    console.error("[Artifact Cache Error]", storeError);
+  }
+}
+
+/**
+ * Deletes the least recently used builds beyond the cache size.
+ */
+function pruneArtifacts(root: string): void {
+  fs.readdirSync(root)
+    .map((name) => ({ name, usedAt: fs.statSync(path.join(root, name)).mtimeMs }))
+    .sort((a, b) => b.usedAt - a.usedAt)
+    .slice(MAX_CACHED_ARTIFACTS)
+    .forEach(({ name }) => fs.rmSync(path.join(root, name), { force: true }));
+}
@@ -0,0 +1,55 @@
+// utils/benchmark.test.ts
+import { describe, expect, it } from "vitest";
+import { computeBenchmarkStats, formatChange, parseBenchmarkSettings } from "./benchmark";
+
+describe("computeBenchmarkStats", () => {
+  it("computes the statistics of an odd number of runs, in any order", () => {
+    const stats = computeBenchmarkStats([5, 1, 4, 2, 3]);
+    expect(stats).toMatchObject({ minMs: 1, medianMs: 3, meanMs: 3, p95Ms: 5 });
+    // Sample standard deviation: the squared deviations (10) divided by n - 1
+    expect(stats.stddevMs).toBeCloseTo(Math.sqrt(10 / 4));
+  });
+
+  it("averages the two middle runs for the median of an even number of runs", () => {
+    const stats = computeBenchmarkStats([40, 10, 30, 20]);
+    expect(stats).toMatchObject({ minMs: 10, medianMs: 25, meanMs: 25, p95Ms: 40 });
+    expect(stats.stddevMs).toBeCloseTo(Math.sqrt(500 / 3));
+  });
+
+  it("takes the 95th percentile by nearest rank", () => {
+    const durationsMs = Array.from({ length: 20 }, (_, index) => index + 1);
+    expect(computeBenchmarkStats(durationsMs).p95Ms).toBe(19);
+    expect(computeBenchmarkStats([...durationsMs, 100]).p95Ms).toBe(20);
+  });
+
+  it("reports no deviation for a single run", () => {
+    expect(computeBenchmarkStats([7])).toEqual({ minMs: 7, medianMs: 7, meanMs: 7, p95Ms: 7, stddevMs: 0 });
+  });
+
+  it("does not reorder the durations it is given", () => {
+    const durationsMs = [3, 1, 2];
+    computeBenchmarkStats(durationsMs);
+    expect(durationsMs).toEqual([3, 1, 2]);
+  });
+});
+
+describe("parseBenchmarkSettings", () => {
+  it("parses the iterations and treats empty warm-up runs as none", () => {
+    expect(parseBenchmarkSettings({ iterations: " 25 ", warmupRuns: "" })).toEqual({ iterations: 25, warmupRuns: 0 });
+  });
+
+  it("rejects iterations and warm-up runs out of range", () => {
+    expect(() => parseBenchmarkSettings({ iterations: "0", warmupRuns: "1" })).toThrow("Iterations");
+    expect(() => parseBenchmarkSettings({ iterations: "2.5", warmupRuns: "1" })).toThrow("Iterations");
+    expect(() => parseBenchmarkSettings({ iterations: "10", warmupRuns: "-1" })).toThrow("Warm-up runs");
+  });
+});
+
+describe("formatChange", () => {
+  it("formats the signed change against the baseline", () => {
+    expect(formatChange(112.5, 100)).toBe("+12.5%");
+    expect(formatChange(80, 100)).toBe("-20.0%");
+    expect(formatChange(100, 100)).toBe("+0.0%");
+    expect(formatChange(5, 0)).toBe("");
+  });
+});
@@ -0,0 +1,127 @@
+// utils/benchmark.ts
+import { LocalStorage } from "@raycast/api";
+
+/**
+ * How many times a benchmark runs the program.
+ */
+export interface BenchmarkSettings {
+  iterations: number; // Measured runs
+  warmupRuns: number; // Runs before the measured ones, whose times are discarded
+}
+
+/**
+ * Wall-time statistics of the measured runs, in milliseconds.
+ */
+export interface BenchmarkStats {
+  minMs: number;
+  medianMs: number;
+  meanMs: number;
+  p95Ms: number;
+  stddevMs: number;
+}
+
+/**
+ * A finished benchmark of a snippet.
+ */
+export interface BenchmarkResult {
+  language: string; // Language value (e.g., 'go')
+  code: string;
+  settings: BenchmarkSettings;
+  durationsMs: number[]; // Wall time of each measured run, minus the start-up overhead
+  stats: BenchmarkStats;
+  compileDurationMs: number | null; // The single compile step, for compiled languages
+  startupOverheadMs?: number; // Start-up time of the login shell subtracted from each run; missing in older results
+  timestamp: number; // When the benchmark started, in milliseconds since the epoch
+}
+
+export const DEFAULT_BENCHMARK_SETTINGS: BenchmarkSettings = { iterations: 10, warmupRuns: 1 };
+
+const MAX_ITERATIONS = 1000;
+
+/**
+ * Parses the benchmark settings typed in the form.
+ * @param values The raw iterations and warm-up runs.
+ * @returns The settings.
+ * @throws {Error} If iterations is not a whole number from 1 to 1000, or warm-up runs is negative or not whole.
+ */
+export function parseBenchmarkSettings(values: { iterations: string; warmupRuns: string }): BenchmarkSettings {
+  const iterations = Number(values.iterations.trim());
+  if (!Number.isInteger(iterations) || iterations < 1 || iterations > MAX_ITERATIONS) {
+    throw new Error(`Iterations must be a whole number from 1 to ${MAX_ITERATIONS}.`);
+  }
+  const warmupRuns = values.warmupRuns.trim() ? Number(values.warmupRuns.trim()) : 0;
+  if (!Number.isInteger(warmupRuns) || warmupRuns < 0 || warmupRuns > MAX_ITERATIONS) {
+    throw new Error(`Warm-up runs must be a whole number from 0 to ${MAX_ITERATIONS}.`);
+  }
+  return { iterations, warmupRuns };
+}
+
+/**
+ * Computes the statistics of a set of run times.
+ * @param durationsMs The wall time of each measured run; must not be empty.
+ * @returns The minimum, median, mean, 95th percentile (nearest rank) and sample standard deviation.
+ */
+export function computeBenchmarkStats(durationsMs: number[]): BenchmarkStats {
+  const sorted = [...durationsMs].sort((a, b) => a - b);
+  const count = sorted.length;
+  const meanMs = sorted.reduce((total, duration) => total + duration, 0) / count;
+  const middle = Math.floor(count / 2);
+  const variance =
+    count > 1 ? sorted.reduce((total, duration) => total + (duration - meanMs) ** 2, 0) / (count - 1) : 0;
+
+  return {
+    minMs: sorted[0],
+    medianMs: count % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle],
+    meanMs,
+    p95Ms: sorted[Math.min(count - 1, Math.ceil(0.95 * count) - 1)],
+    stddevMs: Math.sqrt(variance),
+  };
+}
+
+/**
+ * Formats the relative change of a statistic against the baseline (e.g., '+12.5%').
+ * @param valueMs The new value.
+ * @param baselineMs The baseline value.
+ * @returns The signed percentage, or an empty string if the baseline is zero.
+ */
+export function formatChange(valueMs: number, baselineMs: number): string {
+  if (baselineMs === 0) {
+    return "";
+  }
+  const change = ((valueMs - baselineMs) / baselineMs) * 100;
+  return `${change >= 0 ? "+" : ""}${change.toFixed(1)}%`;
+}
+
+/**
+ * Loads the benchmark pinned as the baseline for a language.
+ * @param language The language value.
+ * @returns The baseline, or null if none is pinned.
+ */
+export async function loadBenchmarkBaseline(language: string): Promise<BenchmarkResult | null> {
+  const storedBaseline = await LocalStorage.getItem<string>(`benchmark_baseline_${language}`);
+  if (!storedBaseline) {
+    return null;
+  }
+  try {
+    return JSON.parse(storedBaseline) as BenchmarkResult;
+  } catch (parseError: unknown) {
+    console.error("[LocalStorage Parse Error]", parseError);
+    return null;
+  }
+}
+
+/**
+ * Pins a benchmark as the baseline that later benchmarks of the same language are compared against.
+ * @param result The benchmark to pin.
+ */
+export async function saveBenchmarkBaseline(result: BenchmarkResult): Promise<void> {
+  await LocalStorage.setItem(`benchmark_baseline_${result.language}`, JSON.stringify(result));
+}
+
+/**
+ * Removes the baseline of a language.
+ * @param language The language value.
+ */
+export async function clearBenchmarkBaseline(language: string): Promise<void> {
+  await LocalStorage.removeItem(`benchmark_baseline_${language}`);
+}
@@ -0,0 +1,65 @@
+// utils/cells.test.ts
+import { describe, expect, it } from "vitest";
+import { formatCellRange, selectCells, splitCells } from "./cells";
+
+describe("splitCells", () => {
+  it("splits Python code at `# %%` markers, keeping their titles and start lines", () => {
+    const code = ["import math", "# %% Load data", "x = 1", "", "#%%", "print(x)"].join("\n");
+    expect(splitCells(code, "python")).toEqual([
+      { index: 0, title: "Cell 1", code: "import math", startLine: 1 },
+      { index: 1, title: "Load data", code: "x = 1\n", startLine: 3 },
+      { index: 2, title: "Cell 3", code: "print(x)", startLine: 6 },
+    ]);
+  });
+
+  it("uses the language's comment syntax for markers", () => {
+    const code = ["// %% First", "const a = 1;", "  // %%Second", "# %% not a marker", "console.log(a);"].join("\n");
+    expect(splitCells(code, "javascript")).toEqual([
+      { index: 0, title: "First", code: "const a = 1;", startLine: 2 },
+      { index: 1, title: "Second", code: "# %% not a marker\nconsole.log(a);", startLine: 4 },
+    ]);
+    expect(splitCells("# %% A\nx = 1\n// %% B\ny = 2", "python").map((cell) => cell.title)).toEqual(["A"]);
+  });
+
+  it("drops blank code before the first marker but keeps empty cells after it", () => {
+    const cells = splitCells("\n  \n# %% One\n# %% Two\nprint(2)", "python");
+    expect(cells.map(({ title, code }) => ({ title, code }))).toEqual([
+      { title: "One", code: "" },
+      { title: "Two", code: "print(2)" },
+    ]);
+  });
+
+  it("treats a snippet without markers as a single cell", () => {
+    expect(splitCells("print(1)\nprint(2)", "python")).toEqual([
+      { index: 0, title: "Cell 1", code: "print(1)\nprint(2)", startLine: 1 },
+    ]);
+  });
+
+  it("accepts any common comment prefix for languages it does not know", () => {
+    const code = "-- %% a\nselect 1;\n# %% b\necho 2\n// %% c\nprint 3";
+    expect(splitCells(code, "custom-runner").map((cell) => cell.title)).toEqual(["a", "b", "c"]);
+  });
+});
+
+describe("selectCells", () => {
+  const cells = splitCells("# %% A\n1\n# %% B\n2\n# %% C\n3", "python");
+
+  it("picks the selected cell, the cells up to it, or all cells", () => {
+    expect(selectCells(cells, "cell", 1).map((cell) => cell.title)).toEqual(["B"]);
+    expect(selectCells(cells, "upTo", 1).map((cell) => cell.title)).toEqual(["A", "B"]);
+    expect(selectCells(cells, "all", 1).map((cell) => cell.title)).toEqual(["A", "B", "C"]);
+  });
+
+  it("clamps a selection past the last cell", () => {
+    expect(selectCells(cells, "cell", 7).map((cell) => cell.title)).toEqual(["C"]);
+  });
+});
+
+describe("formatCellRange", () => {
+  const cells = splitCells("# %% A\n1\n# %% B\n2\n# %% C\n3", "python");
+
+  it("names a single cell by its title and several cells by their numbers", () => {
+    expect(formatCellRange(cells.slice(1, 2))).toBe("B");
+    expect(formatCellRange(cells)).toBe("Cells 1–3");
+  });
+});
@@ -0,0 +1,122 @@
+// utils/cells.ts
+import { CodeExecutionResult } from "./codeRunner";
+import { getLanguageDefinition } from "./languages";
+
+/**
+ * A notebook-style cell: the code between two cell markers (e.g., `# %% Load data`).
+ */
+export interface CodeCell {
+  index: number; // 0-based position in the snippet
+  title: string; // Text after the marker, or 'Cell N'
+  code: string; // The cell's code, without its marker line
+  startLine: number; // 1-based line of the snippet where the cell's code starts
+}
+
+/**
+ * The output of running one cell, or of several cells run together as one program.
+ */
+export interface CellResult {
+  cellIndexes: number[];
+  title: string;
+  result: CodeExecutionResult;
+}
+
+/**
+ * Which cells a cell run covers, relative to the selected cell.
+ */
+export type CellRunMode = "cell" | "upTo" | "all";
+
+// Comment prefixes accepted for languages that do not declare one, such as custom runners
+const FALLBACK_LINE_COMMENTS = ["#", "//", "--"];
+
+/**
+ * Builds the pattern of a language's cell marker lines, capturing the optional title after `%%`.
+ */
+function buildMarkerPattern(language: string): RegExp {
+  const lineComment = getLanguageDefinition(language)?.lineComment;
+  const prefixes = (lineComment ? [lineComment] : FALLBACK_LINE_COMMENTS).map((prefix) =>
+    prefix.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&"),
+  );
+  return new RegExp(`^\\s*(?:${prefixes.join("|")})\\s*%%(.*)$`);
+}
+
+/**
+ * Splits a snippet into cells at its marker comments (`# %%` for Python, `// %%` for JavaScript, Go and other
+ * C-style languages). Code before the first marker forms a cell of its own unless it is blank.
+ * @param code The snippet.
+ * @param language The language value, which decides the comment syntax of markers.
+ * @returns The cells, in order; a snippet without markers is a single cell.
+ */
+export function splitCells(code: string, language: string): CodeCell[] {
+  const markerPattern = buildMarkerPattern(language);
+  const cells: CodeCell[] = [];
+  let current: { title: string | null; lines: string[]; startLine: number } = { title: null, lines: [], startLine: 1 };
+
+  const pushCurrent = (isLeadingCode: boolean) => {
+    if (isLeadingCode && !current.lines.join("\n").trim()) {
+      return;
+    }
+    cells.push({
+      index: cells.length,
+      title: current.title || `Cell ${cells.length + 1}`,
+      code: current.lines.join("\n"),
+      startLine: current.startLine,
+    });
+  };
+
+  code.split("\n").forEach((line, lineIndex) => {
+    const marker = line.match(markerPattern);
+    if (!marker) {
+      current.lines.push(line);
+      return;
+    }
+    pushCurrent(cells.length === 0 && current.title === null);
+    current = { title: marker[1].trim(), lines: [], startLine: lineIndex + 2 };
+  });
+  pushCurrent(cells.length === 0 && current.title === null);
+  return cells;
+}
+
+/**
+ * Picks the cells a run covers.
+ * @param cells Every cell of the snippet.
+ * @param mode Only the selected cell, every cell up to and including it, or all cells.
+ * @param selectedIndex The selected cell; clamped to the last cell.
+ * @returns The cells to run, in order.
+ */
+export function selectCells(cells: CodeCell[], mode: CellRunMode, selectedIndex: number): CodeCell[] {
+  const index = Math.min(Math.max(selectedIndex, 0), cells.length - 1);
+  if (mode === "cell") {
+    return cells.slice(index, index + 1);
+  }
+  return mode === "upTo" ? cells.slice(0, index + 1) : cells;
+}
+
+/**
+ * Describes a range of cells run together (e.g., 'Cells 1–3').
+ * @param cells The cells, in order.
+ * @returns The title of the single cell, or the range of cell numbers.
+ */
+export function formatCellRange(cells: CodeCell[]): string {
+  if (cells.length === 1) {
+    return cells[0].title;
+  }
+  return `Cells ${cells[0].index + 1}–${cells[cells.length - 1].index + 1}`;
+}
+
+/**
+ * Combines the results of a cell run into one result, for the run history.
+ * @param cellResults The results, in run order; must not be empty.
+ * @returns The outputs joined in order, with the first error and the total run time.
+ */
+export function combineCellResults(cellResults: CellResult[]): CodeExecutionResult {
+  const failed = cellResults.find((cellResult) => cellResult.result.error);
+  const last = cellResults[cellResults.length - 1].result;
+  return {
+    ...last,
+    stdout: cellResults.map((cellResult) => cellResult.result.stdout).join(""),
+    stderr: cellResults.map((cellResult) => cellResult.result.stderr).join(""),
+    error: failed ? `${failed.title}: ${failed.result.error}` : null,
+    runDurationMs: cellResults.reduce((total, cellResult) => total + (cellResult.result.runDurationMs ?? 0), 0),
+  };
+}
@@ -1,7 +1,37 @@
-import { exec } from "child_process";
+import { ChildProcess, spawn } from "child_process";
 import * as fs from "fs";
 import * as path from "path";
-import { v4 as uuidv4 } from "uuid";
+import { computeArtifactKey, restoreArtifact, storeArtifact } from "./artifactCache";
+import { ensureDependencies, linkDependencies, parseDependencies, resolveDependencyEnvironment } from "./dependencies";
+import { remapTempFileLines } from "./diagnostics";
+import { quoteShellArgument } from "./inputParsing";
+import { LanguageCommandContext, getLanguageDefinition, loadLanguageDefinitions } from "./languages";
+import { OUTPUT_DIR_ENV, collectOutputFiles, createOutputDirectory } from "./outputFiles";
+import { readPeakMemoryKb, readTerminatingSignal, wrapWithMemoryTracking } from "./processStats";
+import { killProcessTree } from "./processTree";
+import { SandboxReport, buildSandboxSpawn, isSandboxEnabled } from "./sandbox";
+import { mapWrappedLine } from "./snippetWrapping";
+import { RunWorkspace, createRunWorkspace } from "./workspace";
+import {
+  ResourceLimitKind,
+  ResourceLimits,
+  buildLimitPrefix,
+  describeLimitExceeded,
+  classifyLimitFailure,
+  describeLimitNotApplied,
+  findUnappliedLimit,
+  resolveResourceLimits,
+} from "./resourceLimits";
+import {
+  ExecutableCandidate,
+  dedupeExecutables,
+  detectVersions,
+  expandInstallPattern,
+  findExecutables,
+} from "./toolchains";
+
+// Empty runs timed for `measureStartupOverhead`; the median is reported
+const STARTUP_OVERHEAD_RUNS = 3;
 
 /**
  * Interface for the result of code execution.
@@ -11,6 +41,79 @@ export interface CodeExecutionResult {
   stderr: string;
   error: string | null;
   command: string | null; // The command that was executed
+  limitExceeded: ResourceLimitKind | null; // The resource limit that stopped the run, if any
+  exitCode: number | null; // Exit code of the last phase that ran (compile or run); shells report a signal n as 128 + n
+  signal: NodeJS.Signals | null; // Signal that terminated the last phase, if any
+  compileDurationMs: number | null; // Wall time of the compile step; null for interpreted languages
+  runDurationMs: number | null; // Wall time of the run step; null if it never started
+  compileCached?: boolean; // The compile step was skipped because the same build was cached
+  installDurationMs?: number; // Time spent installing declared dependencies; missing when they were already cached
+  startupOverheadMs?: number; // Median wall time of empty runs, when measured with `measureStartupOverhead`
+  peakMemoryKb: number | null; // Peak resident memory of the program, where /usr/bin/time is available
+  outputFiles?: string[]; // Images the program wrote to its output directory; missing in results of older versions
+  sandbox?: SandboxReport; // Protections that were active, for sandboxed runs
+}
+
+/**
+ * How a single phase (compile or run) of a run ended.
+ */
+interface PhaseOutcome {
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  durationMs: number;
+  spawnError?: Error;
+}
+
+/**
+ * Creates an execution result, defaulting every field that is not provided to an empty value.
+ * @param fields The fields to set.
+ * @returns The execution result.
+ */
+export function createExecutionResult(fields: Partial<CodeExecutionResult> = {}): CodeExecutionResult {
+  return {
+    stdout: "",
+    stderr: "",
+    error: null,
+    command: null,
+    limitExceeded: null,
+    exitCode: null,
+    signal: null,
+    compileDurationMs: null,
+    runDurationMs: null,
+    peakMemoryKb: null,
+    ...fields,
+  };
+}
+
+/**
+ * Optional inputs passed to the program being run.
+ */
+export interface RunCodeOptions {
+  stdin?: string; // Written to the program's standard input, which is then closed
+  args?: string[]; // Command-line arguments appended to the run step
+  env?: Record<string, string>; // Extra environment variables, merged over the inherited environment
+  limits?: Partial<ResourceLimits>; // Overrides for the resource limits set in the extension preferences
+  repetitions?: number; // Runs the program this many times after compiling once; output is kept from the last run
+  measureStartupOverhead?: boolean; // Times empty runs started like the program, before the first repetition
+  onRepetitionComplete?: (index: number, durationMs: number) => void; // Called after each successful repetition
+  sandboxed?: boolean; // Runs in the sandbox (see utils/sandbox.ts); defaults to the Sandboxed Mode preference
+  wrapSnippet?: boolean; // Wraps bare statements in the language's scaffolding (snippet mode), where supported
+}
+
+/**
+ * Receives output chunks from a running program as they are produced.
+ */
+export type CodeRunOutputListener = (stream: "stdout" | "stderr", chunk: string) => void;
+
+/**
+ * A code execution in progress. Output can be observed while the program runs, and the run can be cancelled.
+ */
+export interface CodeRun {
+  command: string | null; // The command being executed
+  result: Promise<CodeExecutionResult>; // Resolves once the program exits, is cancelled or times out
+  readonly cancelled: boolean;
+  subscribe: (listener: CodeRunOutputListener) => () => void; // Returns a function that removes the listener
+  cancel: () => void; // Kills the whole process tree, including compiled binaries
 }
 
 /**
@@ -19,180 +122,566 @@ export interface CodeExecutionResult {
 export interface DetectedLanguage {
   name: string;
   value: string;
+  command: string; // The candidate command that was found (e.g., 'tsx' for TypeScript)
   executablePath: string;
+  version?: string | null; // Version of the default executable; missing in detections cached by older versions
+  candidates?: ExecutableCandidate[]; // Every installation found, the default first
 }
 
 /**
- * Attempts to find the path of an executable command.
- * @param command The command to find (e.g., 'node', 'python3', 'go').
- * @returns A promise that resolves with the executable path or null if not found.
+ * Detects which programming languages are installed and available on the system.
+ * This function looks up every candidate executable of each supported language and custom runner on PATH, as well as
+ * in the install locations of common version managers, and reads the version of each installation found.
+ * @returns A promise that resolves with an array of detected languages.
  */
-async function findExecutable(command: string): Promise<string | null> {
-  const defaultShellPath = process.env.SHELL || "/bin/zsh";
-  const commandToExecute = `${defaultShellPath} -l -c "which ${command}"`;
+export async function detectInstalledLanguages(): Promise<DetectedLanguage[]> {
+  const { definitions } = loadLanguageDefinitions();
+  const pathExecutables = await findExecutables([...new Set(definitions.flatMap((definition) => definition.commands))]);
 
-  return new Promise<string | null>((resolve) => {
-    exec(commandToExecute, { shell: defaultShellPath }, (error, stdout, stderr) => {
-      if (error || stderr) {
-        // console.warn(`[Language Detection] Could not find ${command}: ${error?.message || stderr}`); // Keep warnings subtle
-        resolve(null);
-      } else {
-        resolve(stdout.trim());
-      }
-    });
+  const languages = definitions
+    .map((definition) => {
+      // Commands keep their registry order, so the first candidate found stays the default
+      const paths = definition.commands.flatMap((command) =>
+        (pathExecutables.get(command) ?? []).map((executablePath) => ({ command, executablePath })),
+      );
+      (definition.installPatterns ?? []).forEach((pattern) => {
+        expandInstallPattern(pattern).forEach((executablePath) => {
+          paths.push({ command: path.basename(executablePath), executablePath });
+        });
+      });
+      const uniquePaths = new Set(dedupeExecutables(paths.map(({ executablePath }) => executablePath)));
+      return {
+        definition,
+        candidates: paths.filter(({ executablePath }) => uniquePaths.delete(executablePath)),
+      };
+    })
+    .filter(({ candidates }) => candidates.length > 0);
+
+  const probes = languages.flatMap(({ definition, candidates }) =>
+    candidates.map(({ executablePath }) => ({ executablePath, versionArgs: definition.versionArgs ?? ["--version"] })),
+  );
+  const versions = await detectVersions(probes);
+
+  let probeIndex = 0;
+  const detected = languages.map(({ definition, candidates }): DetectedLanguage => {
+    const versionedCandidates = candidates.map((candidate): ExecutableCandidate => ({
+      ...candidate,
+      version: versions[probeIndex++],
+    }));
+    const [defaultCandidate] = versionedCandidates;
+    return {
+      name: definition.name,
+      value: definition.value,
+      command: defaultCandidate.command,
+      executablePath: defaultCandidate.executablePath,
+      version: defaultCandidate.version,
+      candidates: versionedCandidates,
+    };
   });
+  return detected;
 }
 
 /**
- * Detects which programming languages are installed and available on the system.
- * This function checks for common executables for each supported language.
- * @returns A promise that resolves with an array of detected languages.
+ * Returns a copy of a detected language that runs with one of its other installations.
+ * @param language The detected language.
+ * @param executablePath The path of the installation to use; unknown paths keep the default installation.
+ * @returns The language set up to run with the chosen installation.
  */
-export async function detectInstalledLanguages(): Promise<DetectedLanguage[]> {
-  const detected: DetectedLanguage[] = [];
-
-  const languageChecks = [
-    { name: "JavaScript", value: "javascript", command: "node" },
-    { name: "Python", value: "python", command: "python3" },
-    { name: "Go", value: "go", command: "go" },
-  ];
-
-  for (const lang of languageChecks) {
-    const executablePath = await findExecutable(lang.command);
-    if (executablePath) {
-      detected.push({
-        name: lang.name,
-        value: lang.value,
-        executablePath: executablePath,
-      });
-    }
+export function withInterpreter(language: DetectedLanguage, executablePath: string | null): DetectedLanguage {
+  const candidate = language.candidates?.find((entry) => entry.executablePath === executablePath);
+  return candidate ? { ...language, ...candidate } : language;
+}
+
+/**
+ * Computes the cache key of a compiled program from its code and everything about the toolchain that builds it.
+ * The modification time of the compiler catches in-place upgrades that keep its path.
+ * @param language The detected language, with the compiler to use.
+ * @param code The source code.
+ * @param env Environment variables passed to the compile step, which can change the build (e.g., CGO_ENABLED).
+ * @returns The cache key, or null if the language has no compile step.
+ */
+function computeBuildKey(language: DetectedLanguage, code: string, env: Record<string, string> = {}): string | null {
+  const definition = getLanguageDefinition(language.value);
+  if (!definition?.compile) {
+    return null;
   }
-  console.log("[Language Detection] Detected languages:", detected);
-  return detected;
+  let compilerModifiedAt = "";
+  try {
+    compilerModifiedAt = String(fs.statSync(language.executablePath).mtimeMs);
+  } catch {
+    // The compiler could not be inspected; its path and version still identify it
+  }
+  // Rendered with fixed placeholders, since the real paths differ on every run
+  const compileCommand = definition.compile({
+    command: language.command || definition.commands[0],
+    executable: language.executablePath,
+    filePath: `{file}${definition.extension}`,
+    outputPath: "{out}",
+    directory: "{dir}",
+  });
+  return computeArtifactKey([
+    language.value,
+    language.executablePath,
+    language.version ?? "",
+    compilerModifiedAt,
+    compileCommand,
+    JSON.stringify(Object.entries(env).sort()),
+    code,
+  ]);
+}
+
+/**
+ * Creates a run that ended before it could start, with the reason as its error.
+ */
+function createFailedRun(error: string): CodeRun {
+  return {
+    command: null,
+    result: Promise.resolve(createExecutionResult({ error })),
+    cancelled: false,
+    subscribe: () => () => undefined,
+    cancel: () => undefined,
+  };
 }
 
 /**
- * Runs code in a specified language using local executables.
- * This function saves the code to a temporary file, executes it using the appropriate
- * language runtime/compiler, captures its output, and then cleans up the temporary files.
+ * Starts running code in a specified language using local executables.
+ * This function saves the code to a file in a workspace of its own, spawns the language's compile step (if any)
+ * followed by its run step, streams their output to subscribers, and deletes the workspace once the program has
+ * finished. Compiled programs are cached, so running unchanged code again skips the compile step.
  *
- * @param {string} language The programming language (e.g., 'javascript', 'python', 'go').
+ * @param {DetectedLanguage} language The detected language to run the code with.
  * @param {string} code The source code to execute.
- * @returns {Promise<CodeExecutionResult>} A promise that resolves with the stdout, stderr, and any execution error.
+ * @param {RunCodeOptions} options Optional stdin, arguments and environment variables for the program.
+ * @returns {CodeRun} The run, which can be subscribed to for live output and cancelled.
  */
-export async function runCode(language: string, code: string): Promise<CodeExecutionResult> {
-  const tempDir = path.join(__dirname, "..", "..", "temp");
-  if (!fs.existsSync(tempDir)) {
-    fs.mkdirSync(tempDir, { recursive: true });
+export function startCodeRun(language: DetectedLanguage, code: string, options: RunCodeOptions = {}): CodeRun {
+  const definition = getLanguageDefinition(language.value);
+  if (!definition) {
+    return createFailedRun(`Unsupported language: ${language.value}`);
   }
 
-  const uniqueId = uuidv4();
-
-  let filePath: string;
-  let rawCommand: string;
-  const cleanupFiles: string[] = [];
-  let executableCommand: string;
-
-  switch (language.toLowerCase()) {
-    case "javascript": {
-      // Added block scope
-      filePath = path.join(tempDir, `${uniqueId}.js`);
-      rawCommand = `node ${filePath}`;
-      cleanupFiles.push(filePath);
-      executableCommand = "node";
-      break;
-    }
-    case "python": {
-      // Added block scope
-      filePath = path.join(tempDir, `${uniqueId}.py`);
-      rawCommand = `python3 ${filePath}`;
-      cleanupFiles.push(filePath);
-      executableCommand = "python3";
-      break;
+  let workspace: RunWorkspace;
+  try {
+    workspace = createRunWorkspace();
+  } catch (workspaceError: unknown) {
+    const errorMessage = workspaceError instanceof Error ? workspaceError.message : String(workspaceError);
+    return createFailedRun(`Failed to create a workspace for the run: ${errorMessage}`);
+  }
+  const tempDir = workspace.directory;
+  const uniqueId = workspace.id;
+
+  // In snippet mode, the file gets the scaffolding the snippet lacks, and output refers back to the snippet's lines
+  const wrapped = options.wrapSnippet && definition.wrapSnippet ? definition.wrapSnippet(code) : null;
+  const sourceCode = wrapped?.code ?? code;
+  const mapOutputLines = (text: string) =>
+    wrapped ? remapTempFileLines(text, (line) => mapWrappedLine(wrapped.lineMap, line)) : text;
+
+  // Dependencies declared in the header comments are installed into a cached environment shared by identical sets
+  const declaration = definition.dependencyManager ? parseDependencies(definition.dependencyManager, code) : null;
+  const dependencies = declaration ? resolveDependencyEnvironment(declaration, language.executablePath) : null;
+
+  // Older cached detections may not include the command, so fall back to the primary candidate
+  const executableCommand = language.command || definition.commands[0];
+  const context: LanguageCommandContext = {
+    command: executableCommand,
+    executable: dependencies
+      ? quoteShellArgument(dependencies.executablePath)
+      : language.executablePath
+        ? quoteShellArgument(language.executablePath)
+        : executableCommand,
+    filePath: path.join(tempDir, `${uniqueId}${definition.extension}`),
+    outputPath: path.join(tempDir, uniqueId),
+    directory: tempDir,
+  };
+  const filePath = context.filePath;
+  const statsFile = `${context.outputPath}.stats`;
+
+  const limits = resolveResourceLimits(options.limits);
+  // CPU and memory limits only apply to the program, so compilers are not affected by them
+  const limitPrefix = buildLimitPrefix(limits);
+  const wrapProgram = (command: string) => {
+    const trackedCommand = wrapWithMemoryTracking(command, statsFile);
+    return limitPrefix ? `{ ${limitPrefix}${trackedCommand}; }` : trackedCommand;
+  };
+  let programCommand = definition.run(context);
+  if (options.args && options.args.length > 0) {
+    programCommand = `${programCommand} ${options.args.map(quoteShellArgument).join(" ")}`;
+  }
+  const runCommand = wrapProgram(programCommand);
+  const compileCommand = definition.compile ? definition.compile(context) : null;
+  const artifactKey = computeBuildKey(language, sourceCode, options.env);
+  const rawCommand = compileCommand ? `${compileCommand} && ${runCommand}` : runCommand;
+
+  const defaultShellPath = process.env.SHELL || "/bin/zsh";
+  const sandboxed = options.sandboxed ?? isSandboxEnabled();
+  // Both phases run in the sandbox, so the compiler sees the same environment and HOME as the program
+  const prepareSpawn = (command: string, phaseEnv: Record<string, string>) =>
+    sandboxed
+      ? buildSandboxSpawn(defaultShellPath, command, {
+          directory: tempDir,
+          executablePath: language.executablePath,
+          env: phaseEnv,
+        })
+      : { file: defaultShellPath, args: ["-l", "-c", command], env: { ...process.env, ...phaseEnv }, report: null };
+  const sandboxSpawn = sandboxed ? prepareSpawn(rawCommand, {}) : null;
+  const commandToExecute = sandboxSpawn
+    ? `${sandboxSpawn.file} ${sandboxSpawn.args.map(quoteShellArgument).join(" ")}`
+    : `${defaultShellPath} -l -c ${quoteShellArgument(rawCommand)}`;
+
+  const listeners = new Set<CodeRunOutputListener>();
+  let child: ChildProcess | null = null;
+  let finished = false;
+  let cancelled = false;
+  // Set once the run is cancelled or hits a limit, so a phase that has not started yet never starts
+  let stopRequested = false;
+  const installAbort = new AbortController();
+
+  const cleanup = () => workspace.dispose();
+
+  // Sends SIGTERM to the process tree, escalating to SIGKILL if it does not exit shortly after
+  const terminate = () => {
+    stopRequested = true;
+    if (!child || finished) {
+      return;
     }
-    case "go": {
-      // Added block scope
-      filePath = path.join(tempDir, `${uniqueId}.go`);
-      const goExecPath = path.join(tempDir, uniqueId);
-      rawCommand = `go build -o ${goExecPath} ${filePath} && ${goExecPath}`;
-      cleanupFiles.push(filePath, goExecPath);
-      executableCommand = "go";
-      break;
+    const target = child;
+    killProcessTree(target, "SIGTERM");
+    setTimeout(() => {
+      if (!finished) {
+        killProcessTree(target, "SIGKILL");
+      }
+    }, 2000).unref();
+  };
+
+  const result = new Promise<CodeExecutionResult>((resolve) => {
+    let outputDir: string;
+    try {
+      fs.writeFileSync(filePath, sourceCode);
+      outputDir = createOutputDirectory(tempDir, uniqueId);
+    } catch (writeError: unknown) {
+      const errorMessage = writeError instanceof Error ? writeError.message : String(writeError);
+      cleanup();
+      resolve(createExecutionResult({ error: `Failed to write code to a temporary file: ${errorMessage}` }));
+      return;
     }
-    default:
-      return { stdout: "", stderr: "", error: `Unsupported language: ${language}`, command: null };
-  }
 
-  try {
-    fs.writeFileSync(filePath, code);
-
-    const defaultShellPath = process.env.SHELL || "/bin/zsh";
-
-    // Escape quotes in rawCommand to prevent issues when nested inside a shell command
-    const escapedRawCommand = rawCommand.replace(/"/g, '\\"');
-    const commandToExecute = `${defaultShellPath} -l -c "${escapedRawCommand}"`;
-
-    console.log(`[CodeRunner Debug] Using shell: ${defaultShellPath}`);
-    console.log(`[CodeRunner Debug] Command to execute: ${commandToExecute}`);
-
-    const { stdout, stderr } = await new Promise<{ stdout: string; stderr: string }>((resolve, reject) => {
-      // Specified Promise type
-      exec(
-        commandToExecute,
-        { cwd: tempDir, timeout: 5000, killSignal: "SIGTERM", shell: defaultShellPath },
-        (error, stdout, stderr) => {
-          if (error) {
-            let errorMessage = error.message;
-            if (error.message.includes("command not found")) {
-              errorMessage = `Error: '${executableCommand}' command not found. Please ensure '${executableCommand}' is installed and accessible in your system's PATH.
+    const output = { stdout: "", stderr: "" };
+    const capturedBytes = { stdout: 0, stderr: 0 };
+    const maxOutputBytes = limits.maxOutputKb * 1024;
+    let timedOut = false;
+    let outputExceeded = false;
+    let dependencyEnv: Record<string, string> = {};
+
+    // Started once dependencies are installed, so a slow install does not count towards the timeout
+    let timeoutHandle: NodeJS.Timeout | undefined;
+    const startTimeout = () => {
+      if (limits.timeoutSeconds > 0) {
+        timeoutHandle = setTimeout(() => {
+          timedOut = true;
+          terminate();
+        }, limits.timeoutSeconds * 1000);
+      }
+    };
+
+    // Captures a chunk of output, truncating it and stopping the program once the output limit is reached
+    const capture = (stream: "stdout" | "stderr", chunk: string) => {
+      if (outputExceeded) {
+        return;
+      }
+      let text = chunk;
+      const chunkBytes = Buffer.byteLength(chunk);
+      if (maxOutputBytes > 0 && capturedBytes[stream] + chunkBytes > maxOutputBytes) {
+        const remainingBytes = maxOutputBytes - capturedBytes[stream];
+        text = `${Buffer.from(chunk).subarray(0, remainingBytes).toString("utf-8")}\n[… output truncated at ${limits.maxOutputKb} KB]\n`;
+        outputExceeded = true;
+        terminate();
+      }
+      capturedBytes[stream] += chunkBytes;
+      output[stream] += text;
+      listeners.forEach((listener) => listener(stream, text));
+    };
+
+    // Runs one phase (compile or run) in a login shell and reports how it ended
+    const runPhase = (command: string, stdin: string, tracked = false) =>
+      new Promise<PhaseOutcome>((resolvePhase) => {
+        const startedAt = Date.now();
+        if (stopRequested) {
+          // Stopped between phases; the flag that asked for it reports why
+          resolvePhase({ exitCode: null, signal: null, durationMs: 0 });
+          return;
+        }
+        if (tracked) {
+          // A report left by an earlier repetition must not be read as this one's
+          fs.rmSync(statsFile, { force: true });
+        }
+        // Detached so the shell leads its own process group, letting us kill everything it starts
+        const spawnSetup = prepareSpawn(command, {
+          // Plotting libraries render to files instead of opening windows, for the output directory to pick up
+          MPLBACKEND: process.env.MPLBACKEND ?? "Agg",
+          [OUTPUT_DIR_ENV]: outputDir,
+          ...dependencyEnv,
+          ...options.env,
+        });
+        const runningChild = spawn(spawnSetup.file, spawnSetup.args, {
+          cwd: tempDir,
+          env: spawnSetup.env,
+          detached: true,
+        });
+        child = runningChild;
+
+        runningChild.stdout?.setEncoding("utf-8");
+        runningChild.stderr?.setEncoding("utf-8");
+        runningChild.stdout?.on("data", (chunk: string) => capture("stdout", chunk));
+        runningChild.stderr?.on("data", (chunk: string) => capture("stderr", chunk));
+        // Programs that exit without reading stdin would otherwise raise EPIPE here
+        runningChild.stdin?.on("error", () => undefined);
+        // Always close stdin so programs reading input get EOF instead of waiting until the timeout
+        runningChild.stdin?.end(stdin);
+
+        runningChild.on("error", (spawnError) => {
+          resolvePhase({ exitCode: null, signal: null, durationMs: Date.now() - startedAt, spawnError });
+        });
+        runningChild.on("close", (exitCode, signal) => {
+          child = null;
+          // The shell itself only reports a signal when it was killed; `time` reports one that killed the program
+          resolvePhase({
+            exitCode,
+            signal: signal ?? (tracked ? readTerminatingSignal(statsFile, exitCode) : null),
+            durationMs: Date.now() - startedAt,
+          });
+        });
+      });
+
+    const execute = async () => {
+      const timing: Pick<
+        CodeExecutionResult,
+        "compileDurationMs" | "runDurationMs" | "compileCached" | "installDurationMs" | "startupOverheadMs"
+      > = {
+        compileDurationMs: null,
+        runDurationMs: null,
+      };
+
+      const finish = (outcome: PhaseOutcome, error: string | null, limitExceeded: ResourceLimitKind | null = null) => {
+        finished = true;
+        clearTimeout(timeoutHandle);
+        const peakMemoryKb = readPeakMemoryKb(statsFile);
+        const outputFiles = collectOutputFiles(outputDir, uniqueId);
+        cleanup();
+        resolve(
+          createExecutionResult({
+            stdout: mapOutputLines(output.stdout),
+            stderr: mapOutputLines(output.stderr),
+            error,
+            command: commandToExecute,
+            limitExceeded,
+            exitCode: outcome.exitCode,
+            signal: outcome.signal,
+            ...timing,
+            peakMemoryKb,
+            outputFiles,
+            sandbox: sandboxSpawn?.report ?? undefined,
+          }),
+        );
+      };
+
+      // Errors shared by both phases: stopped by the user, by a limit, or unable to start
+      const finishIfInterrupted = (outcome: PhaseOutcome): boolean => {
+        if (outcome.spawnError) {
+          finish(outcome, `Failed to start ${defaultShellPath}: ${outcome.spawnError.message}`);
+        } else if (cancelled) {
+          finish(outcome, "Code execution was stopped.");
+        } else if (outputExceeded) {
+          finish(outcome, describeLimitExceeded("output", limits), "output");
+        } else if (timedOut) {
+          finish(outcome, describeLimitExceeded("timeout", limits), "timeout");
+        } else {
+          return false;
+        }
+        return true;
+      };
+
+      const commandNotFoundError = `Error: '${executableCommand}' command not found. Please ensure '${executableCommand}' is installed and accessible in your system's PATH.
                         \nIf it is installed, try running 'which ${executableCommand}' in your terminal to find its path.
                         \nThen, consider adding its directory to your shell's PATH (e.g., in ~/.zshrc or ~/.bashrc) and restarting Raycast.`;
-            } else if (error.killed && error.signal === "SIGTERM") {
-              errorMessage = `Code execution timed out after 5 seconds. This could be due to an infinite loop or a long-running process.`;
-            }
-            // Reject with a structured object for better error handling upstream
-            reject({ stdout, stderr, error: errorMessage, command: commandToExecute });
-          } else {
-            resolve({ stdout, stderr });
-          }
-        },
-      );
-    });
 
-    return { stdout, stderr, error: null, command: commandToExecute };
-  } catch (e: unknown) {
-    // Changed 'any' to 'unknown'
-    const errorObject = e as {
-      stdout?: string;
-      stderr?: string;
-      error?: string;
-      message?: string;
-      command?: string | null;
-    }; // Type assertion for common properties
-    const errorMessage = errorObject.error || errorObject.message || "Unknown error during execution";
-    return {
-      stdout: errorObject.stdout || "",
-      stderr: errorObject.stderr || "",
-      error: errorMessage,
-      command: errorObject.command || null,
-    };
-  } finally {
-    cleanupFiles.forEach((file) => {
-      if (fs.existsSync(file)) {
+      if (dependencies) {
+        const install = await ensureDependencies(dependencies, language.executablePath, {
+          signal: installAbort.signal,
+          sandboxed,
+        }).catch((installError: unknown) => ({
+          installed: false,
+          durationMs: 0,
+          error: installError instanceof Error ? installError.message : String(installError),
+        }));
+        if (install.installed) {
+          timing.installDurationMs = install.durationMs;
+        }
+        const installOutcome: PhaseOutcome = { exitCode: null, signal: null, durationMs: install.durationMs };
+        if (cancelled) {
+          finish(installOutcome, "Code execution was stopped.");
+          return;
+        }
+        if (install.error) {
+          capture("stderr", `${install.error}\n`);
+          finish(installOutcome, "Installing dependencies failed.");
+          return;
+        }
         try {
-          fs.unlinkSync(file);
-        } catch (cleanupError: unknown) {
-          const errorMessage = cleanupError instanceof Error ? cleanupError.message : String(cleanupError);
-          console.error(`Error cleaning up file ${file}: ${errorMessage}`);
+          dependencyEnv = linkDependencies(dependencies, tempDir);
+        } catch (linkError: unknown) {
+          finish(
+            installOutcome,
+            `Failed to set up dependencies: ${linkError instanceof Error ? linkError.message : String(linkError)}`,
+          );
+          return;
         }
       }
+      startTimeout();
+
+      if (compileCommand && artifactKey && restoreArtifact(artifactKey, context.outputPath)) {
+        timing.compileCached = true;
+      } else if (compileCommand) {
+        const compileOutcome = await runPhase(compileCommand, "");
+        timing.compileDurationMs = compileOutcome.durationMs;
+        if (finishIfInterrupted(compileOutcome)) {
+          return;
+        }
+        if (compileOutcome.exitCode !== 0) {
+          finish(
+            compileOutcome,
+            output.stderr.includes("command not found")
+              ? commandNotFoundError
+              : `Compilation failed with exit code ${compileOutcome.exitCode}.`,
+          );
+          return;
+        }
+        if (artifactKey) {
+          storeArtifact(artifactKey, context.outputPath);
+        }
+      }
+
+      const clearOutput = () => {
+        output.stdout = "";
+        output.stderr = "";
+        capturedBytes.stdout = 0;
+        capturedBytes.stderr = 0;
+      };
+
+      // Empty programs started through the same shell and wrappers, so callers can subtract their start-up time
+      if (options.measureStartupOverhead) {
+        const overheadDurationsMs: number[] = [];
+        for (let index = 0; index < STARTUP_OVERHEAD_RUNS; index++) {
+          const overheadOutcome = await runPhase(wrapProgram(":"), "", true);
+          if (finishIfInterrupted(overheadOutcome)) {
+            return;
+          }
+          overheadDurationsMs.push(overheadOutcome.durationMs);
+        }
+        overheadDurationsMs.sort((a, b) => a - b);
+        timing.startupOverheadMs = overheadDurationsMs[Math.floor(STARTUP_OVERHEAD_RUNS / 2)];
+        // Anything the shell's profile printed is not output of the program
+        clearOutput();
+      }
+
+      // With repetitions, the timeout applies to each repetition rather than to all of them together
+      const repetitions = Math.max(1, Math.floor(options.repetitions ?? 1));
+      const runRepetition = () => {
+        if (repetitions > 1) {
+          clearTimeout(timeoutHandle);
+          startTimeout();
+        }
+        return runPhase(runCommand, options.stdin ?? "", true);
+      };
+      let runOutcome = await runRepetition();
+      for (let index = 0; ; index++) {
+        timing.runDurationMs = runOutcome.durationMs;
+        if (finishIfInterrupted(runOutcome)) {
+          return;
+        }
+        if (runOutcome.exitCode !== 0 || index + 1 >= repetitions) {
+          break;
+        }
+        options.onRepetitionComplete?.(index, runOutcome.durationMs);
+        // Only the last repetition's output is kept, so repeated runs do not add up towards the output limit
+        clearOutput();
+        runOutcome = await runRepetition();
+      }
+
+      const { exitCode, signal } = runOutcome;
+      const unappliedLimit = findUnappliedLimit(output.stderr);
+      const limitExceeded = classifyLimitFailure(signal, output.stderr, limits);
+      if (exitCode === 0) {
+        options.onRepetitionComplete?.(repetitions - 1, runOutcome.durationMs);
+        finish(runOutcome, null);
+      } else if (unappliedLimit) {
+        finish(runOutcome, describeLimitNotApplied(unappliedLimit, limits));
+      } else if (limitExceeded) {
+        finish(runOutcome, describeLimitExceeded(limitExceeded, limits), limitExceeded);
+      } else if (output.stderr.includes("command not found")) {
+        finish(runOutcome, commandNotFoundError);
+      } else if (signal) {
+        finish(runOutcome, `Process was terminated by signal ${signal}.`);
+      } else {
+        finish(runOutcome, `Process exited with code ${exitCode}.`);
+      }
+    };
+
+    // An unexpected error (e.g., while collecting output files) still ends the run instead of leaving it pending
+    execute().catch((executeError: unknown) => {
+      finished = true;
+      clearTimeout(timeoutHandle);
+      try {
+        cleanup();
+      } catch {
+        // The workspace is swept on a later launch
+      }
+      resolve(
+        createExecutionResult({
+          stdout: output.stdout,
+          stderr: output.stderr,
+          error: `Code execution failed unexpectedly: ${executeError instanceof Error ? executeError.message : String(executeError)}`,
+          command: commandToExecute,
+        }),
+      );
     });
-    try {
-      if (fs.readdirSync(tempDir).length === 0) {
-        fs.rmdirSync(tempDir);
+  });
+
+  return {
+    command: commandToExecute,
+    result,
+    get cancelled() {
+      return cancelled;
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    cancel: () => {
+      if (finished || cancelled) {
+        return;
       }
-    } catch (_dirCleanupError: unknown) {
-      console.error(_dirCleanupError);
-    }
-  }
+      cancelled = true;
+      installAbort.abort();
+      terminate();
+    },
+  };
+}
+
+/**
+ * Runs code in a specified language and waits for it to finish.
+ * Use `startCodeRun` instead to stream output or cancel the run.
+ *
+ * @param {DetectedLanguage} language The detected language to run the code with.
+ * @param {string} code The source code to execute.
+ * @param {RunCodeOptions} options Optional stdin, arguments and environment variables for the program.
+ * @returns {Promise<CodeExecutionResult>} A promise that resolves with the stdout, stderr, and any execution error.
+ */
+export async function runCode(
+  language: DetectedLanguage,
+  code: string,
+  options: RunCodeOptions = {},
+): Promise<CodeExecutionResult> {
+  return startCodeRun(language, code, options).result;
 }
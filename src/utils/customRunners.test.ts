@@ -0,0 +1,71 @@
+// utils/customRunners.test.ts
+import { describe, expect, it } from "vitest";
+import { expandCommandTemplate, toLanguageDefinition } from "./customRunners";
+import { LanguageCommandContext } from "./languages";
+
+const context: LanguageCommandContext = {
+  command: "bun",
+  executable: "'/opt/bun dir/bun'",
+  filePath: "/tmp/run 1/main.ts",
+  outputPath: "/tmp/run 1/main",
+  directory: "/tmp/run 1",
+};
+
+const runner = { name: "Bun", id: "Bun", detect: "bun", extension: "ts", command: "bun run {file}" };
+
+describe("expandCommandTemplate", () => {
+  it("quotes the placeholders and runs the detected executable", () => {
+    expect(expandCommandTemplate("bun build {file} --outfile {out} && cd {dir}", "bun", context)).toBe(
+      "'/opt/bun dir/bun' build '/tmp/run 1/main.ts' --outfile '/tmp/run 1/main' && cd '/tmp/run 1'",
+    );
+  });
+
+  it("only replaces the detect command at the start of the template", () => {
+    expect(expandCommandTemplate("bunx bun {file}", "bun", context)).toBe("bunx bun '/tmp/run 1/main.ts'");
+    expect(expandCommandTemplate("{executable} {file}", "bun", context)).toBe(
+      "'/opt/bun dir/bun' '/tmp/run 1/main.ts'",
+    );
+  });
+
+  it("leaves placeholders inside substituted paths alone", () => {
+    const trickyContext = { ...context, filePath: "/tmp/{dir}/main.ts" };
+    expect(expandCommandTemplate("bun {file}", "bun", trickyContext)).toBe("'/opt/bun dir/bun' '/tmp/{dir}/main.ts'");
+  });
+});
+
+describe("toLanguageDefinition", () => {
+  it("converts a valid runner, lower-casing the id and dotting the extension", () => {
+    const converted = toLanguageDefinition(runner, 0, new Set());
+    expect("definition" in converted && converted.definition).toMatchObject({
+      name: "Bun",
+      value: "bun",
+      commands: ["bun"],
+      extension: ".ts",
+      icon: "Terminal",
+    });
+  });
+
+  it("looks for an absolute detect path where it is, not on PATH", () => {
+    const converted = toLanguageDefinition({ ...runner, detect: "/opt/bun/bin/bun" }, 0, new Set());
+    expect("definition" in converted && converted.definition).toMatchObject({
+      commands: [],
+      installPatterns: ["/opt/bun/bin/bun"],
+    });
+  });
+
+  it("reports invalid runners", () => {
+    expect(toLanguageDefinition("bun", 2, new Set())).toEqual({ error: "Runner #3: expected an object." });
+    expect(toLanguageDefinition({ name: "Bun", id: "bun" }, 0, new Set())).toEqual({
+      error: `Runner "Bun": missing or invalid 'detect', 'extension', 'command'.`,
+    });
+    expect(toLanguageDefinition(runner, 0, new Set(["bun"]))).toEqual({
+      error: `Runner "Bun": id 'Bun' is already used by another language.`,
+    });
+    expect(toLanguageDefinition({ ...runner, command: "bun run main.ts" }, 0, new Set())).toEqual({
+      error: `Runner "Bun": 'command' must reference the source file with the {file} placeholder.`,
+    });
+    expect(toLanguageDefinition({ ...runner, detect: "bin/bun" }, 0, new Set())).toEqual({
+      error: `Runner "Bun": 'detect' must be a command name or an absolute path.`,
+    });
+  });
+});
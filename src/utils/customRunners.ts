@@ -0,0 +1,197 @@
+// utils/customRunners.ts
+import { Icon } from "@raycast/api";
+import * as fs from "fs";
+import * as path from "path";
+import { parse as parseYaml } from "yaml";
+import { quoteShellArgument } from "./inputParsing";
+import { LanguageCommandContext, LanguageDefinition } from "./languages";
+import { getExtensionPreferences } from "./preferences";
+
+/**
+ * A runner declared by the user in the custom runners config file.
+ */
+export interface CustomRunnerConfig {
+  name: string;
+  id: string;
+  detect: string; // Command checked during language detection (e.g., 'bun'), or the absolute path of the executable
+  extension: string;
+  command: string; // Command template supporting {file}, {dir}, {out} and {executable} placeholders
+  template?: string;
+  icon?: string;
+}
+
+/**
+ * The outcome of loading the custom runners config file.
+ * Invalid runners are skipped and described in `errors` so they can be reported to the user.
+ */
+export interface CustomRunnersLoadResult {
+  definitions: LanguageDefinition[];
+  errors: string[];
+}
+
+const REQUIRED_FIELDS: (keyof CustomRunnerConfig)[] = ["name", "id", "detect", "extension", "command"];
+const NO_CUSTOM_RUNNERS: CustomRunnersLoadResult = { definitions: [], errors: [] };
+
+// Languages are looked up on every render, so the config file is checked for changes at most this often
+const CONFIG_CHECK_INTERVAL_MS = 1000;
+
+// Cache of the last loaded config, invalidated when the file path or its modification time changes
+let cachedLoad: {
+  filePath: string;
+  modifiedAt: number;
+  checkedAt: number;
+  result: CustomRunnersLoadResult;
+} | null = null;
+
+/**
+ * Replaces the {file}, {dir}, {out} and {executable} placeholders of a command template with shell-quoted values.
+ * A template starting with the runner's `detect` command runs the detected (or chosen) executable instead.
+ * @param template The command template from the config file.
+ * @param detect The command checked during language detection.
+ * @param context The paths of the current run.
+ * @returns The command to execute.
+ */
+export function expandCommandTemplate(template: string, detect: string, context: LanguageCommandContext): string {
+  const leadingCommand = new RegExp(`^\\s*${detect.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(?=\\s|$)`);
+  // Replaced in one pass, so placeholders inside substituted paths are left alone
+  const values: Record<string, string> = {
+    file: quoteShellArgument(context.filePath),
+    dir: quoteShellArgument(context.directory),
+    out: quoteShellArgument(context.outputPath),
+    executable: context.executable,
+  };
+  return template
+    .replace(leadingCommand, "{executable}")
+    .replace(/\{(file|dir|out|executable)\}/g, (_match, name: string) => values[name]);
+}
+
+/**
+ * Parses the raw contents of a config file as YAML or JSON, based on its extension.
+ * @param filePath The path of the config file.
+ * @param contents The raw file contents.
+ * @returns The list of raw runner entries.
+ */
+function parseConfigFile(filePath: string, contents: string): unknown[] {
+  const extension = path.extname(filePath).toLowerCase();
+  const parsed: unknown = extension === ".yaml" || extension === ".yml" ? parseYaml(contents) : JSON.parse(contents);
+
+  // Accept either a top-level array or an object with a `runners` array
+  if (Array.isArray(parsed)) {
+    return parsed;
+  }
+  if (parsed && typeof parsed === "object" && Array.isArray((parsed as { runners?: unknown }).runners)) {
+    return (parsed as { runners: unknown[] }).runners;
+  }
+  throw new Error("Expected a list of runners or an object with a 'runners' list.");
+}
+
+/**
+ * Validates a raw runner entry and converts it into a language definition.
+ * @param entry The raw entry from the config file.
+ * @param index The position of the entry, used in error messages.
+ * @param takenIds Language ids already in use (built-in or earlier custom runners).
+ * @returns The language definition, or an error message describing why the entry is invalid.
+ */
+export function toLanguageDefinition(
+  entry: unknown,
+  index: number,
+  takenIds: Set<string>,
+): { definition: LanguageDefinition } | { error: string } {
+  if (!entry || typeof entry !== "object") {
+    return { error: `Runner #${index + 1}: expected an object.` };
+  }
+
+  const runner = entry as Partial<Record<keyof CustomRunnerConfig, unknown>>;
+  const label = typeof runner.name === "string" ? `Runner "${runner.name}"` : `Runner #${index + 1}`;
+
+  const missingFields = REQUIRED_FIELDS.filter(
+    (field) => typeof runner[field] !== "string" || !(runner[field] as string).trim(),
+  );
+  if (missingFields.length > 0) {
+    return { error: `${label}: missing or invalid ${missingFields.map((field) => `'${field}'`).join(", ")}.` };
+  }
+
+  const config = runner as CustomRunnerConfig;
+  const id = config.id.toLowerCase();
+  if (takenIds.has(id)) {
+    return { error: `${label}: id '${config.id}' is already used by another language.` };
+  }
+  if (!config.command.includes("{file}")) {
+    return { error: `${label}: 'command' must reference the source file with the {file} placeholder.` };
+  }
+  // Detection looks commands up on PATH by name, so an executable given by path is checked where it is instead
+  const detectPath = config.detect.startsWith("~") || path.isAbsolute(config.detect) ? config.detect : null;
+  if (!detectPath && config.detect.includes("/")) {
+    return { error: `${label}: 'detect' must be a command name or an absolute path.` };
+  }
+
+  return {
+    definition: {
+      name: config.name,
+      value: id,
+      commands: detectPath ? [] : [config.detect],
+      installPatterns: detectPath ? [detectPath] : undefined,
+      extension: config.extension.startsWith(".") ? config.extension : `.${config.extension}`,
+      run: (context) => expandCommandTemplate(config.command, config.detect, context),
+      template: typeof config.template === "string" ? config.template : "",
+      icon: typeof config.icon === "string" ? config.icon : Icon.Terminal,
+    },
+  };
+}
+
+/**
+ * Loads the custom runners from the file configured in the extension preferences.
+ * The result is reused until the preference or the file's modification time changes, so the same definition objects
+ * are returned for an unchanged config.
+ * @param reservedIds Language ids that custom runners may not reuse (the built-in languages).
+ * @returns The valid runners as language definitions, plus an error for every invalid entry.
+ */
+export function loadCustomRunners(reservedIds: string[]): CustomRunnersLoadResult {
+  const { customRunnersFile } = getExtensionPreferences();
+  if (!customRunnersFile) {
+    return NO_CUSTOM_RUNNERS;
+  }
+  const now = Date.now();
+  if (
+    cachedLoad &&
+    cachedLoad.filePath === customRunnersFile &&
+    now - cachedLoad.checkedAt < CONFIG_CHECK_INTERVAL_MS
+  ) {
+    return cachedLoad.result;
+  }
+
+  let entries: unknown[];
+  let modifiedAt: number;
+  try {
+    modifiedAt = fs.statSync(customRunnersFile).mtimeMs;
+    if (cachedLoad && cachedLoad.filePath === customRunnersFile && cachedLoad.modifiedAt === modifiedAt) {
+      cachedLoad.checkedAt = now;
+      return cachedLoad.result;
+    }
+    entries = parseConfigFile(customRunnersFile, fs.readFileSync(customRunnersFile, "utf-8"));
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const result = { definitions: [], errors: [`Could not read ${customRunnersFile}: ${errorMessage}`] };
+    // Kept until the next check, when the file is read again
+    cachedLoad = { filePath: customRunnersFile, modifiedAt: -1, checkedAt: now, result };
+    return result;
+  }
+
+  const definitions: LanguageDefinition[] = [];
+  const errors: string[] = [];
+  const takenIds = new Set(reservedIds);
+
+  entries.forEach((entry, index) => {
+    const converted = toLanguageDefinition(entry, index, takenIds);
+    if ("error" in converted) {
+      errors.push(converted.error);
+      return;
+    }
+    takenIds.add(converted.definition.value);
+    definitions.push(converted.definition);
+  });
+
+  const result = { definitions, errors };
+  cachedLoad = { filePath: customRunnersFile, modifiedAt, checkedAt: now, result };
+  return result;
+}
@@ -0,0 +1,64 @@
+// utils/dependencies.test.ts
+import * as fs from "fs";
+import * as path from "path";
+import { describe, expect, it } from "vitest";
+import { ensureDependencies, parseDependencies, resolveDependencyEnvironment } from "./dependencies";
+
+describe("parseDependencies", () => {
+  it("reads a PEP 723 script block for pip", () => {
+    const code = [
+      "# /// script",
+      '# requires-python = ">=3.11"',
+      "# dependencies = [",
+      '#   "requests<3",',
+      "#   'rich',",
+      "# ]",
+      "# ///",
+      "import requests",
+    ].join("\r\n");
+    expect(parseDependencies("pip", code)).toEqual({ manager: "pip", packages: ["requests<3", "rich"] });
+  });
+
+  it("reads deps comments for npm and Go, sorted and deduplicated", () => {
+    const code = "// deps: lodash, chalk@5\n//deps: dayjs lodash\nconsole.log(1);";
+    expect(parseDependencies("npm", code)).toEqual({ manager: "npm", packages: ["chalk@5", "dayjs", "lodash"] });
+  });
+
+  it("ignores declarations meant for another package manager", () => {
+    expect(parseDependencies("pip", "// deps: lodash\n")).toBeNull();
+    expect(parseDependencies("go", '# /// script\n# dependencies = ["rich"]\n# ///\n')).toBeNull();
+  });
+
+  it("returns null when nothing is declared", () => {
+    expect(parseDependencies("pip", "# /// script\n# dependencies = []\n# ///\n")).toBeNull();
+    expect(parseDependencies("npm", "// deps:\n")).toBeNull();
+  });
+});
+
+describe("ensureDependencies", () => {
+  it("refuses to install in a sandboxed run", async () => {
+    const dependencies = resolveDependencyEnvironment({ manager: "pip", packages: ["sandboxed-refusal"] }, "python3");
+    const install = await ensureDependencies(dependencies, "python3", { sandboxed: true });
+    expect(install.installed).toBe(false);
+    expect(install.error).toContain("sandboxed-refusal cannot be installed in Sandboxed Mode");
+    // Nothing was started, not even the temporary install directory
+    const cacheRoot = path.dirname(dependencies.directory);
+    const entries = fs.existsSync(cacheRoot) ? fs.readdirSync(cacheRoot) : [];
+    expect(entries.filter((entry) => entry.startsWith(path.basename(dependencies.directory)))).toEqual([]);
+  });
+
+  it("uses an installed environment in a sandboxed run", async () => {
+    const dependencies = resolveDependencyEnvironment({ manager: "pip", packages: ["sandboxed-cached"] }, "python3");
+    fs.mkdirSync(dependencies.directory, { recursive: true });
+    fs.writeFileSync(path.join(dependencies.directory, "manifest.json"), "{}");
+    try {
+      expect(await ensureDependencies(dependencies, "python3", { sandboxed: true })).toEqual({
+        installed: false,
+        durationMs: 0,
+        error: null,
+      });
+    } finally {
+      fs.rmSync(dependencies.directory, { recursive: true, force: true });
+    }
+  });
+});
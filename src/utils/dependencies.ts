@@ -0,0 +1,253 @@
+// utils/dependencies.ts
+import { environment } from "@raycast/api";
+import * as fs from "fs";
+import * as path from "path";
+import { computeArtifactKey } from "./artifactCache";
+import { quoteShellArgument } from "./inputParsing";
+import { runLoginShellScript } from "./toolchains";
+
+/**
+ * A package manager that installs the dependencies a snippet declares.
+ */
+export type DependencyManager = "pip" | "npm" | "go";
+
+/**
+ * The dependencies declared in a snippet's header comments.
+ */
+export interface DependencyDeclaration {
+  manager: DependencyManager;
+  packages: string[]; // Package specifiers as written (e.g., 'requests<3', 'lodash@4', 'github.com/google/uuid@v1.6.0')
+}
+
+/**
+ * A cached environment with a snippet's dependencies installed, shared by every snippet declaring the same set.
+ */
+export interface DependencyEnvironment {
+  manager: DependencyManager;
+  packages: string[];
+  directory: string;
+  executablePath: string; // The language executable, or the venv's Python for pip
+}
+
+/**
+ * How making sure a dependency environment exists went.
+ */
+export interface DependencyInstallResult {
+  installed: boolean; // False if the environment was already cached
+  durationMs: number;
+  error: string | null; // Why the install failed, including the package manager's output
+}
+
+// The least recently used environments beyond this many are deleted
+const MAX_DEPENDENCY_ENVIRONMENTS = 20;
+const INSTALL_TIMEOUT_MS = 5 * 60 * 1000;
+// Written last by an install, so a directory without it is incomplete
+const MANIFEST_FILE = "manifest.json";
+const GO_MODCACHE_FILE = "gomodcache";
+
+// A PEP 723 inline script metadata block (https://peps.python.org/pep-0723/)
+const PEP_723_BLOCK = /^# \/\/\/ script\s*$\n((?:^#(?: .*)?$\n)+)^# \/\/\/\s*$/m;
+// A `// deps: lodash@4, chalk@5` header line
+const DEPS_COMMENT = /^\s*\/\/\s*deps:(.*)$/gm;
+
+/**
+ * Reads the `dependencies` list from the TOML of a PEP 723 block. Only the subset of TOML the list needs is read:
+ * a single (possibly multi-line) array of quoted strings.
+ */
+function parsePep723Dependencies(block: string): string[] {
+  const toml = block
+    .split("\n")
+    .map((line) => line.replace(/^# ?/, ""))
+    .join("\n");
+  const list = toml.match(/^dependencies\s*=\s*\[([\s\S]*?)\]/m)?.[1] ?? "";
+  return [...list.matchAll(/"([^"]*)"|'([^']*)'/g)].map((match) => (match[1] ?? match[2]).trim()).filter(Boolean);
+}
+
+/**
+ * Finds the dependencies a snippet declares: a PEP 723 `# /// script` block for pip, and `// deps:` comments, with
+ * packages separated by commas or spaces, for npm and Go.
+ * @param manager The package manager of the snippet's language.
+ * @param code The snippet.
+ * @returns The declaration, or null if the snippet declares no dependencies.
+ */
+export function parseDependencies(manager: DependencyManager, code: string): DependencyDeclaration | null {
+  let packages: string[];
+  if (manager === "pip") {
+    const block = code.replace(/\r\n/g, "\n").match(PEP_723_BLOCK)?.[1];
+    packages = block ? parsePep723Dependencies(block) : [];
+  } else {
+    packages = [...code.matchAll(DEPS_COMMENT)].flatMap((match) => match[1].split(/[\s,]+/).filter(Boolean));
+  }
+  // Sorted and deduplicated, so the same set always maps to the same environment
+  const uniquePackages = [...new Set(packages)].sort();
+  return uniquePackages.length > 0 ? { manager, packages: uniquePackages } : null;
+}
+
+/**
+ * Gets the directory where dependency environments are cached.
+ */
+function getDependencyCacheRoot(): string {
+  return path.join(environment.supportPath, "dependency-cache");
+}
+
+/**
+ * Locates the cached environment of a dependency set, keyed by the packages and the language executable that
+ * installs and runs them. The environment may not have been installed yet.
+ * @param declaration The declared dependencies.
+ * @param executablePath The language executable (e.g., the Python interpreter the venv is created from).
+ * @returns The environment.
+ */
+export function resolveDependencyEnvironment(
+  declaration: DependencyDeclaration,
+  executablePath: string,
+): DependencyEnvironment {
+  const key = computeArtifactKey([declaration.manager, executablePath, ...declaration.packages]);
+  const directory = path.join(getDependencyCacheRoot(), key.slice(0, 32));
+  return {
+    ...declaration,
+    directory,
+    executablePath: declaration.manager === "pip" ? path.join(directory, "venv", "bin", "python") : executablePath,
+  };
+}
+
+/**
+ * Builds the install script of an environment, run in its (temporary) directory.
+ * @param dependencies The environment to install.
+ * @param languageExecutable The language executable.
+ */
+function buildInstallScript(dependencies: DependencyEnvironment, languageExecutable: string): string {
+  const packages = dependencies.packages.map(quoteShellArgument).join(" ");
+  const executable = quoteShellArgument(languageExecutable);
+  switch (dependencies.manager) {
+    case "pip":
+      return `${executable} -m venv venv && venv/bin/python -m pip install --disable-pip-version-check --quiet ${packages}`;
+    case "npm": {
+      // The npm next to the chosen Node, so packages with native code are built for it
+      const siblingNpm = path.join(path.dirname(languageExecutable), "npm");
+      const npm = fs.existsSync(siblingNpm) ? quoteShellArgument(siblingNpm) : "npm";
+      return `printf '{"private":true}' > package.json && ${npm} install --no-audit --no-fund --prefer-offline --loglevel=error ${packages}`;
+    }
+    case "go":
+      return `${executable} mod init snippet && ${executable} get ${packages} && ${executable} env GOMODCACHE > ${GO_MODCACHE_FILE}`;
+  }
+}
+
+/**
+ * Makes sure a dependency environment is installed, installing it if needed. Installs run in the login shell with the
+ * user's own configuration, so package index mirrors set in `pip.conf`, `.npmrc`, `PIP_INDEX_URL` or `GOPROXY` are
+ * used. They are written to a temporary directory that is renamed when complete, so concurrent runs never use a
+ * partial install. Cached environments need no network access.
+ * Sandboxed runs only use cached environments: an install runs outside the sandbox, with the user's profile and
+ * network access, so it is refused rather than started for code that is not trusted.
+ * @param dependencies The environment.
+ * @param languageExecutable The language executable.
+ * @param options A signal that stops the install when aborted (e.g., when the run is cancelled), and whether the run
+ * is sandboxed.
+ * @returns Whether the environment had to be installed, and why the install failed, if it did.
+ */
+export async function ensureDependencies(
+  dependencies: DependencyEnvironment,
+  languageExecutable: string,
+  options: { signal?: AbortSignal; sandboxed?: boolean } = {},
+): Promise<DependencyInstallResult> {
+  const startedAt = Date.now();
+  const manifestPath = path.join(dependencies.directory, MANIFEST_FILE);
+  if (fs.existsSync(manifestPath)) {
+    // Mark the environment as recently used, so pruning keeps it
+    const now = new Date();
+    fs.utimesSync(manifestPath, now, now);
+    return { installed: false, durationMs: 0, error: null };
+  }
+  if (options.sandboxed) {
+    return {
+      installed: false,
+      durationMs: 0,
+      error: `${dependencies.packages.join(", ")} cannot be installed in Sandboxed Mode, since installs run outside the sandbox. Run the code once with Sandboxed Mode off to install them; later sandboxed runs use the installed packages.`,
+    };
+  }
+
+  const root = getDependencyCacheRoot();
+  const partialDirectory = `${dependencies.directory}.${process.pid}.${Date.now()}.partial`;
+  fs.mkdirSync(partialDirectory, { recursive: true });
+  const install = await runLoginShellScript(buildInstallScript(dependencies, languageExecutable), INSTALL_TIMEOUT_MS, {
+    cwd: partialDirectory,
+    signal: options.signal,
+  });
+  const durationMs = Date.now() - startedAt;
+  if (install.exitCode !== 0) {
+    fs.rmSync(partialDirectory, { recursive: true, force: true });
+    const output = [install.stdout, install.stderr].map((text) => text.trim()).filter(Boolean);
+    const reason = install.error ?? `exit code ${install.exitCode}`;
+    return {
+      installed: false,
+      durationMs,
+      error: [`Installing ${dependencies.packages.join(", ")} failed (${reason}).`, ...output].join("\n\n"),
+    };
+  }
+
+  fs.writeFileSync(
+    path.join(partialDirectory, MANIFEST_FILE),
+    JSON.stringify({ manager: dependencies.manager, packages: dependencies.packages, installedAt: Date.now() }),
+  );
+  try {
+    fs.renameSync(partialDirectory, dependencies.directory);
+  } catch {
+    // Another run installed the same environment first; use that one
+    fs.rmSync(partialDirectory, { recursive: true, force: true });
+  }
+  pruneDependencyEnvironments(root);
+  return { installed: true, durationMs, error: null };
+}
+
+/**
+ * Makes an installed environment available to a run in its workspace, and returns the variables the run needs.
+ * @param dependencies The installed environment.
+ * @param workspaceDirectory The workspace directory of the run.
+ * @returns Environment variables for the run's compile and run steps.
+ */
+export function linkDependencies(
+  dependencies: DependencyEnvironment,
+  workspaceDirectory: string,
+): Record<string, string> {
+  switch (dependencies.manager) {
+    case "pip":
+      // The venv's Python is run directly, which finds the installed packages by itself
+      return {};
+    case "npm":
+      // Node looks for node_modules next to the file, for both require and import
+      fs.symlinkSync(
+        path.join(dependencies.directory, "node_modules"),
+        path.join(workspaceDirectory, "node_modules"),
+        "dir",
+      );
+      return {};
+    case "go": {
+      ["go.mod", "go.sum"]
+        .filter((name) => fs.existsSync(path.join(dependencies.directory, name)))
+        .forEach((name) =>
+          fs.copyFileSync(path.join(dependencies.directory, name), path.join(workspaceDirectory, name)),
+        );
+      // The module cache is named explicitly, since sandboxed runs have a different HOME
+      const moduleCachePath = path.join(dependencies.directory, GO_MODCACHE_FILE);
+      const moduleCache = fs.existsSync(moduleCachePath) ? fs.readFileSync(moduleCachePath, "utf-8").trim() : "";
+      // -mod=mod lets the build add go.sum entries of packages imported from the declared modules
+      return { GOFLAGS: "-mod=mod", ...(moduleCache ? { GOMODCACHE: moduleCache } : {}) };
+    }
+  }
+}
+
+/**
+ * Deletes the least recently used environments beyond the cache size, along with installs left behind by crashes.
+ */
+function pruneDependencyEnvironments(root: string): void {
+  const entries = fs.readdirSync(root).map((name) => path.join(root, name));
+  entries
+    .filter((entry) => entry.endsWith(".partial") && Date.now() - fs.statSync(entry).mtimeMs > INSTALL_TIMEOUT_MS)
+    .forEach((entry) => fs.rmSync(entry, { recursive: true, force: true }));
+  entries
+    .filter((entry) => fs.existsSync(path.join(entry, MANIFEST_FILE)))
+    .map((entry) => ({ entry, usedAt: fs.statSync(path.join(entry, MANIFEST_FILE)).mtimeMs }))
+    .sort((a, b) => b.usedAt - a.usedAt)
+    .slice(MAX_DEPENDENCY_ENVIRONMENTS)
+    .forEach(({ entry }) => fs.rmSync(entry, { recursive: true, force: true }));
+}
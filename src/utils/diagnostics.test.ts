@@ -0,0 +1,215 @@
+// utils/diagnostics.test.ts
+import { describe, expect, it } from "vitest";
+import {
+  extractDiagnostics,
+  parseGoDiagnostics,
+  parseJavaDiagnostics,
+  parseJavaScriptDiagnostics,
+  parseLocationDiagnostics,
+  parsePythonDiagnostics,
+  parseRustDiagnostics,
+  quoteSourceLine,
+  rewriteTempPaths,
+} from "./diagnostics";
+
+const ID = "0f8fad5b-d9cb-469f-a165-70867728950e";
+const DIRECTORY = "/tmp/raycast-code-runner/run-1";
+
+/**
+ * The path of the snippet's temp file with the given extension.
+ */
+function tempFile(extension: string): string {
+  return `${DIRECTORY}/${ID}${extension}`;
+}
+
+describe("rewriteTempPaths", () => {
+  it("refers to lines of the snippet instead of the temp file", () => {
+    expect(rewriteTempPaths(`File "${tempFile(".py")}", line 3, in <module>`)).toBe(
+      "line 3 of your snippet, in <module>",
+    );
+    expect(rewriteTempPaths(`at main (${tempFile(".js")}:4:11)`)).toBe("at main (line 4 of your snippet)");
+    expect(rewriteTempPaths(`cannot open ${ID}.c`)).toBe("cannot open your snippet");
+  });
+});
+
+describe("parseLocationDiagnostics", () => {
+  it("parses GCC and Clang errors, warnings and notes", () => {
+    const output = [
+      `${tempFile(".c")}:5:3: warning: implicit declaration of function 'prinf' [-Wimplicit-function-declaration]`,
+      `${tempFile(".c")}:7:12: error: expected ';' before '}' token`,
+      `${tempFile(".c")}:2:1: note: include '<stdio.h>' or provide a declaration of 'prinf'`,
+      "1 error generated.",
+    ].join("\n");
+    expect(parseLocationDiagnostics(output)).toEqual([
+      {
+        line: 5,
+        column: 3,
+        severity: "warning",
+        message: "implicit declaration of function 'prinf' [-Wimplicit-function-declaration]",
+      },
+      { line: 7, column: 12, severity: "error", message: "expected ';' before '}' token" },
+      { line: 2, column: 1, severity: "note", message: "include '<stdio.h>' or provide a declaration of 'prinf'" },
+    ]);
+  });
+
+  it("parses Ruby errors without the method prefix", () => {
+    const output = `${tempFile(".rb")}:3:in 'Integer#/': divided by 0 (ZeroDivisionError)`;
+    expect(parseLocationDiagnostics(output)).toEqual([
+      { line: 3, column: null, severity: "error", message: "divided by 0 (ZeroDivisionError)" },
+    ]);
+  });
+
+  it("parses Bash and PHP errors", () => {
+    expect(parseLocationDiagnostics(`${tempFile(".sh")}: line 4: foo: command not found`)).toEqual([
+      { line: 4, column: null, severity: "error", message: "foo: command not found" },
+    ]);
+    expect(parseLocationDiagnostics(`PHP Warning:  Undefined variable $x in ${tempFile(".php")} on line 6`)).toEqual([
+      { line: 6, column: null, severity: "warning", message: "Warning: Undefined variable $x" },
+    ]);
+  });
+
+  it("ignores lines that do not refer to the snippet", () => {
+    expect(parseLocationDiagnostics("/usr/include/stdio.h:12:1: note: declared here\nplain output")).toEqual([]);
+  });
+});
+
+describe("parsePythonDiagnostics", () => {
+  it("locates an exception at the innermost frame in the snippet", () => {
+    const output = [
+      "Traceback (most recent call last):",
+      `  File "${tempFile(".py")}", line 5, in <module>`,
+      "    main()",
+      `  File "${tempFile(".py")}", line 2, in main`,
+      "    return 1 / 0",
+      "ZeroDivisionError: division by zero",
+    ].join("\n");
+    expect(parsePythonDiagnostics(output)).toEqual([
+      { line: 2, column: null, severity: "error", message: "ZeroDivisionError: division by zero" },
+    ]);
+  });
+
+  it("parses syntax errors and warnings printed with their location", () => {
+    const output = [
+      `  File "${tempFile(".py")}", line 1`,
+      "    def broken(:",
+      "               ^",
+      "SyntaxError: invalid syntax",
+      `${tempFile(".py")}:3: DeprecationWarning: datetime.utcnow() is deprecated`,
+    ].join("\n");
+    expect(parsePythonDiagnostics(output)).toEqual([
+      { line: 1, column: null, severity: "error", message: "SyntaxError: invalid syntax" },
+      { line: 3, column: null, severity: "warning", message: "DeprecationWarning: datetime.utcnow() is deprecated" },
+    ]);
+  });
+});
+
+describe("parseJavaScriptDiagnostics", () => {
+  it("locates an uncaught error at its first frame in the snippet", () => {
+    const output = [
+      `${tempFile(".js")}:2`,
+      "  throw new TypeError('bad input');",
+      "  ^",
+      "",
+      "TypeError: bad input",
+      "    at check (node:internal/validators:1:1)",
+      `    at main (${tempFile(".js")}:2:9)`,
+    ].join("\n");
+    expect(parseJavaScriptDiagnostics(output)).toEqual([
+      { line: 2, column: 9, severity: "error", message: "TypeError: bad input" },
+    ]);
+  });
+
+  it("locates a syntax error at the line printed above it", () => {
+    const output = [`${tempFile(".js")}:4`, "let x = ;", "        ^", "", "SyntaxError: Unexpected token ';'"].join(
+      "\n",
+    );
+    expect(parseJavaScriptDiagnostics(output)).toEqual([
+      { line: 4, column: null, severity: "error", message: "SyntaxError: Unexpected token ';'" },
+    ]);
+  });
+
+  it("parses Deno's uncaught errors", () => {
+    const output = [`error: Uncaught (in promise) Error: boom`, `    at ${tempFile(".ts")}:3:7`].join("\n");
+    expect(parseJavaScriptDiagnostics(output)).toEqual([
+      { line: 3, column: 7, severity: "error", message: "Error: boom" },
+    ]);
+  });
+});
+
+describe("parseRustDiagnostics", () => {
+  it("parses compiler errors with their codes and skips the summary", () => {
+    const output = [
+      "error[E0425]: cannot find value `y` in this scope",
+      ` --> ${tempFile(".rs")}:3:20`,
+      "warning: unused variable: `x`",
+      ` --> ${tempFile(".rs")}:2:9`,
+      "error: aborting due to 1 previous error",
+    ].join("\n");
+    expect(parseRustDiagnostics(output)).toEqual([
+      { line: 3, column: 20, severity: "error", message: "cannot find value `y` in this scope [E0425]" },
+      { line: 2, column: 9, severity: "warning", message: "unused variable: `x`" },
+    ]);
+  });
+
+  it("parses panics in both the old and the new format", () => {
+    const oldFormat = `thread 'main' panicked at 'index out of bounds', ${tempFile(".rs")}:4:5`;
+    const newFormat = `thread 'main' panicked at ${tempFile(".rs")}:6:13:\nattempt to divide by zero`;
+    expect(parseRustDiagnostics(`${oldFormat}\n${newFormat}`)).toEqual([
+      { line: 4, column: 5, severity: "error", message: "panicked: index out of bounds" },
+      { line: 6, column: 13, severity: "error", message: "panicked: attempt to divide by zero" },
+    ]);
+  });
+});
+
+describe("parseGoDiagnostics", () => {
+  it("parses compile errors and locates panics at their frame in the snippet", () => {
+    const output = [
+      `./${ID}.go:5:2: declared and not used: x`,
+      "panic: runtime error: index out of range [3] with length 1",
+      "",
+      "goroutine 1 [running]:",
+      "main.main()",
+      `\t${tempFile(".go")}:9 +0x1d`,
+    ].join("\n");
+    expect(parseGoDiagnostics(output)).toEqual([
+      { line: 5, column: 2, severity: "error", message: "declared and not used: x" },
+      {
+        line: 9,
+        column: null,
+        severity: "error",
+        message: "panic: runtime error: index out of range [3] with length 1",
+      },
+    ]);
+  });
+});
+
+describe("parseJavaDiagnostics", () => {
+  it("parses javac errors and locates exceptions at their frame in the snippet", () => {
+    const output = [
+      `${tempFile(".java")}:3: error: cannot find symbol`,
+      'Exception in thread "main" java.lang.ArithmeticException: / by zero',
+      `\tat Main.main(${ID}.java:7)`,
+    ].join("\n");
+    expect(parseJavaDiagnostics(output)).toEqual([
+      { line: 3, column: null, severity: "error", message: "cannot find symbol" },
+      { line: 7, column: null, severity: "error", message: "java.lang.ArithmeticException: / by zero" },
+    ]);
+  });
+});
+
+describe("extractDiagnostics", () => {
+  it("drops an error printed to both streams and falls back to the location parser", () => {
+    const error = `${tempFile(".lua")}:2: attempt to call a nil value (global 'prnt')`;
+    expect(extractDiagnostics(undefined, error, error)).toEqual([
+      { line: 2, column: null, severity: "error", message: "attempt to call a nil value (global 'prnt')" },
+    ]);
+  });
+});
+
+describe("quoteSourceLine", () => {
+  it("marks the offending line among its neighbours", () => {
+    const code = Array.from({ length: 10 }, (_, index) => `line ${index + 1}`).join("\n");
+    expect(quoteSourceLine(code, 10)).toBe("   9 | line 9\n> 10 | line 10");
+    expect(quoteSourceLine(code, 11)).toBe("");
+  });
+});
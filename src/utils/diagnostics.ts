@@ -0,0 +1,331 @@
+// utils/diagnostics.ts
+
+/**
+ * A problem reported by a compiler or runtime, located in the user's snippet.
+ */
+export interface Diagnostic {
+  line: number; // 1-based line in the snippet
+  column: number | null; // 1-based column, when the tool reports one
+  severity: DiagnosticSeverity;
+  message: string; // Temp file paths are already rewritten to refer to the snippet
+}
+
+export type DiagnosticSeverity = "error" | "warning" | "note";
+
+/**
+ * Extracts diagnostics from the output of a run.
+ * @param output The program's stderr and stdout, in that order.
+ * @returns The diagnostics found, in output order.
+ */
+export type DiagnosticParser = (output: string) => Diagnostic[];
+
+// Source files are written to the temp directory as `<uuid><extension>`; tools print them with or without a directory
+const TEMP_FILE = String.raw`(?:[^\s"'()]*\/)?[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\.\w+`;
+
+// `file:line[:column]: [severity:] message` (GCC, Clang, Go, javac, Lua, Ruby and Python warnings)
+const LOCATION_LINE = new RegExp(
+  String.raw`(?:^|\s)${TEMP_FILE}:(\d+)(?::(\d+))?:\s*(?:(fatal error|error|warning|note):\s*)?(.+)$`,
+);
+// `file: line N: message` (Bash)
+const SHELL_LOCATION_LINE = new RegExp(String.raw`^${TEMP_FILE}: line (\d+):\s*(.+)$`);
+// `[PHP ]Fatal error: message in file on line N` (PHP)
+const PHP_LOCATION_LINE = new RegExp(
+  String.raw`^(?:PHP )?(Fatal error|Parse error|Warning|Notice|Deprecated):\s*(.+?) in ${TEMP_FILE}(?::\d+)? on line (\d+)`,
+);
+
+const PYTHON_FRAME = new RegExp(String.raw`^\s*File "${TEMP_FILE}", line (\d+)`);
+const JAVASCRIPT_ERROR =
+  /^(?:error: )?(?:Uncaught (?:\(in promise\) )?)?((?:[A-Z]\w*)?(?:Error|Exception)(?: \[\w+\])?:.*)$/;
+const JAVASCRIPT_FRAME = new RegExp(String.raw`${TEMP_FILE}:(\d+):(\d+)`);
+const JAVASCRIPT_HEADER = new RegExp(String.raw`^${TEMP_FILE}:(\d+)$`);
+const RUST_HEADER = /^(error|warning)(\[\w+\])?: (.+)$/;
+const RUST_LOCATION = new RegExp(String.raw`^\s*--> ${TEMP_FILE}:(\d+):(\d+)`);
+const RUST_PANIC = new RegExp(String.raw`panicked at (?:'(.*)', )?${TEMP_FILE}:(\d+):(\d+):?$`);
+const GO_PANIC = /^panic: (.+)$/;
+const GO_FRAME = new RegExp(String.raw`^\s+${TEMP_FILE}:(\d+)`);
+const JAVA_EXCEPTION = /^Exception in thread "[^"]*" (.+)$/;
+const JAVA_FRAME = new RegExp(String.raw`\(${TEMP_FILE}:(\d+)\)`);
+
+/**
+ * Rewrites temp file paths in a message so they refer to the snippet (e.g., "line 5 of your snippet").
+ * @param text The text printed by a compiler or runtime.
+ * @returns The text with every temp file reference rewritten.
+ */
+export function rewriteTempPaths(text: string): string {
+  return text
+    .replace(new RegExp(String.raw`File "${TEMP_FILE}", line (\d+)`, "g"), "line $1 of your snippet")
+    .replace(new RegExp(String.raw`${TEMP_FILE}:(\d+)(?::\d+)?`, "g"), "line $1 of your snippet")
+    .replace(new RegExp(TEMP_FILE, "g"), "your snippet");
+}
+
+/**
+ * Rewrites the line numbers of temp file references in output, e.g. to refer to the lines of a wrapped snippet.
+ * @param text The text printed by a compiler or runtime.
+ * @param mapLine Maps a 1-based line of the temp file to the line to show instead.
+ * @returns The text with every line reference to the temp file mapped.
+ */
+export function remapTempFileLines(text: string, mapLine: (line: number) => number): string {
+  return text
+    .replace(
+      new RegExp(String.raw`(File "${TEMP_FILE}", line )(\d+)`, "g"),
+      (_match, prefix: string, line: string) => `${prefix}${mapLine(Number(line))}`,
+    )
+    .replace(
+      new RegExp(String.raw`(${TEMP_FILE}:)(\d+)`, "g"),
+      (_match, prefix: string, line: string) => `${prefix}${mapLine(Number(line))}`,
+    );
+}
+
+/**
+ * Creates a diagnostic, rewriting temp paths in its message.
+ */
+function createDiagnostic(
+  line: string | number,
+  column: string | number | null | undefined,
+  severity: DiagnosticSeverity,
+  message: string,
+): Diagnostic {
+  return {
+    line: Number(line),
+    column: column !== null && column !== undefined ? Number(column) : null,
+    severity,
+    message: rewriteTempPaths(message.trim()),
+  };
+}
+
+/**
+ * Parses one-line diagnostics that start with (or contain) the snippet location, as printed by most compilers and
+ * interpreters. Used for languages without a dedicated parser, including custom runners.
+ */
+export const parseLocationDiagnostics: DiagnosticParser = (output) => {
+  const diagnostics: Diagnostic[] = [];
+  output.split("\n").forEach((line) => {
+    const php = line.match(PHP_LOCATION_LINE);
+    if (php) {
+      const severity = /error/i.test(php[1]) ? "error" : "warning";
+      diagnostics.push(createDiagnostic(php[3], null, severity, `${php[1]}: ${php[2]}`));
+      return;
+    }
+    const shell = line.match(SHELL_LOCATION_LINE);
+    if (shell) {
+      diagnostics.push(createDiagnostic(shell[1], null, "error", shell[2]));
+      return;
+    }
+    const location = line.match(LOCATION_LINE);
+    if (location) {
+      const [, lineNumber, column, rawSeverity, rawMessage] = location;
+      // Ruby prefixes runtime errors with the method they happened in (e.g., "in '<main>': ")
+      const message = rawMessage.replace(/^in [`'][^']*':\s*/, "");
+      let severity: DiagnosticSeverity = "error";
+      if (rawSeverity === "warning" || /^\w*Warning: /.test(message)) {
+        severity = "warning";
+      } else if (rawSeverity === "note") {
+        severity = "note";
+      }
+      diagnostics.push(createDiagnostic(lineNumber, column, severity, message));
+    }
+  });
+  return diagnostics;
+};
+
+/**
+ * Parses Python tracebacks, locating each exception at the innermost frame that is in the snippet.
+ * Warnings printed with their location (e.g., `DeprecationWarning`) are parsed as well.
+ */
+export const parsePythonDiagnostics: DiagnosticParser = (output) => {
+  const diagnostics: Diagnostic[] = [];
+  let frameLine: string | null = null;
+
+  output.split("\n").forEach((line) => {
+    const frame = line.match(PYTHON_FRAME);
+    if (frame) {
+      frameLine = frame[1];
+      return;
+    }
+    // The exception is the first unindented line after the frames; chained tracebacks repeat the pattern
+    if (frameLine && line.trim() && !/^\s/.test(line) && !line.startsWith("Traceback")) {
+      diagnostics.push(createDiagnostic(frameLine, null, "error", line));
+      frameLine = null;
+    }
+  });
+
+  const warnings = parseLocationDiagnostics(output).filter((diagnostic) => diagnostic.severity === "warning");
+  return [...diagnostics, ...warnings];
+};
+
+/**
+ * Parses uncaught errors from Node.js, Deno and other V8-based runtimes, locating them at the first stack frame in
+ * the snippet, or at the source line printed above a syntax error.
+ */
+export const parseJavaScriptDiagnostics: DiagnosticParser = (output) => {
+  const diagnostics: Diagnostic[] = [];
+  const lines = output.split("\n");
+  let headerLine: string | null = null;
+
+  lines.forEach((line, index) => {
+    const header = line.match(JAVASCRIPT_HEADER);
+    if (header) {
+      headerLine = header[1];
+      return;
+    }
+    const error = line.match(JAVASCRIPT_ERROR);
+    if (!error) {
+      return;
+    }
+    const frame = lines
+      .slice(index + 1)
+      .find((stackLine) => JAVASCRIPT_FRAME.test(stackLine))
+      ?.match(JAVASCRIPT_FRAME);
+    if (frame) {
+      diagnostics.push(createDiagnostic(frame[1], frame[2], "error", error[1]));
+    } else if (headerLine) {
+      diagnostics.push(createDiagnostic(headerLine, null, "error", error[1]));
+    }
+    headerLine = null;
+  });
+  return diagnostics;
+};
+
+/**
+ * Parses rustc errors and warnings (whose location follows on a ` --> ` line) and runtime panics.
+ */
+export const parseRustDiagnostics: DiagnosticParser = (output) => {
+  const diagnostics: Diagnostic[] = [];
+  const lines = output.split("\n");
+
+  lines.forEach((line, index) => {
+    const header = line.match(RUST_HEADER);
+    if (header) {
+      // Summary lines such as "aborting due to 2 previous errors" have no location and are skipped
+      const location = lines[index + 1]?.match(RUST_LOCATION);
+      if (location) {
+        const [, severity, code, message] = header;
+        diagnostics.push(
+          createDiagnostic(
+            location[1],
+            location[2],
+            severity as DiagnosticSeverity,
+            `${message}${code ? ` ${code}` : ""}`,
+          ),
+        );
+      }
+      return;
+    }
+    const panic = line.match(RUST_PANIC);
+    if (panic) {
+      // Newer toolchains print the panic message on the following line
+      const message = panic[1] ?? lines[index + 1] ?? "";
+      diagnostics.push(createDiagnostic(panic[2], panic[3], "error", `panicked: ${message}`));
+    }
+  });
+  return diagnostics;
+};
+
+/**
+ * Parses Go compile errors and runtime panics, locating panics at the first stack frame in the snippet.
+ */
+export const parseGoDiagnostics: DiagnosticParser = (output) => {
+  const diagnostics = parseLocationDiagnostics(output);
+  const lines = output.split("\n");
+
+  lines.forEach((line, index) => {
+    const panic = line.match(GO_PANIC);
+    if (!panic) {
+      return;
+    }
+    const frame = lines
+      .slice(index + 1)
+      .find((stackLine) => GO_FRAME.test(stackLine))
+      ?.match(GO_FRAME);
+    if (frame) {
+      diagnostics.push(createDiagnostic(frame[1], null, "error", `panic: ${panic[1]}`));
+    }
+  });
+  return diagnostics;
+};
+
+/**
+ * Parses javac errors and uncaught exceptions, locating exceptions at the first stack frame in the snippet.
+ */
+export const parseJavaDiagnostics: DiagnosticParser = (output) => {
+  const diagnostics = parseLocationDiagnostics(output);
+  const lines = output.split("\n");
+
+  lines.forEach((line, index) => {
+    const exception = line.match(JAVA_EXCEPTION);
+    if (!exception) {
+      return;
+    }
+    const frame = lines
+      .slice(index + 1)
+      .find((stackLine) => JAVA_FRAME.test(stackLine))
+      ?.match(JAVA_FRAME);
+    if (frame) {
+      diagnostics.push(createDiagnostic(frame[1], null, "error", exception[1]));
+    }
+  });
+  return diagnostics;
+};
+
+/**
+ * Extracts the diagnostics of a run, dropping duplicates (e.g., an error printed to both streams).
+ * @param parser The language's parser; defaults to the generic location parser.
+ * @param stderr The program's standard error.
+ * @param stdout The program's standard output, which some runtimes (e.g., PHP) print errors to.
+ * @returns The unique diagnostics.
+ */
+export function extractDiagnostics(parser: DiagnosticParser | undefined, stderr: string, stdout: string): Diagnostic[] {
+  const seen = new Set<string>();
+  return (parser ?? parseLocationDiagnostics)(`${stderr}\n${stdout}`).filter((diagnostic) => {
+    const key = `${diagnostic.line}:${diagnostic.column}:${diagnostic.message}`;
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Describes where a diagnostic is (e.g., "Line 5, column 3").
+ */
+export function formatDiagnosticLocation(diagnostic: Diagnostic): string {
+  return diagnostic.column !== null
+    ? `Line ${diagnostic.line}, column ${diagnostic.column}`
+    : `Line ${diagnostic.line}`;
+}
+
+/**
+ * Formats diagnostics as plain text, one per line, for copying or showing in the form.
+ * @param diagnostics The diagnostics to format.
+ * @returns The text (e.g., "error: Line 5, column 3: undefined: x").
+ */
+export function formatDiagnostics(diagnostics: Diagnostic[]): string {
+  return diagnostics
+    .map((diagnostic) => `${diagnostic.severity}: ${formatDiagnosticLocation(diagnostic)}: ${diagnostic.message}`)
+    .join("\n");
+}
+
+/**
+ * Quotes the snippet around a diagnostic's line, marking the offending line with `>`.
+ * @param code The snippet.
+ * @param line The 1-based line to quote.
+ * @param contextLines Lines to include before and after the offending line.
+ * @returns The numbered source lines, or an empty string if the line is outside the snippet.
+ */
+export function quoteSourceLine(code: string, line: number, contextLines: number = 1): string {
+  const lines = code.split("\n");
+  if (line < 1 || line > lines.length) {
+    return "";
+  }
+  const first = Math.max(1, line - contextLines);
+  const last = Math.min(lines.length, line + contextLines);
+  const width = String(last).length;
+  return lines
+    .slice(first - 1, last)
+    .map((text, offset) => {
+      const number = first + offset;
+      return `${number === line ? ">" : " "} ${String(number).padStart(width)} | ${text}`;
+    })
+    .join("\n");
+}
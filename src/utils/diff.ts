@@ -0,0 +1,89 @@
+// utils/diff.ts
+
+/**
+ * A line in a line-level diff.
+ */
+export interface DiffLine {
+  type: "equal" | "added" | "removed";
+  text: string;
+}
+
+// Above this many line pairs the LCS table gets too large, so a positional comparison is used instead
+const MAX_LCS_CELLS = 2_000_000;
+
+/**
+ * Computes a line-level diff between two texts using the longest common subsequence of their lines.
+ * @param before The original text.
+ * @param after The changed text.
+ * @returns The diff lines, in order.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    const lines: DiffLine[] = [];
+    for (let i = 0; i < Math.max(a.length, b.length); i++) {
+      if (a[i] === b[i]) {
+        lines.push({ type: "equal", text: a[i] });
+        continue;
+      }
+      if (i < a.length) {
+        lines.push({ type: "removed", text: a[i] });
+      }
+      if (i < b.length) {
+        lines.push({ type: "added", text: b[i] });
+      }
+    }
+    return lines;
+  }
+
+  // lcs[i][j] holds the LCS length of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: "equal", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: "removed", text: a[i++] });
+    } else {
+      lines.push({ type: "added", text: b[j++] });
+    }
+  }
+  while (i < a.length) {
+    lines.push({ type: "removed", text: a[i++] });
+  }
+  while (j < b.length) {
+    lines.push({ type: "added", text: b[j++] });
+  }
+  return lines;
+}
+
+/**
+ * Formats diff lines in unified style (' ', '-' and '+' prefixes), suitable for a ```diff code block.
+ * @param lines The diff lines.
+ * @returns The formatted diff.
+ */
+export function formatDiff(lines: DiffLine[]): string {
+  const prefixes: Record<DiffLine["type"], string> = { equal: " ", added: "+", removed: "-" };
+  return lines.map((line) => `${prefixes[line.type]} ${line.text}`).join("\n");
+}
+
+/**
+ * Checks whether a diff contains any changes.
+ * @param lines The diff lines.
+ * @returns True if any line was added or removed.
+ */
+export function hasChanges(lines: DiffLine[]): boolean {
+  return lines.some((line) => line.type !== "equal");
+}
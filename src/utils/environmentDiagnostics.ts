@@ -0,0 +1,199 @@
+// utils/environmentDiagnostics.ts
+import * as os from "os";
+import * as path from "path";
+import { formatDuration, toCodeBlock } from "./formatting";
+import { quoteShellArgument } from "./inputParsing";
+import { LanguageDefinition, loadLanguageDefinitions } from "./languages";
+import { LoginShellResult, expandInstallPattern, parseVersion, runLoginShellScript } from "./toolchains";
+
+/**
+ * What the login shell used for detection looks like: its PATH and anything its rc files print.
+ */
+export interface ShellDiagnostics {
+  shellPath: string;
+  resolvedPath: string[]; // PATH after the login shell has sourced the user's profile
+  inheritedPath: string[]; // PATH of the extension process itself, which has no profile applied
+  stderr: string; // Noise printed by rc files
+  exitCode: number | null;
+  durationMs: number; // Startup time of the login shell
+  error: string | null;
+}
+
+/**
+ * How detection went for one language or custom runner.
+ */
+export interface LanguageDiagnostics {
+  name: string;
+  value: string;
+  commands: string[]; // The candidate commands that were looked up
+  which: LoginShellResult; // Output of `which -a` for the candidate commands
+  installPaths: string[]; // Installations found through the language's version manager patterns
+  defaultExecutable: string | null; // The installation detection would pick, if any
+  versionOutput: string | null; // Output of the default installation's version command
+  version: string | null;
+  durationMs: number; // Time to look up the commands and read the version
+}
+
+/**
+ * The full environment report shown by the Diagnose Environment command.
+ */
+export interface EnvironmentReport {
+  generatedAt: number; // In milliseconds since the epoch
+  platform: string; // e.g. 'darwin 24.1.0 (arm64)'
+  shell: ShellDiagnostics;
+  languages: LanguageDiagnostics[];
+  customRunnerErrors: string[];
+}
+
+const SHELL_TIMEOUT_MS = 15000;
+
+/**
+ * Splits a PATH value into its entries.
+ */
+function splitPath(value: string | undefined): string[] {
+  return (value ?? "").split(path.delimiter).filter(Boolean);
+}
+
+/**
+ * Runs a bare login shell to see the PATH it resolves and the noise its rc files print.
+ */
+async function diagnoseShell(): Promise<ShellDiagnostics> {
+  const result = await runLoginShellScript(`printf '%s' "$PATH"`, SHELL_TIMEOUT_MS);
+  return {
+    shellPath: result.shellPath,
+    resolvedPath: splitPath(result.stdout.trim()),
+    inheritedPath: splitPath(process.env.PATH),
+    stderr: result.stderr,
+    exitCode: result.exitCode,
+    durationMs: result.durationMs,
+    error: result.error,
+  };
+}
+
+/**
+ * Repeats the detection of one language step by step, keeping the raw output of each step.
+ */
+async function diagnoseLanguage(definition: LanguageDefinition): Promise<LanguageDiagnostics> {
+  const startedAt = Date.now();
+  const which = await runLoginShellScript(
+    `which -a ${definition.commands.map(quoteShellArgument).join(" ")}`,
+    SHELL_TIMEOUT_MS,
+  );
+  const pathExecutables = which.stdout
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => path.isAbsolute(line));
+  const installPaths = (definition.installPatterns ?? []).flatMap((pattern) => expandInstallPattern(pattern));
+  // Detection prefers the registry order of commands over PATH order
+  const defaultExecutable =
+    definition.commands
+      .map((command) => pathExecutables.find((executablePath) => path.basename(executablePath) === command))
+      .find(Boolean) ??
+    installPaths[0] ??
+    null;
+
+  let versionOutput: string | null = null;
+  if (defaultExecutable) {
+    const versionCommand = [defaultExecutable, ...(definition.versionArgs ?? ["--version"])]
+      .map(quoteShellArgument)
+      .join(" ");
+    const versionResult = await runLoginShellScript(`${versionCommand} 2>&1 </dev/null | head -n 5`, SHELL_TIMEOUT_MS);
+    versionOutput = versionResult.error ?? versionResult.stdout.trim();
+  }
+
+  return {
+    name: definition.name,
+    value: definition.value,
+    commands: definition.commands,
+    which,
+    installPaths,
+    defaultExecutable,
+    versionOutput,
+    version: versionOutput ? parseVersion(versionOutput) : null,
+    durationMs: Date.now() - startedAt,
+  };
+}
+
+/**
+ * Collects an environment report: the login shell used for detection, and how detection goes for every built-in
+ * language and custom runner. Languages are diagnosed in parallel, so their times overlap.
+ * @returns The report.
+ */
+export async function diagnoseEnvironment(): Promise<EnvironmentReport> {
+  const { definitions, errors } = loadLanguageDefinitions();
+  const [shell, languages] = await Promise.all([diagnoseShell(), Promise.all(definitions.map(diagnoseLanguage))]);
+  return {
+    generatedAt: Date.now(),
+    platform: `${os.platform()} ${os.release()} (${os.arch()})`,
+    shell,
+    languages,
+    customRunnerErrors: errors,
+  };
+}
+
+/**
+ * Formats the output of a command for the report, noting when there was none.
+ */
+function formatOutput(output: string): string {
+  return output.trim() ? toCodeBlock(output.trim()) : "_None._";
+}
+
+/**
+ * Formats an environment report as Markdown, for display and for pasting into bug reports.
+ * @param report The report.
+ * @returns The Markdown document.
+ */
+export function formatEnvironmentReport(report: EnvironmentReport): string {
+  const { shell } = report;
+  const foundCount = report.languages.filter((language) => language.defaultExecutable).length;
+  const sections = [
+    "# Environment Diagnostics",
+    [
+      `- **Generated:** ${new Date(report.generatedAt).toLocaleString()}`,
+      `- **Platform:** ${report.platform}`,
+      `- **Languages found:** ${foundCount} of ${report.languages.length}`,
+    ].join("\n"),
+    "## Login Shell",
+    [
+      `- **Shell:** \`${shell.shellPath} -l\``,
+      `- **Startup time:** ${formatDuration(shell.durationMs)}`,
+      `- **Exit code:** ${shell.exitCode ?? "none"}${shell.error ? ` (${shell.error})` : ""}`,
+    ].join("\n"),
+    "### Resolved PATH",
+    formatOutput(shell.resolvedPath.join("\n")),
+    "### Extension PATH (without the profile)",
+    formatOutput(shell.inheritedPath.join("\n")),
+    "### Shell Startup Output (stderr)",
+    formatOutput(shell.stderr),
+    "## Languages",
+  ];
+
+  report.languages.forEach((language) => {
+    sections.push(
+      `### ${language.defaultExecutable ? "✅" : "❌"} ${language.name}`,
+      [
+        `- **Commands:** ${language.commands.map((command) => `\`${command}\``).join(", ")}`,
+        `- **Default executable:** ${language.defaultExecutable ? `\`${language.defaultExecutable}\`` : "not found"}`,
+        `- **Version:** ${language.version ?? "unknown"}`,
+        `- **Detection time:** ${formatDuration(language.durationMs)}`,
+        `- **\`which\` exit code:** ${language.which.exitCode ?? "none"}${language.which.error ? ` (${language.which.error})` : ""}`,
+      ].join("\n"),
+      "**`which -a` output**",
+      formatOutput(language.which.stdout),
+    );
+    if (language.which.stderr.trim()) {
+      sections.push("**stderr**", formatOutput(language.which.stderr));
+    }
+    if (language.installPaths.length > 0) {
+      sections.push("**Version manager installations**", formatOutput(language.installPaths.join("\n")));
+    }
+    if (language.versionOutput) {
+      sections.push("**Version output**", formatOutput(language.versionOutput));
+    }
+  });
+
+  if (report.customRunnerErrors.length > 0) {
+    sections.push("## Custom Runner Errors", formatOutput(report.customRunnerErrors.join("\n")));
+  }
+  return sections.join("\n\n");
+}
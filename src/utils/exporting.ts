@@ -0,0 +1,185 @@
+// utils/exporting.ts
+import * as fs from "fs";
+import * as path from "path";
+import { CodeExecutionResult, DetectedLanguage } from "./codeRunner";
+import { formatDuration, formatMemory, toCodeBlock } from "./formatting";
+import { LanguageDefinition, getLanguageDefinition } from "./languages";
+import { ProjectFile, ProjectLayout, addShebang, getJavaClassName } from "./projectTemplates";
+import { stripAnsi } from "./richOutput";
+import { formatSandboxReport } from "./sandbox";
+
+/**
+ * A run to export as Markdown: the code, its inputs and how the run went.
+ */
+export interface RunExport {
+  language: string;
+  languageName: string;
+  code: string;
+  stdin: string;
+  result: CodeExecutionResult;
+}
+
+/**
+ * Formats a run as one Markdown document: the code, the command, the input and output streams and the run metadata.
+ * @param run The run.
+ * @returns The Markdown, ready to paste into an issue or a note.
+ */
+export function formatRunAsMarkdown(run: RunExport): string {
+  const { result } = run;
+  const sections = [`## ${run.languageName}`, toCodeBlock(run.code, run.language)];
+  if (result.command) {
+    sections.push("**Command**", toCodeBlock(result.command, "sh"));
+  }
+  if (run.stdin) {
+    sections.push("**Standard Input**", toCodeBlock(run.stdin.trimEnd()));
+  }
+  sections.push("**Standard Output**", toCodeBlock(stripAnsi(result.stdout).trimEnd() || "No standard output."));
+  if (result.stderr) {
+    sections.push("**Standard Error**", toCodeBlock(stripAnsi(result.stderr).trimEnd()));
+  }
+
+  const details = [
+    result.exitCode !== null ? `- **Exit code:** ${result.exitCode}` : null,
+    result.signal ? `- **Signal:** ${result.signal}` : null,
+    result.error ? `- **Error:** ${result.error}` : null,
+    result.installDurationMs !== undefined ? `- **Install time:** ${formatDuration(result.installDurationMs)}` : null,
+    result.compileCached ? "- **Compile time:** Cached build" : null,
+    result.compileDurationMs !== null ? `- **Compile time:** ${formatDuration(result.compileDurationMs)}` : null,
+    result.runDurationMs !== null ? `- **Run time:** ${formatDuration(result.runDurationMs)}` : null,
+    result.peakMemoryKb !== null ? `- **Peak memory:** ${formatMemory(result.peakMemoryKb)}` : null,
+    result.sandbox ? `- **Sandbox:** ${formatSandboxReport(result.sandbox)}` : null,
+  ].filter((line): line is string => line !== null);
+  if (details.length > 0) {
+    sections.push(details.join("\n"));
+  }
+  return sections.join("\n\n");
+}
+
+/**
+ * Looks up the definition of the language of an export.
+ * @throws {Error} If the language is not registered.
+ */
+function requireLanguageDefinition(language: string): LanguageDefinition {
+  const definition = getLanguageDefinition(language);
+  if (!definition) {
+    throw new Error(`Unsupported language: ${language}`);
+  }
+  return definition;
+}
+
+/**
+ * Gets the code to export: in snippet mode, with the scaffolding the run added, so the export runs on its own.
+ * @param language The language value.
+ * @param code The code in the form.
+ * @param wrapSnippet Whether snippet mode is on.
+ * @returns The code to write.
+ */
+export function prepareExportCode(language: string, code: string, wrapSnippet: boolean): string {
+  const definition = getLanguageDefinition(language);
+  return (wrapSnippet && definition?.wrapSnippet?.(code)?.code) || code;
+}
+
+/**
+ * Suggests a file name for exported code, e.g. `main.py`, or the class name for Java.
+ * @param language The language value.
+ * @param code The code to export.
+ * @returns The file name.
+ */
+export function getDefaultFileName(language: string, code: string): string {
+  const extension = getLanguageDefinition(language)?.extension ?? "";
+  return extension === ".java" ? `${getJavaClassName(code)}.java` : `main${extension}`;
+}
+
+/**
+ * Turns a name into one that works as a directory, Go module, npm package and Cargo package name.
+ * @param name The name entered by the user.
+ * @returns The name in lowercase, with anything other than letters, digits, `-` and `_` replaced by `-`.
+ */
+export function toProjectName(name: string): string {
+  return (
+    name
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9_-]+/g, "-")
+      .replace(/^[-_]+|[-_]+$/g, "") || "snippet"
+  );
+}
+
+/**
+ * Writes code to a file, with a shebang and made executable for languages that have one.
+ * @param language The language value.
+ * @param code The code to write, as returned by `prepareExportCode`.
+ * @param filePath The file to create.
+ * @throws {Error} If the file already exists or cannot be written.
+ */
+export async function saveCodeAsFile(language: string, code: string, filePath: string): Promise<void> {
+  const { shebang } = requireLanguageDefinition(language);
+  try {
+    await fs.promises.writeFile(filePath, addShebang(code, shebang), { flag: "wx", mode: shebang ? 0o755 : 0o644 });
+  } catch (writeError: unknown) {
+    if ((writeError as NodeJS.ErrnoException).code === "EEXIST") {
+      throw new Error(`${filePath} already exists.`);
+    }
+    throw writeError;
+  }
+}
+
+/**
+ * Lays out a project of a single file, run with the language's own compile and run steps, for languages without a
+ * project template (e.g., Ruby and custom runners).
+ */
+function buildSingleFileProject(
+  definition: LanguageDefinition,
+  language: DetectedLanguage,
+  code: string,
+): ProjectLayout {
+  const fileName = `main${definition.extension}`;
+  const command = language.command || definition.commands[0];
+  const context = { command, executable: command, filePath: fileName, outputPath: "./main", directory: "." };
+  const runCommand = definition.run(context);
+  return {
+    files: [{ path: fileName, contents: addShebang(code, definition.shebang), executable: !!definition.shebang }],
+    runCommand: definition.compile ? `${definition.compile(context)} && ${runCommand}` : runCommand,
+  };
+}
+
+/**
+ * Creates a runnable project for code in a new directory: the files its toolchain expects (e.g., `go.mod` and
+ * `main.go`) and a README with the command that runs it.
+ * @param language The detected language, whose version is used in manifests such as `go.mod`.
+ * @param code The code to export, as returned by `prepareExportCode`.
+ * @param parentDirectory The directory to create the project in.
+ * @param name The project name, which is also the name of its directory.
+ * @returns The path of the project directory.
+ * @throws {Error} If the directory already exists and is not empty, or the files cannot be written.
+ */
+export async function exportProject(
+  language: DetectedLanguage,
+  code: string,
+  parentDirectory: string,
+  name: string,
+): Promise<string> {
+  const definition = requireLanguageDefinition(language.value);
+  const projectName = toProjectName(name);
+  const directory = path.join(parentDirectory, projectName);
+  if (fs.existsSync(directory) && fs.readdirSync(directory).length > 0) {
+    throw new Error(`${directory} already exists and is not empty.`);
+  }
+
+  const layout = definition.project
+    ? definition.project(code, { name: projectName, version: language.version ?? null, shebang: definition.shebang })
+    : buildSingleFileProject(definition, language, code);
+  const readme: ProjectFile = {
+    path: "README.md",
+    contents: `# ${projectName}\n\nExported from Code Runner.\n\n## Run\n\n${toCodeBlock(layout.runCommand, "sh")}\n`,
+  };
+
+  for (const file of [...layout.files, readme]) {
+    const filePath = path.join(directory, file.path);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, file.contents.endsWith("\n") ? file.contents : `${file.contents}\n`, {
+      mode: file.executable ? 0o755 : 0o644,
+    });
+  }
+  return directory;
+}
@@ -0,0 +1,130 @@
+// utils/formatters.ts
+import { spawn } from "child_process";
+import { quoteShellArgument } from "./inputParsing";
+import { getLanguageDefinition } from "./languages";
+import { killProcessTree } from "./processTree";
+import { findExecutables } from "./toolchains";
+
+/**
+ * A code formatter that reads code on stdin and prints the formatted code on stdout.
+ */
+export interface FormatterDefinition {
+  name: string;
+  command: string; // Executable looked up on PATH during detection
+  languages: string[]; // Values of the languages it formats
+  args: (fileName: string) => string[]; // Arguments for formatting stdin; the file name tells it the language
+}
+
+/**
+ * A formatter found on the login shell's PATH.
+ */
+export interface DetectedFormatter {
+  name: string;
+  command: string;
+  executablePath: string;
+  languages: string[];
+}
+
+/**
+ * The outcome of formatting code: the formatted code, or the formatter's error message.
+ */
+export type FormatResult = { code: string } | { error: string };
+
+const FORMAT_TIMEOUT_MS = 15000;
+
+// Formatters earlier in the list are preferred when several format the same language
+export const FORMATTER_DEFINITIONS: FormatterDefinition[] = [
+  { name: "gofmt", command: "gofmt", languages: ["go"], args: () => [] },
+  {
+    name: "ruff format",
+    command: "ruff",
+    languages: ["python"],
+    args: (fileName) => ["format", "--stdin-filename", fileName, "-"],
+  },
+  { name: "black", command: "black", languages: ["python"], args: () => ["--quiet", "-"] },
+  {
+    name: "prettier",
+    command: "prettier",
+    languages: ["javascript", "typescript"],
+    args: (fileName) => ["--stdin-filepath", fileName],
+  },
+  { name: "rustfmt", command: "rustfmt", languages: ["rust"], args: () => ["--edition", "2021"] },
+  {
+    name: "clang-format",
+    command: "clang-format",
+    languages: ["c", "cpp"],
+    args: (fileName) => [`--assume-filename=${fileName}`],
+  },
+];
+
+/**
+ * Detects which formatters are installed, looking them up on the login shell's PATH like language runtimes.
+ * @returns The formatters found, in order of preference.
+ */
+export async function detectInstalledFormatters(): Promise<DetectedFormatter[]> {
+  const found = await findExecutables(FORMATTER_DEFINITIONS.map((definition) => definition.command));
+  return FORMATTER_DEFINITIONS.flatMap(({ name, command, languages }) => {
+    const [executablePath] = found.get(command) ?? [];
+    return executablePath ? [{ name, command, executablePath, languages }] : [];
+  });
+}
+
+/**
+ * Picks the preferred installed formatter of a language.
+ * @param formatters The installed formatters.
+ * @param language The language value.
+ * @returns The formatter, or undefined if none of the installed formatters handles the language.
+ */
+export function findFormatter(formatters: DetectedFormatter[], language: string): DetectedFormatter | undefined {
+  return formatters.find((formatter) => formatter.languages.includes(language));
+}
+
+/**
+ * Formats code with a formatter, run in the login shell so formatters that rely on the user's PATH (e.g., `prettier`
+ * needing `node`) work.
+ * @param formatter The formatter.
+ * @param language The language of the code, which picks the file name passed to the formatter.
+ * @param code The code to format.
+ * @returns The formatted code, or why the formatter failed (usually a syntax error); never rejects.
+ */
+export function formatCode(formatter: DetectedFormatter, language: string, code: string): Promise<FormatResult> {
+  const definition = FORMATTER_DEFINITIONS.find(({ name }) => name === formatter.name);
+  const fileName = `main${getLanguageDefinition(language)?.extension ?? ""}`;
+  const command = [formatter.executablePath, ...(definition?.args(fileName) ?? [])].map(quoteShellArgument).join(" ");
+  const shellPath = process.env.SHELL || "/bin/zsh";
+
+  return new Promise<FormatResult>((resolve) => {
+    // Detached, so it leads a process group and a timeout also kills the formatter the shell started
+    const child = spawn(shellPath, ["-l", "-c", command], { stdio: ["pipe", "pipe", "pipe"], detached: true });
+    let stdout = "";
+    let stderr = "";
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      killProcessTree(child, "SIGKILL");
+    }, FORMAT_TIMEOUT_MS);
+    child.stdout.on("data", (chunk: Buffer) => (stdout += chunk.toString()));
+    child.stderr.on("data", (chunk: Buffer) => (stderr += chunk.toString()));
+    child.on("error", (spawnError) => {
+      clearTimeout(timer);
+      resolve({ error: spawnError.message });
+    });
+    child.on("close", (exitCode) => {
+      clearTimeout(timer);
+      if (timedOut) {
+        resolve({ error: `${formatter.name} timed out.` });
+        return;
+      }
+      if (exitCode !== 0) {
+        resolve({ error: stderr.trim() || stdout.trim() || `${formatter.name} failed.` });
+        return;
+      }
+      // Formatters end files with a newline; keep the code's own ending
+      resolve({ code: code.endsWith("\n") ? stdout : stdout.replace(/\n$/, "") });
+    });
+    child.stdin.on("error", () => {
+      // The formatter exited before reading all of stdin; its exit code reports the problem
+    });
+    child.stdin.end(code);
+  });
+}
@@ -0,0 +1,61 @@
+// utils/formatting.ts
+import { CodeExecutionResult } from "./codeRunner";
+
+/**
+ * Formats a duration for display (e.g., '850 ms', '2.35 s').
+ * @param durationMs The duration in milliseconds.
+ * @returns The formatted duration.
+ */
+export function formatDuration(durationMs: number): string {
+  return durationMs < 1000 ? `${Math.round(durationMs)} ms` : `${(durationMs / 1000).toFixed(2)} s`;
+}
+
+/**
+ * Formats a memory size for display (e.g., '512 KB', '12.4 MB').
+ * @param sizeKb The size in kilobytes.
+ * @returns The formatted size.
+ */
+export function formatMemory(sizeKb: number): string {
+  return sizeKb < 1024 ? `${sizeKb} KB` : `${(sizeKb / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * Builds a one-line summary of how a run ended, used in toasts.
+ * @param result The execution result.
+ * @returns A summary such as 'Exit code 0 · compile 1.20 s · run 35 ms · 2.1 MB'.
+ */
+export function formatExecutionSummary(result: CodeExecutionResult): string {
+  const parts: string[] = [];
+  if (result.signal) {
+    parts.push(`Signal ${result.signal}`);
+  } else if (result.exitCode !== null) {
+    parts.push(`Exit code ${result.exitCode}`);
+  }
+  if (result.installDurationMs !== undefined) {
+    parts.push(`install ${formatDuration(result.installDurationMs)}`);
+  }
+  if (result.compileCached) {
+    parts.push("compile cached");
+  } else if (result.compileDurationMs !== null) {
+    parts.push(`compile ${formatDuration(result.compileDurationMs)}`);
+  }
+  if (result.runDurationMs !== null) {
+    parts.push(`run ${formatDuration(result.runDurationMs)}`);
+  }
+  if (result.peakMemoryKb !== null) {
+    parts.push(formatMemory(result.peakMemoryKb));
+  }
+  return parts.join(" · ");
+}
+
+/**
+ * Wraps text in a Markdown code block, using a fence longer than any backtick run inside the text.
+ * @param text The text to wrap.
+ * @param language Optional language tag used for syntax highlighting.
+ * @returns The fenced code block.
+ */
+export function toCodeBlock(text: string, language: string = ""): string {
+  const longestBacktickRun = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = "`".repeat(Math.max(3, longestBacktickRun + 1));
+  return `${fence}${language}\n${text}\n${fence}`;
+}
@@ -0,0 +1,145 @@
+// utils/history.ts
+import { LocalStorage } from "@raycast/api";
+import * as fs from "fs";
+import { v4 as uuidv4 } from "uuid";
+import { HISTORY_STORAGE_KEY } from "../constants/storageKeys";
+import { CodeExecutionResult } from "./codeRunner";
+import { getExtensionPreferences } from "./preferences";
+import { ResourceLimits } from "./resourceLimits";
+
+/**
+ * A past execution, with everything needed to view, restore or re-run it.
+ */
+export interface HistoryEntry {
+  id: string;
+  language: string; // Language value (e.g., 'python')
+  languageName: string;
+  code: string;
+  stdin: string;
+  args: string;
+  env: string;
+  interpreterPath?: string; // Executable the code ran with; missing in entries recorded by older versions
+  limits?: Partial<ResourceLimits>; // Limit overrides the run used; missing in entries recorded by older versions
+  sandboxed?: boolean; // Whether the run was sandboxed; missing in entries recorded by older versions
+  wrapSnippet?: boolean; // Whether the code ran in snippet mode; missing in entries recorded by older versions
+  result: CodeExecutionResult; // Stored with stdout and stderr cut to HISTORY_OUTPUT_LIMIT_KB each
+  outputTruncated?: boolean; // Stdout or stderr was longer than the history keeps
+  timestamp: number; // When the run started, in milliseconds since the epoch
+  durationMs: number; // Total wall time of the run, as seen by the extension
+}
+
+const DEFAULT_HISTORY_LIMIT = 50;
+// The whole history is rewritten after every run, so only the start of long output is kept
+const HISTORY_OUTPUT_LIMIT_KB = 8;
+
+/**
+ * Cuts an output stream to the size kept in the history.
+ * @returns The output, with a note where it was cut, and whether it was.
+ */
+function truncateOutput(text: string): { text: string; truncated: boolean } {
+  const limitBytes = HISTORY_OUTPUT_LIMIT_KB * 1024;
+  if (Buffer.byteLength(text) <= limitBytes) {
+    return { text, truncated: false };
+  }
+  const kept = Buffer.from(text).subarray(0, limitBytes).toString("utf-8");
+  return { text: `${kept}\n[… output truncated at ${HISTORY_OUTPUT_LIMIT_KB} KB in history]\n`, truncated: true };
+}
+
+/**
+ * Reads the maximum number of history entries to keep from the preferences.
+ * @returns The retention cap; 0 disables history.
+ */
+export function getHistoryLimit(): number {
+  const limit = Number(getExtensionPreferences().historyLimit);
+  return Number.isInteger(limit) && limit >= 0 ? limit : DEFAULT_HISTORY_LIMIT;
+}
+
+/**
+ * Drops the output files of an entry that no longer exist, such as those of runs older than the kept output files.
+ */
+function withExistingOutputFiles(entry: HistoryEntry): HistoryEntry {
+  const { outputFiles } = entry.result;
+  if (!outputFiles || outputFiles.every((filePath) => fs.existsSync(filePath))) {
+    return entry;
+  }
+  return {
+    ...entry,
+    result: { ...entry.result, outputFiles: outputFiles.filter((filePath) => fs.existsSync(filePath)) },
+  };
+}
+
+/**
+ * Loads the execution history from local storage.
+ * @returns The entries, newest first, without output files that have since been deleted.
+ */
+export async function loadHistory(): Promise<HistoryEntry[]> {
+  const storedHistory = await LocalStorage.getItem<string>(HISTORY_STORAGE_KEY);
+  if (!storedHistory) {
+    return [];
+  }
+  try {
+    return (JSON.parse(storedHistory) as HistoryEntry[]).map(withExistingOutputFiles);
+  } catch (parseError: unknown) {
+    console.error("[LocalStorage Parse Error]", parseError);
+    return [];
+  }
+}
+
+/**
+ * Persists the execution history, dropping the oldest entries beyond the retention cap.
+ * @param entries The entries, newest first.
+ */
+async function saveHistory(entries: HistoryEntry[]): Promise<void> {
+  await LocalStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(entries.slice(0, getHistoryLimit())));
+}
+
+/**
+ * Records a finished execution at the top of the history. Long stdout and stderr are truncated in the stored copy.
+ * @param entry The execution to record, without an id.
+ * @returns The recorded entry with its full output, or null if history is disabled.
+ */
+export async function addHistoryEntry(entry: Omit<HistoryEntry, "id">): Promise<HistoryEntry | null> {
+  if (getHistoryLimit() === 0) {
+    return null;
+  }
+  const newEntry: HistoryEntry = { id: uuidv4(), ...entry };
+  const stdout = truncateOutput(entry.result.stdout);
+  const stderr = truncateOutput(entry.result.stderr);
+  const storedEntry: HistoryEntry = {
+    ...newEntry,
+    result: { ...entry.result, stdout: stdout.text, stderr: stderr.text },
+    ...(stdout.truncated || stderr.truncated ? { outputTruncated: true } : {}),
+  };
+  await saveHistory([storedEntry, ...(await loadHistory())]);
+  return newEntry;
+}
+
+/**
+ * Records a finished execution like `addHistoryEntry`, but logs a failure to save it instead of throwing, so that a
+ * history problem (e.g., full storage) never hides the result of the run itself.
+ * @param entry The execution to record, without an id.
+ * @returns The recorded entry with its full output, or null if history is disabled or saving failed.
+ */
+export async function recordRunSafely(entry: Omit<HistoryEntry, "id">): Promise<HistoryEntry | null> {
+  try {
+    return await addHistoryEntry(entry);
+  } catch (historyError: unknown) {
+    console.error("[History Error]", historyError);
+    return null;
+  }
+}
+
+/**
+ * Removes a single entry from the history.
+ * @param id The id of the entry to remove.
+ */
+export async function removeHistoryEntry(id: string): Promise<void> {
+  await saveHistory((await loadHistory()).filter((entry) => entry.id !== id));
+}
+
+/**
+ * Removes every entry from the history.
+ */
+export async function clearHistory(): Promise<void> {
+  await LocalStorage.removeItem(HISTORY_STORAGE_KEY);
+}
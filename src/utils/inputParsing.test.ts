@@ -0,0 +1,50 @@
+// utils/inputParsing.test.ts
+import { describe, expect, it } from "vitest";
+import { parseArguments, parseEnvironment, quoteShellArgument } from "./inputParsing";
+
+describe("parseArguments", () => {
+  it("splits on any whitespace", () => {
+    expect(parseArguments("  -v\t--name  value\n")).toEqual(["-v", "--name", "value"]);
+  });
+
+  it("keeps quoted whitespace in one argument", () => {
+    expect(parseArguments(`--name "Jane Doe" 'a b'`)).toEqual(["--name", "Jane Doe", "a b"]);
+  });
+
+  it("joins quoted and unquoted parts of the same word", () => {
+    expect(parseArguments(`--name="Jane Doe"x`)).toEqual(["--name=Jane Doex"]);
+  });
+
+  it("keeps empty quoted arguments", () => {
+    expect(parseArguments(`a "" ''`)).toEqual(["a", "", ""]);
+  });
+
+  it("honours backslash escapes outside quotes and inside double quotes only", () => {
+    expect(parseArguments(`a\\ b "c\\"d" 'e\\f'`)).toEqual(["a b", 'c"d', "e\\f"]);
+  });
+
+  it("returns no arguments for blank input", () => {
+    expect(parseArguments("   ")).toEqual([]);
+  });
+
+  it("reports an unterminated quote", () => {
+    expect(() => parseArguments(`--name "Jane`)).toThrow("Unterminated double quote in arguments.");
+    expect(() => parseArguments("it's")).toThrow("Unterminated single quote in arguments.");
+  });
+});
+
+describe("parseEnvironment", () => {
+  it("parses KEY=value lines, skipping blank lines and comments", () => {
+    expect(parseEnvironment("# comment\nA=1\n\n B = two=2 \n")).toEqual({ A: "1", B: " two=2" });
+  });
+
+  it("reports the line of an invalid variable", () => {
+    expect(() => parseEnvironment("A=1\n1B=2")).toThrow("Invalid environment variable on line 2");
+  });
+});
+
+describe("quoteShellArgument", () => {
+  it("escapes single quotes", () => {
+    expect(quoteShellArgument("it's")).toBe(`'it'\\''s'`);
+  });
+});
@@ -0,0 +1,90 @@
+// utils/inputParsing.ts
+
+/**
+ * Splits a command-line string into arguments, honouring single quotes, double quotes and backslash escapes.
+ * @param input The raw arguments string (e.g., `--name "Jane Doe" -v`).
+ * @returns The list of arguments.
+ * @throws {Error} If a quote is not closed.
+ */
+export function parseArguments(input: string): string[] {
+  const args: string[] = [];
+  let current = "";
+  let hasCurrent = false;
+  let quote: "'" | '"' | null = null;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else if (char === "\\" && quote === '"' && i + 1 < input.length) {
+        current += input[++i];
+      } else {
+        current += char;
+      }
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      quote = char;
+      hasCurrent = true;
+    } else if (char === "\\" && i + 1 < input.length) {
+      current += input[++i];
+      hasCurrent = true;
+    } else if (/\s/.test(char)) {
+      if (hasCurrent) {
+        args.push(current);
+        current = "";
+        hasCurrent = false;
+      }
+    } else {
+      current += char;
+      hasCurrent = true;
+    }
+  }
+
+  if (quote) {
+    throw new Error(`Unterminated ${quote === '"' ? "double" : "single"} quote in arguments.`);
+  }
+  if (hasCurrent) {
+    args.push(current);
+  }
+  return args;
+}
+
+/**
+ * Parses environment variables written as `KEY=value`, one per line.
+ * Blank lines and lines starting with `#` are ignored.
+ * @param input The raw environment text.
+ * @returns A map of variable names to values.
+ * @throws {Error} If a line is not a valid `KEY=value` pair.
+ */
+export function parseEnvironment(input: string): Record<string, string> {
+  const env: Record<string, string> = {};
+
+  input.split("\n").forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) {
+      return;
+    }
+
+    const separatorIndex = line.indexOf("=");
+    const key = separatorIndex > 0 ? line.slice(0, separatorIndex).trim() : "";
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(key)) {
+      throw new Error(`Invalid environment variable on line ${index + 1}: expected KEY=value.`);
+    }
+    env[key] = line.slice(separatorIndex + 1);
+  });
+
+  return env;
+}
+
+/**
+ * Quotes a value so the shell passes it through as a single literal argument.
+ * @param value The argument to quote.
+ * @returns The single-quoted argument.
+ */
+export function quoteShellArgument(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
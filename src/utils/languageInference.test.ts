@@ -0,0 +1,93 @@
+// utils/languageInference.test.ts
+import { describe, expect, it } from "vitest";
+import { classifyLanguage, inferLanguageFromMarkers, isLikelyPaste } from "./languageInference";
+
+const ALL_LANGUAGES = ["javascript", "typescript", "python", "go", "rust", "c", "cpp", "java", "ruby", "bash"];
+
+describe("inferLanguageFromMarkers", () => {
+  it("keeps only the fenced code and reads the fence tag, including aliases", () => {
+    const text = "Try this:\n\n```golang\npackage main\n```\n\nThanks!";
+    expect(inferLanguageFromMarkers(text)).toEqual({ code: "package main", language: "go", reason: "fence" });
+  });
+
+  it("reads the interpreter of a shebang, skipping env options and versions", () => {
+    expect(inferLanguageFromMarkers("#!/usr/bin/env -S python3.12 -u\nprint(1)").language).toBe("python");
+    expect(inferLanguageFromMarkers("#!/bin/bash\necho hi")).toMatchObject({ language: "bash", reason: "shebang" });
+  });
+
+  it("falls back to a shebang inside a fence whose tag is unknown", () => {
+    expect(inferLanguageFromMarkers("~~~text\n#!/usr/bin/env ruby\nputs 1\n~~~").language).toBe("ruby");
+  });
+
+  it("returns no language when nothing declares one", () => {
+    expect(inferLanguageFromMarkers("  x = 1\n")).toEqual({ code: "x = 1", language: null, reason: null });
+  });
+});
+
+describe("classifyLanguage", () => {
+  it("trusts a marker for a candidate language", () => {
+    expect(classifyLanguage("```py\nx = 1\n```", ALL_LANGUAGES)).toEqual({
+      language: "python",
+      confidence: "high",
+      reason: "fence",
+    });
+  });
+
+  it("ignores a marker for a language that is not a candidate", () => {
+    const code = "#!/usr/bin/env python3\nimport os\nif __name__ == '__main__':\n    print(os.getcwd())";
+    expect(classifyLanguage(code, ["javascript"])).toBeNull();
+    expect(classifyLanguage(code, ["javascript", "python"])?.reason).toBe("shebang");
+  });
+
+  it("breaks a tie by registry order, or in favour of the preferred language", () => {
+    // JavaScript signatures are part of TypeScript's, so plain JavaScript scores the same for both
+    const code = "const names = ['a', 'b'];\nconsole.log(names);";
+    expect(classifyLanguage(code, ALL_LANGUAGES)).toEqual({
+      language: "javascript",
+      confidence: "high",
+      reason: "signature",
+    });
+    expect(classifyLanguage(code, ALL_LANGUAGES, "typescript")?.language).toBe("typescript");
+    expect(classifyLanguage(code, ALL_LANGUAGES, "python")?.language).toBe("javascript");
+  });
+
+  it("does not count a tied language as the runner-up", () => {
+    // TypeScript wins outright here, and JavaScript's lower score is the runner-up
+    const code = "function add(a: number, b: number): number {\n  return a + b;\n}\nconsole.log(add(1, 2));";
+    expect(classifyLanguage(code, ALL_LANGUAGES)).toEqual({
+      language: "typescript",
+      confidence: "high",
+      reason: "signature",
+    });
+  });
+
+  it("gives low confidence to weak or contested signatures", () => {
+    expect(classifyLanguage("console.log(total)", ALL_LANGUAGES)?.confidence).toBe("low");
+    // C and C++ both match `int main(`, and printf alone does not make C a clear winner
+    expect(classifyLanguage('int main() {\n  printf("hi");\n}', ALL_LANGUAGES)).toEqual({
+      language: "c",
+      confidence: "low",
+      reason: "signature",
+    });
+  });
+
+  it("returns null when no signature is strong enough", () => {
+    expect(classifyLanguage("x = 1", ALL_LANGUAGES)).toBeNull();
+    expect(classifyLanguage("package main\n", ["python"])).toBeNull();
+  });
+});
+
+describe("isLikelyPaste", () => {
+  it("treats a long insertion in one place as a paste", () => {
+    expect(isLikelyPaste("a\nb", "a\nprint('a pasted line of code')\nb")).toBe(true);
+  });
+
+  it("treats typing and deletions as edits", () => {
+    expect(isLikelyPaste("print(1)", "print(12)")).toBe(false);
+    expect(isLikelyPaste("print('a long line that was deleted')", "")).toBe(false);
+  });
+
+  it("counts a selection replaced with other text as a paste", () => {
+    expect(isLikelyPaste("x".repeat(30), "y".repeat(30))).toBe(true);
+  });
+});
@@ -0,0 +1,181 @@
+// utils/languageInference.ts
+import * as path from "path";
+import { LanguageDefinition, loadLanguageDefinitions } from "./languages";
+
+/**
+ * The code to run and the language it declares, if any.
+ */
+export interface InferredSource {
+  code: string; // The text with any surrounding Markdown fence removed
+  language: string | null; // Language value declared by a fence tag or shebang, if it matches a known language
+  reason: "fence" | "shebang" | null; // Where the language came from
+}
+
+// Common names that differ from a language's value, name, extension and commands
+const LANGUAGE_ALIASES: Record<string, string> = {
+  golang: "go",
+  cxx: "cpp",
+  shell: "bash",
+  jsx: "javascript",
+  mjs: "javascript",
+};
+
+const FENCE_PATTERN = /^(`{3,}|~{3,})[ \t]*([^\s`]*)[^\n]*\n([\s\S]*?)\n\1[ \t]*$/m;
+const SHEBANG_PATTERN = /^#!\s*(\S+)(.*)$/;
+
+/**
+ * Builds the lookup of names a language can be referred to by (value, name, extension, commands and aliases).
+ * @param definitions The known languages.
+ * @returns A map from lowercase names to language values.
+ */
+function buildLanguageNames(definitions: LanguageDefinition[]): Map<string, string> {
+  const names = new Map<string, string>();
+  definitions.forEach((definition) => {
+    [definition.value, definition.name, definition.extension.replace(/^\./, ""), ...definition.commands].forEach(
+      (name) => {
+        // Earlier languages win, so a command shared by several languages keeps its first owner
+        if (!names.has(name.toLowerCase())) {
+          names.set(name.toLowerCase(), definition.value);
+        }
+      },
+    );
+  });
+  Object.entries(LANGUAGE_ALIASES).forEach(([alias, value]) => {
+    if (!names.has(alias) && definitions.some((definition) => definition.value === value)) {
+      names.set(alias, value);
+    }
+  });
+  return names;
+}
+
+/**
+ * Resolves the interpreter of a shebang line (e.g., `#!/usr/bin/env -S deno run` resolves to 'deno').
+ * @param line The first line of the code.
+ * @returns The interpreter's command name, or null if the line is not a shebang.
+ */
+function getShebangInterpreter(line: string): string | null {
+  const match = line.match(SHEBANG_PATTERN);
+  if (!match) {
+    return null;
+  }
+  const interpreter = path.basename(match[1]);
+  if (interpreter !== "env") {
+    return interpreter;
+  }
+  // `env` is followed by options and variable assignments before the actual interpreter
+  const command = match[2]
+    .trim()
+    .split(/\s+/)
+    .find((word) => word && !word.startsWith("-") && !word.includes("="));
+  return command ? path.basename(command) : null;
+}
+
+/**
+ * Looks up a language by name, also trying the name without a trailing version (e.g., 'python3.12' or 'node18').
+ */
+function lookupLanguage(names: Map<string, string>, name: string): string | null {
+  const normalized = name.toLowerCase();
+  return names.get(normalized) ?? names.get(normalized.replace(/[\d.]+$/, "")) ?? null;
+}
+
+/**
+ * Reads the language declared by text such as a selection or the clipboard: the tag of a Markdown code fence or a
+ * shebang line. When the text contains a fenced code block, only the code inside the fence is kept.
+ * @param text The raw text.
+ * @returns The code to run and the language it declares.
+ */
+export function inferLanguageFromMarkers(text: string): InferredSource {
+  const names = buildLanguageNames(loadLanguageDefinitions().definitions);
+
+  const fence = text.match(FENCE_PATTERN);
+  const code = fence ? fence[3] : text.trim();
+  if (fence && fence[2]) {
+    const language = lookupLanguage(names, fence[2]);
+    if (language) {
+      return { code, language, reason: "fence" };
+    }
+  }
+
+  const interpreter = getShebangInterpreter(code.split("\n")[0]);
+  const language = interpreter ? lookupLanguage(names, interpreter) : null;
+  return language ? { code, language, reason: "shebang" } : { code, language: null, reason: null };
+}
+
+/**
+ * The language recognized from a snippet's content.
+ */
+export interface LanguageClassification {
+  language: string;
+  confidence: "high" | "low"; // High when a marker was found, or the signatures clearly favour one language
+  reason: "fence" | "shebang" | "signature";
+}
+
+// A signature score needs to reach this and be at least twice the runner-up's to count as high confidence
+const HIGH_CONFIDENCE_SCORE = 5;
+const MIN_SCORE = 3;
+
+// Inserted text at least this long is treated as a paste rather than typing
+const PASTE_MIN_LENGTH = 20;
+
+/**
+ * Recognizes the language of a snippet from a code fence tag, a shebang, or language signatures such as
+ * `package main`, `def`, `fn main`, `#include` and `public class`.
+ * @param code The snippet.
+ * @param candidates Language values to choose from (e.g., the detected languages); other languages are ignored.
+ * @param preferred Language to keep when it scores as well as the best one (e.g., plain JavaScript in TypeScript).
+ * @returns The most likely language, or null if nothing points to a candidate.
+ */
+export function classifyLanguage(
+  code: string,
+  candidates: string[],
+  preferred?: string,
+): LanguageClassification | null {
+  const markers = inferLanguageFromMarkers(code);
+  if (markers.language && markers.reason && candidates.includes(markers.language)) {
+    return { language: markers.language, confidence: "high", reason: markers.reason };
+  }
+
+  const scores = loadLanguageDefinitions()
+    .definitions.filter((definition) => candidates.includes(definition.value))
+    .map((definition) => ({
+      language: definition.value,
+      score: (definition.signatures ?? [])
+        .filter(({ pattern }) => pattern.test(markers.code))
+        .reduce((total, { weight }) => total + weight, 0),
+    }))
+    .sort((a, b) => b.score - a.score);
+
+  // Languages that share signatures (e.g., TypeScript includes JavaScript's) can tie; ties go to the preferred
+  // language, then to registry order, and only a lower score counts as the runner-up
+  const bestScore = scores[0]?.score ?? 0;
+  if (bestScore < MIN_SCORE) {
+    return null;
+  }
+  const tied = scores.filter(({ score }) => score === bestScore);
+  const best = tied.find(({ language }) => language === preferred) ?? tied[0];
+  const runnerUpScore = scores.find(({ score }) => score < bestScore)?.score ?? 0;
+  const isClearWinner = bestScore >= HIGH_CONFIDENCE_SCORE && bestScore >= 2 * runnerUpScore;
+  return { language: best.language, confidence: isClearWinner ? "high" : "low", reason: "signature" };
+}
+
+/**
+ * Checks whether an edit inserted a block of text at once (a paste), rather than a few typed characters.
+ * @param before The text before the edit.
+ * @param after The text after the edit.
+ * @returns True if the edit inserted at least `PASTE_MIN_LENGTH` characters in one place.
+ */
+export function isLikelyPaste(before: string, after: string): boolean {
+  let prefixLength = 0;
+  while (prefixLength < before.length && prefixLength < after.length && before[prefixLength] === after[prefixLength]) {
+    prefixLength++;
+  }
+  let suffixLength = 0;
+  while (
+    suffixLength < before.length - prefixLength &&
+    suffixLength < after.length - prefixLength &&
+    before[before.length - 1 - suffixLength] === after[after.length - 1 - suffixLength]
+  ) {
+    suffixLength++;
+  }
+  return after.length - prefixLength - suffixLength >= PASTE_MIN_LENGTH;
+}
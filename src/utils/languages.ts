@@ -0,0 +1,372 @@
+// utils/languages.ts
+import { CustomRunnersLoadResult, loadCustomRunners } from "./customRunners";
+import { DependencyManager } from "./dependencies";
+import {
+  DiagnosticParser,
+  parseGoDiagnostics,
+  parseJavaDiagnostics,
+  parseJavaScriptDiagnostics,
+  parsePythonDiagnostics,
+  parseRustDiagnostics,
+} from "./diagnostics";
+import {
+  ProjectTemplate,
+  cProject,
+  cppProject,
+  goProject,
+  javaProject,
+  javaScriptProject,
+  pythonProject,
+  rustProject,
+  typeScriptProject,
+} from "./projectTemplates";
+import { JAVASCRIPT_SESSION_DRIVER, PYTHON_SESSION_DRIVER } from "./sessionDrivers";
+import { SnippetWrapper, wrapGoSnippet, wrapJavaSnippet } from "./snippetWrapping";
+
+/**
+ * Paths and the detected executable handed to a language's compile/run steps.
+ */
+export interface LanguageCommandContext {
+  command: string; // The detected command name (e.g., 'node', 'tsx', 'clang')
+  executable: string; // Shell-quoted absolute path of the chosen executable
+  filePath: string; // Absolute path of the source file written by runCode
+  outputPath: string; // Absolute path for compiled artifacts (binaries)
+  directory: string; // Directory containing the source file
+}
+
+/**
+ * Describes everything needed to detect, run and display a language.
+ * Adding a new language only requires adding an entry to `LANGUAGE_DEFINITIONS`.
+ */
+export interface LanguageDefinition {
+  name: string;
+  value: string;
+  commands: string[]; // Candidate executables looked up on PATH during detection; the first found is the default
+  installPatterns?: string[]; // Extra installations to look for, where each `*` matches a directory (e.g., version managers)
+  versionArgs?: string[]; // Arguments that make the executable print its version (defaults to --version)
+  extension: string; // Source file extension, including the leading dot
+  lineComment?: string; // Starts a line comment (e.g., '#'); used for cell markers such as `# %%`
+  compile?: (context: LanguageCommandContext) => string; // Optional build step, run before `run`
+  run: (context: LanguageCommandContext) => string;
+  parseDiagnostics?: DiagnosticParser; // Turns error output into diagnostics; defaults to `file:line:column` messages
+  sessionDriver?: string; // Source of a program, run with `run`, that keeps state between runs in session mode
+  wrapSnippet?: SnippetWrapper; // Adds the scaffolding bare statements need to run, in snippet mode
+  dependencyManager?: DependencyManager; // Installs dependencies declared in the snippet's header comments
+  shebang?: string; // First line that makes an exported script executable
+  project?: ProjectTemplate; // Lays out an exported project; defaults to a single file run with `run`
+  signatures?: LanguageSignature[]; // Content patterns used to recognize pasted code as this language
+  template: string; // Initial code shown when no saved code exists
+  icon: string; // Asset path (e.g., 'icons/go.svg'), a Raycast icon or a URL
+}
+
+/**
+ * A pattern that suggests code is written in a language. The weights of all matching patterns are added up.
+ */
+export interface LanguageSignature {
+  pattern: RegExp;
+  weight: number;
+}
+
+// Shared by TypeScript, which adds its own type syntax on top
+const JAVASCRIPT_SIGNATURES: LanguageSignature[] = [
+  { pattern: /\bconsole\.(log|error)\(/, weight: 3 },
+  { pattern: /^\s*(const|let)\s+\w+\s*=/m, weight: 2 },
+  { pattern: /\bfunction\s*\w*\s*\(/, weight: 2 },
+  { pattern: /=>/, weight: 1 },
+  { pattern: /\brequire\(["']/, weight: 4 },
+  { pattern: /^import .+ from ["']/m, weight: 3 },
+];
+
+export const LANGUAGE_DEFINITIONS: LanguageDefinition[] = [
+  {
+    name: "JavaScript",
+    value: "javascript",
+    commands: ["node"],
+    installPatterns: [
+      "~/.nvm/versions/node/*/bin/node",
+      "~/.local/share/fnm/node-versions/*/installation/bin/node",
+      "~/Library/Application Support/fnm/node-versions/*/installation/bin/node",
+      "~/.volta/tools/image/node/*/bin/node",
+    ],
+    extension: ".js",
+    lineComment: "//",
+    run: ({ executable, filePath }) => `${executable} ${filePath}`,
+    parseDiagnostics: parseJavaScriptDiagnostics,
+    sessionDriver: JAVASCRIPT_SESSION_DRIVER,
+    dependencyManager: "npm",
+    shebang: "#!/usr/bin/env node",
+    project: javaScriptProject,
+    signatures: JAVASCRIPT_SIGNATURES,
+    template: `console.log("Hello from JavaScript!");\nlet a = 10;\nlet b = 20;\nconsole.log("Sum:", a + b);`,
+    icon: "icons/javascript.svg",
+  },
+  {
+    name: "TypeScript",
+    value: "typescript",
+    commands: ["tsx", "ts-node", "deno"],
+    extension: ".ts",
+    lineComment: "//",
+    run: ({ command, executable, filePath }) =>
+      command === "deno" ? `${executable} run ${filePath}` : `${executable} ${filePath}`,
+    parseDiagnostics: parseJavaScriptDiagnostics,
+    dependencyManager: "npm",
+    shebang: "#!/usr/bin/env -S npx tsx",
+    project: typeScriptProject,
+    signatures: [
+      ...JAVASCRIPT_SIGNATURES,
+      { pattern: /:\s*(string|number|boolean|void|unknown|any)(\[\])?\s*[,)=;{]/, weight: 5 },
+      { pattern: /^\s*(export )?interface \w+/m, weight: 4 },
+      { pattern: /^\s*(export )?type \w+(<[^>]*>)?\s*=/m, weight: 3 },
+      { pattern: /\bas (const|string|number|unknown)\b/, weight: 2 },
+    ],
+    template: `const greet = (name: string): string => \`Hello from \${name}!\`;\nconsole.log(greet("TypeScript"));`,
+    icon: "icons/typescript.svg",
+  },
+  {
+    name: "Python",
+    value: "python",
+    commands: [
+      "python3",
+      "python3.14",
+      "python3.13",
+      "python3.12",
+      "python3.11",
+      "python3.10",
+      "python3.9",
+      "python3.8",
+    ],
+    installPatterns: [
+      "~/.pyenv/versions/*/bin/python3",
+      "/opt/homebrew/opt/python@*/bin/python3",
+      "/usr/local/opt/python@*/bin/python3",
+      "/Library/Frameworks/Python.framework/Versions/*/bin/python3",
+    ],
+    extension: ".py",
+    lineComment: "#",
+    run: ({ executable, filePath }) => `${executable} ${filePath}`,
+    parseDiagnostics: parsePythonDiagnostics,
+    sessionDriver: PYTHON_SESSION_DRIVER,
+    dependencyManager: "pip",
+    shebang: "#!/usr/bin/env python3",
+    project: pythonProject,
+    signatures: [
+      { pattern: /^\s*def \w+\(.*\)(\s*->\s*[\w[\], ]+)?:\s*$/m, weight: 4 },
+      { pattern: /^from [\w.]+ import /m, weight: 4 },
+      { pattern: /^import [\w.]+(\s+as \w+)?\s*$/m, weight: 2 },
+      { pattern: /^if __name__ == ["']__main__["']:/m, weight: 5 },
+      { pattern: /^\s*(elif|except|with|for|while|if)\b.*:\s*$/m, weight: 2 },
+      { pattern: /\bf["'][^"']*\{/, weight: 2 },
+      { pattern: /^\s*print\(/m, weight: 1 },
+      { pattern: /\b(True|False|None)\b/, weight: 1 },
+    ],
+    template: `print("Hello from Python!")\nx = 5\ny = 3\nprint(f"Product: {x * y}")`,
+    icon: "icons/python.svg",
+  },
+  {
+    name: "Go",
+    value: "go",
+    commands: ["go"],
+    installPatterns: ["~/sdk/*/bin/go", "/usr/local/go/bin/go"],
+    versionArgs: ["version"],
+    extension: ".go",
+    lineComment: "//",
+    compile: ({ executable, filePath, outputPath }) => `${executable} build -o ${outputPath} ${filePath}`,
+    run: ({ outputPath }) => outputPath,
+    parseDiagnostics: parseGoDiagnostics,
+    wrapSnippet: wrapGoSnippet,
+    dependencyManager: "go",
+    project: goProject,
+    signatures: [
+      { pattern: /^package \w+\s*$/m, weight: 5 },
+      { pattern: /^func (\(\w+ \*?\w+\) )?\w+\(/m, weight: 3 },
+      { pattern: /\bfmt\.\w+\(/, weight: 4 },
+      { pattern: /^import (\(|")/m, weight: 2 },
+      { pattern: /\w+ := /, weight: 2 },
+    ],
+    template: `package main\n\nimport "fmt"\n\nfunc main() {\n    fmt.Println("Hello from Go!")\n    a, b := 7, 2\n    fmt.Printf("Division: %f\\n", float64(a) / float64(b))\n}`,
+    icon: "icons/go.svg",
+  },
+  {
+    name: "Rust",
+    value: "rust",
+    commands: ["rustc"],
+    extension: ".rs",
+    lineComment: "//",
+    compile: ({ executable, filePath, outputPath }) => `${executable} -o ${outputPath} ${filePath}`,
+    run: ({ outputPath }) => outputPath,
+    parseDiagnostics: parseRustDiagnostics,
+    project: rustProject,
+    signatures: [
+      { pattern: /\bfn main\s*\(\)/, weight: 5 },
+      { pattern: /\bprintln!\(/, weight: 4 },
+      { pattern: /\blet mut\b/, weight: 3 },
+      { pattern: /^use (std|crate)::/m, weight: 4 },
+      { pattern: /\b(impl|pub fn|match)\b/, weight: 1 },
+    ],
+    template: `fn main() {\n    println!("Hello from Rust!");\n    let numbers = vec![1, 2, 3, 4];\n    println!("Sum: {}", numbers.iter().sum::<i32>());\n}`,
+    icon: "icons/rust.svg",
+  },
+  {
+    name: "C",
+    value: "c",
+    commands: ["clang", "gcc", "cc"],
+    extension: ".c",
+    lineComment: "//",
+    compile: ({ executable, filePath, outputPath }) => `${executable} -o ${outputPath} ${filePath}`,
+    run: ({ outputPath }) => outputPath,
+    project: cProject,
+    signatures: [
+      { pattern: /#include\s*<\w+\.h>/, weight: 4 },
+      { pattern: /\b(printf|scanf|malloc|free)\s*\(/, weight: 2 },
+      { pattern: /\bint main\s*\(/, weight: 2 },
+    ],
+    template: `#include <stdio.h>\n\nint main(void) {\n    printf("Hello from C!\\n");\n    int a = 6, b = 7;\n    printf("Product: %d\\n", a * b);\n    return 0;\n}`,
+    icon: "icons/c.svg",
+  },
+  {
+    name: "C++",
+    value: "cpp",
+    commands: ["clang++", "g++", "c++"],
+    extension: ".cpp",
+    lineComment: "//",
+    compile: ({ executable, filePath, outputPath }) => `${executable} -std=c++17 -o ${outputPath} ${filePath}`,
+    run: ({ outputPath }) => outputPath,
+    project: cppProject,
+    signatures: [
+      { pattern: /#include\s*<(iostream|vector|string|map|set|algorithm|memory|unordered_map)>/, weight: 6 },
+      { pattern: /\bstd::/, weight: 4 },
+      { pattern: /\bcout\s*<</, weight: 4 },
+      { pattern: /^using namespace std;/m, weight: 5 },
+      { pattern: /\bint main\s*\(/, weight: 2 },
+    ],
+    template: `#include <iostream>\n#include <vector>\n\nint main() {\n    std::cout << "Hello from C++!" << std::endl;\n    std::vector<int> numbers{1, 2, 3};\n    std::cout << "Count: " << numbers.size() << std::endl;\n    return 0;\n}`,
+    icon: "icons/cpp.svg",
+  },
+  {
+    name: "Java",
+    value: "java",
+    commands: ["java"],
+    versionArgs: ["-version"],
+    extension: ".java",
+    lineComment: "//",
+    // Single-file source-code mode (Java 11+) compiles and runs in one step
+    run: ({ executable, filePath }) => `${executable} ${filePath}`,
+    parseDiagnostics: parseJavaDiagnostics,
+    wrapSnippet: wrapJavaSnippet,
+    project: javaProject,
+    signatures: [
+      { pattern: /\bpublic static void main\s*\(\s*String/, weight: 6 },
+      { pattern: /\bSystem\.out\.print/, weight: 5 },
+      { pattern: /^import java\./m, weight: 5 },
+      { pattern: /\b(public|private) (final )?class \w+/, weight: 4 },
+    ],
+    template: `public class Main {\n    public static void main(String[] args) {\n        System.out.println("Hello from Java!");\n        int a = 4, b = 5;\n        System.out.println("Sum: " + (a + b));\n    }\n}`,
+    icon: "icons/java.svg",
+  },
+  {
+    name: "Ruby",
+    value: "ruby",
+    commands: ["ruby"],
+    extension: ".rb",
+    lineComment: "#",
+    run: ({ executable, filePath }) => `${executable} ${filePath}`,
+    shebang: "#!/usr/bin/env ruby",
+    signatures: [
+      { pattern: /^\s*puts\b/m, weight: 3 },
+      { pattern: /^\s*end\s*$/m, weight: 2 },
+      { pattern: /\.each( do|\s*\{)\s*\|/, weight: 4 },
+      { pattern: /^\s*def \w+[!?]?(\(.*\))?\s*$/m, weight: 3 },
+      { pattern: /^require ["']/m, weight: 3 },
+      { pattern: /#\{[^}]+\}/, weight: 2 },
+    ],
+    template: `puts "Hello from Ruby!"\nnumbers = [1, 2, 3]\nputs "Doubled: #{numbers.map { |n| n * 2 }}"`,
+    icon: "icons/ruby.svg",
+  },
+  {
+    name: "Bash",
+    value: "bash",
+    commands: ["bash"],
+    extension: ".sh",
+    lineComment: "#",
+    run: ({ executable, filePath }) => `${executable} ${filePath}`,
+    shebang: "#!/usr/bin/env bash",
+    signatures: [
+      { pattern: /^\s*(if|while) \[\[? /m, weight: 4 },
+      { pattern: /^\s*(fi|done|esac)\s*$/m, weight: 4 },
+      { pattern: /^\s*echo\b/m, weight: 2 },
+      { pattern: /\$\{?\w+\}?/, weight: 1 },
+      { pattern: /;\s*(then|do)\s*$/m, weight: 3 },
+    ],
+    template: `echo "Hello from Bash!"\nfor i in 1 2 3; do\n  echo "Count: $i"\ndone`,
+    icon: "icons/bash.svg",
+  },
+  {
+    name: "PHP",
+    value: "php",
+    commands: ["php"],
+    extension: ".php",
+    lineComment: "//",
+    run: ({ executable, filePath }) => `${executable} ${filePath}`,
+    shebang: "#!/usr/bin/env php",
+    signatures: [
+      { pattern: /<\?php/, weight: 10 },
+      { pattern: /\$\w+\s*=/, weight: 2 },
+    ],
+    template: `<?php\necho "Hello from PHP!\\n";\n$items = [1, 2, 3];\necho "Sum: " . array_sum($items) . "\\n";`,
+    icon: "icons/php.svg",
+  },
+  {
+    name: "Lua",
+    value: "lua",
+    commands: ["lua"],
+    versionArgs: ["-v"],
+    extension: ".lua",
+    lineComment: "--",
+    run: ({ executable, filePath }) => `${executable} ${filePath}`,
+    shebang: "#!/usr/bin/env lua",
+    signatures: [
+      { pattern: /^\s*local \w+(\s*,\s*\w+)*\s*=/m, weight: 4 },
+      { pattern: /\bthen\s*$/m, weight: 3 },
+      { pattern: /\.\.\s*["'(]/, weight: 2 },
+      { pattern: /^\s*end\s*$/m, weight: 1 },
+      { pattern: /\bfunction \w+[.:]?\w*\(/, weight: 1 },
+    ],
+    template: `print("Hello from Lua!")\nlocal a, b = 3, 4\nprint("Sum: " .. (a + b))`,
+    icon: "icons/lua.svg",
+  },
+];
+
+const BUILT_IN_IDS = LANGUAGE_DEFINITIONS.map((definition) => definition.value);
+const BUILT_IN_DEFINITIONS = new Map(LANGUAGE_DEFINITIONS.map((definition) => [definition.value, definition]));
+
+// The last merged list, reused while the custom runners are unchanged
+let mergedDefinitions: { customRunners: CustomRunnersLoadResult; result: CustomRunnersLoadResult } | null = null;
+
+/**
+ * Loads every available language definition: the built-in languages followed by the user's custom runners.
+ * @returns The definitions, plus any errors found in the custom runners config file.
+ */
+export function loadLanguageDefinitions(): CustomRunnersLoadResult {
+  const customRunners = loadCustomRunners(BUILT_IN_IDS);
+  // Custom runners are cached while their config is unchanged, so the merged list can be reused too
+  if (mergedDefinitions?.customRunners !== customRunners) {
+    mergedDefinitions = {
+      customRunners,
+      result: { definitions: [...LANGUAGE_DEFINITIONS, ...customRunners.definitions], errors: customRunners.errors },
+    };
+  }
+  return mergedDefinitions.result;
+}
+
+/**
+ * Looks up a language definition (built-in or custom runner) by its value (e.g., 'python').
+ * @param value The language identifier.
+ * @returns The matching definition, or undefined if the language is not registered.
+ */
+export function getLanguageDefinition(value: string): LanguageDefinition | undefined {
+  const id = value.toLowerCase();
+  // Custom runners cannot reuse built-in ids, so built-in languages never need the config file
+  return (
+    BUILT_IN_DEFINITIONS.get(id) ?? loadLanguageDefinitions().definitions.find((definition) => definition.value === id)
+  );
+}
@@ -0,0 +1,51 @@
+// utils/launcher.test.ts
+import { describe, expect, it, vi } from "vitest";
+import { DetectedLanguage } from "./codeRunner";
+import { findRequestedLanguage, parseLaunchRequest } from "./launcher";
+
+// The package's CommonJS build loads @raycast/api itself, which only Raycast provides
+vi.mock("@raycast/utils", () => ({ createDeeplink: vi.fn() }));
+
+describe("parseLaunchRequest", () => {
+  it("returns null when neither the arguments nor the launch context provide anything", () => {
+    expect(parseLaunchRequest()).toBeNull();
+    expect(parseLaunchRequest({ language: "", code: "", autorun: "" }, undefined)).toBeNull();
+  });
+
+  it("prefers non-empty arguments over the launch context", () => {
+    expect(
+      parseLaunchRequest({ language: " Python ", code: "" }, { language: "go", code: "print(1)", stdin: "2\n" }),
+    ).toEqual({ language: "Python", code: "print(1)", stdin: "2\n", autorun: undefined });
+  });
+
+  it("accepts autorun as an argument or as a boolean or string in the launch context", () => {
+    expect(parseLaunchRequest({ autorun: "true" })?.autorun).toBe(true);
+    expect(parseLaunchRequest({}, { autorun: true })?.autorun).toBe(true);
+    expect(parseLaunchRequest({}, { autorun: "true" })?.autorun).toBe(true);
+    expect(parseLaunchRequest({ autorun: "false" }, { code: "1" })?.autorun).toBeUndefined();
+  });
+
+  it("ignores launch context values of the wrong type", () => {
+    expect(parseLaunchRequest({}, { language: 3, code: ["print(1)"], autorun: 1 })).toBeNull();
+    expect(parseLaunchRequest({}, "python")).toBeNull();
+  });
+});
+
+describe("findRequestedLanguage", () => {
+  const languages: DetectedLanguage[] = [
+    { name: "Python", value: "python", command: "python3", executablePath: "/usr/bin/python3" },
+    { name: "JavaScript", value: "javascript", command: "node", executablePath: "/usr/bin/node" },
+  ];
+
+  it("matches by value, name or file extension, ignoring case", () => {
+    expect(findRequestedLanguage(languages, "python")?.value).toBe("python");
+    expect(findRequestedLanguage(languages, "JavaScript")?.value).toBe("javascript");
+    expect(findRequestedLanguage(languages, "PY")?.value).toBe("python");
+    expect(findRequestedLanguage(languages, ".js")?.value).toBe("javascript");
+  });
+
+  it("returns undefined for languages that are unknown or not installed", () => {
+    expect(findRequestedLanguage(languages, "go")).toBeUndefined();
+    expect(findRequestedLanguage(languages, "cobol")).toBeUndefined();
+  });
+});
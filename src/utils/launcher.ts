@@ -0,0 +1,163 @@
+// utils/launcher.ts
+import { Icon, LocalStorage, confirmAlert, launchCommand, LaunchType } from "@raycast/api";
+import { createDeeplink } from "@raycast/utils";
+import { CONFIRMED_AUTORUNS_STORAGE_KEY, LAST_USED_LANGUAGE_KEY } from "../constants/storageKeys";
+import { computeArtifactKey } from "./artifactCache";
+import { DetectedLanguage } from "./codeRunner";
+import { getLanguageDefinition } from "./languages";
+
+// Confirmed autoruns that are remembered; older ones ask again
+const MAX_CONFIRMED_AUTORUNS = 50;
+// Lines of code shown when asking to confirm an autorun
+const AUTORUN_PREVIEW_LINES = 12;
+
+/**
+ * Code and inputs to load into the Run Code form.
+ */
+export interface RunCodeState {
+  language: string;
+  code: string;
+  stdin?: string;
+  args?: string;
+  env?: string;
+}
+
+/**
+ * Arguments of the Run Code command, as typed in Raycast's root search or passed in a deeplink.
+ */
+export interface RunCodeArguments {
+  language?: string;
+  code?: string;
+  autorun?: string; // 'true' to run the code right away
+}
+
+/**
+ * Code and inputs another extension, script or deeplink opens Run Code with. Values that are present are used instead
+ * of the ones saved for the language.
+ */
+export interface RunCodeLaunchRequest {
+  language?: string; // A language value, name or file extension (e.g., 'python', 'Python' or 'py')
+  code?: string;
+  stdin?: string;
+  autorun?: boolean; // Runs the code as soon as the form has loaded
+}
+
+/**
+ * Reads a launch request from the command's arguments and launch context. Arguments win over the launch context,
+ * and values of the wrong type (the context can come from any extension) are ignored.
+ * @param args The command arguments; empty ones count as missing.
+ * @param launchContext The launch context, e.g. `{ language: "python", code: "print(1)", autorun: true }`.
+ * @returns The request, or null if neither provides any value.
+ */
+export function parseLaunchRequest(
+  args: RunCodeArguments = {},
+  launchContext: unknown = {},
+): RunCodeLaunchRequest | null {
+  const context = (launchContext && typeof launchContext === "object" ? launchContext : {}) as Record<string, unknown>;
+  const readText = (name: "language" | "code" | "stdin") => {
+    const argument = name === "stdin" ? undefined : args[name];
+    if (argument) {
+      return argument;
+    }
+    return typeof context[name] === "string" ? (context[name] as string) : undefined;
+  };
+  const autorun = args.autorun === "true" || context.autorun === true || context.autorun === "true" ? true : undefined;
+
+  const request: RunCodeLaunchRequest = {
+    language: readText("language")?.trim() || undefined,
+    code: readText("code"),
+    stdin: readText("stdin"),
+    autorun,
+  };
+  return Object.values(request).some((value) => value !== undefined) ? request : null;
+}
+
+/**
+ * Asks the user before running code that a launch asked to run, since any deeplink, script or extension can open
+ * Run Code with `autorun`. Once confirmed, the same code (with the same language and stdin) runs without asking.
+ * @param language The language value of the code.
+ * @param code The code to run.
+ * @param stdin The stdin the code runs with.
+ * @returns Whether to run the code.
+ */
+export async function confirmAutorun(language: string, code: string, stdin: string): Promise<boolean> {
+  const key = computeArtifactKey([language, code, stdin]);
+  let confirmedKeys: string[] = [];
+  try {
+    confirmedKeys = JSON.parse((await LocalStorage.getItem<string>(CONFIRMED_AUTORUNS_STORAGE_KEY)) ?? "[]");
+  } catch (parseError: unknown) {
+    console.error("[LocalStorage Parse Error]", parseError);
+  }
+  if (confirmedKeys.includes(key)) {
+    return true;
+  }
+
+  const lines = code.split("\n");
+  const preview = lines.slice(0, AUTORUN_PREVIEW_LINES).join("\n");
+  const hiddenLines = lines.length - AUTORUN_PREVIEW_LINES;
+  const isConfirmed = await confirmAlert({
+    title: `Run ${getLanguageDefinition(language)?.name ?? language} Code?`,
+    message: [
+      "The link or extension that opened Run Code asks to run this code right away. Only run code you trust.",
+      hiddenLines > 0 ? `${preview}\n… ${hiddenLines} more ${hiddenLines === 1 ? "line" : "lines"}` : preview,
+    ].join("\n\n"),
+    icon: Icon.Warning,
+    primaryAction: { title: "Run Code" },
+  });
+  if (isConfirmed) {
+    await LocalStorage.setItem(
+      CONFIRMED_AUTORUNS_STORAGE_KEY,
+      JSON.stringify([key, ...confirmedKeys].slice(0, MAX_CONFIRMED_AUTORUNS)),
+    );
+  }
+  return isConfirmed;
+}
+
+/**
+ * Finds the detected language a launch request refers to, by value, name or file extension.
+ * @param languages The detected languages.
+ * @param requested The requested language (e.g., 'python', 'Python' or 'py').
+ * @returns The language, or undefined if it is unknown or not installed.
+ */
+export function findRequestedLanguage(languages: DetectedLanguage[], requested: string): DetectedLanguage | undefined {
+  const normalized = requested.toLowerCase().replace(/^\./, "");
+  return languages.find(
+    (language) =>
+      language.value === normalized ||
+      language.name.toLowerCase() === normalized ||
+      getLanguageDefinition(language.value)?.extension === `.${normalized}`,
+  );
+}
+
+/**
+ * Creates a deeplink that opens Run Code with the given code, for sharing a snippet or launching it from scripts.
+ * @param request The language, code and stdin to open, and whether to run the code right away.
+ * @returns The `raycast://` deeplink.
+ */
+export function createRunCodeDeeplink(request: RunCodeLaunchRequest): string {
+  // Passed as launch context rather than arguments, since commands take at most three arguments
+  const context = Object.fromEntries(
+    Object.entries(request).filter(([, value]) => value !== undefined && value !== ""),
+  );
+  return createDeeplink({ command: "run-code", launchType: LaunchType.UserInitiated, context });
+}
+
+/**
+ * Opens the Run Code command with the given code and inputs.
+ * The state is saved as the language's stored code and inputs, which the form restores on launch.
+ * @param state The code and inputs to open.
+ */
+export async function openInRunCode(state: RunCodeState): Promise<void> {
+  const items: [string, string | undefined][] = [
+    [`code_${state.language}`, state.code],
+    [`stdin_${state.language}`, state.stdin],
+    [`args_${state.language}`, state.args],
+    [`env_${state.language}`, state.env],
+    [LAST_USED_LANGUAGE_KEY, state.language],
+  ];
+  // Inputs that are not provided keep their previously saved values
+  await Promise.all(
+    items.filter(([, value]) => value !== undefined).map(([key, value]) => LocalStorage.setItem(key, value as string)),
+  );
+  await launchCommand({ name: "run-code", type: LaunchType.UserInitiated });
+}
@@ -0,0 +1,82 @@
+// utils/outputFiles.ts
+import { environment } from "@raycast/api";
+import * as fs from "fs";
+import * as path from "path";
+import { getHistoryLimit } from "./history";
+
+/**
+ * Environment variable holding the directory where a program can write images (e.g., a matplotlib plot) to be shown
+ * with its output.
+ */
+export const OUTPUT_DIR_ENV = "CODE_RUNNER_OUTPUT_DIR";
+
+const IMAGE_EXTENSIONS = new Set([".png", ".svg", ".jpg", ".jpeg", ".gif", ".webp"]);
+
+// Output files are kept for as many runs as the history keeps, and at least this many when the history is shorter;
+// older runs' files are deleted
+const MIN_KEPT_OUTPUT_RUNS = 20;
+
+/**
+ * Gets the directory where the output files of past runs are kept.
+ */
+function getOutputFilesRoot(): string {
+  return path.join(environment.supportPath, "outputs");
+}
+
+/**
+ * Creates the empty directory a run writes its output files to.
+ * @param tempDir The workspace directory of the run.
+ * @param runId The unique id of the run.
+ * @returns The absolute path of the directory.
+ */
+export function createOutputDirectory(tempDir: string, runId: string): string {
+  const outputDir = path.join(tempDir, `${runId}-output`);
+  fs.mkdirSync(outputDir, { recursive: true });
+  return outputDir;
+}
+
+/**
+ * Keeps the images a run wrote to its output directory, then removes the directory.
+ * Images are copied to the extension's support directory, where the files of older runs are pruned.
+ * @param outputDir The run's output directory.
+ * @param runId The unique id of the run.
+ * @returns The absolute paths of the kept images, sorted by name.
+ */
+export function collectOutputFiles(outputDir: string, runId: string): string[] {
+  const keptFiles: string[] = [];
+  try {
+    const imageNames = fs
+      .readdirSync(outputDir)
+      .filter((name) => IMAGE_EXTENSIONS.has(path.extname(name).toLowerCase()))
+      .filter((name) => fs.statSync(path.join(outputDir, name)).isFile())
+      .sort();
+    if (imageNames.length > 0) {
+      const keptDir = path.join(getOutputFilesRoot(), runId);
+      fs.mkdirSync(keptDir, { recursive: true });
+      imageNames.forEach((name) => {
+        // Copied rather than moved, since the temp and support directories may be on different volumes
+        fs.copyFileSync(path.join(outputDir, name), path.join(keptDir, name));
+        keptFiles.push(path.join(keptDir, name));
+      });
+      pruneOutputFiles();
+    }
+  } catch (collectError: unknown) {
+    console.error("[Output Files Error]", collectError);
+  }
+  fs.rmSync(outputDir, { recursive: true, force: true });
+  return keptFiles;
+}
+
+/**
+ * Deletes the output files of all but the most recent runs.
+ */
+function pruneOutputFiles(): void {
+  const root = getOutputFilesRoot();
+  const runDirs = fs
+    .readdirSync(root)
+    .map((name) => ({ name, modifiedAt: fs.statSync(path.join(root, name)).mtimeMs }))
+    .sort((a, b) => b.modifiedAt - a.modifiedAt);
+  runDirs.slice(Math.max(getHistoryLimit(), MIN_KEPT_OUTPUT_RUNS)).forEach(({ name }) => {
+    fs.rmSync(path.join(root, name), { recursive: true, force: true });
+  });
+}
@@ -0,0 +1,40 @@
+// utils/preferences.ts
+import { getPreferenceValues } from "@raycast/api";
+
+/**
+ * Extension-wide preferences declared in package.json.
+ */
+export interface ExtensionPreferences {
+  customRunnersFile?: string; // Path to a JSON/YAML file declaring custom runners
+  timeoutSeconds?: string; // Default wall-clock timeout; text fields arrive as strings
+  cpuTimeSeconds?: string;
+  memoryMb?: string;
+  maxOutputKb?: string;
+  historyLimit?: string; // Maximum number of runs kept in the history
+  languageAutoDetection?: "switch" | "suggest" | "off"; // Reaction to pasted code in another language
+  sandboxed?: boolean; // Run code in the sandbox by default
+  formatOnRun?: boolean; // Format code with the language's formatter before each run
+}
+
+/**
+ * Preferences of the Run Selection / Clipboard command, declared on the command in package.json.
+ */
+export interface RunSelectionPreferences extends ExtensionPreferences {
+  resultDisplay?: "toast" | "hud"; // Where the result of the run is shown
+}
+
+/**
+ * Reads the extension preferences configured by the user in Raycast.
+ * @returns The current preference values.
+ */
+export function getExtensionPreferences(): ExtensionPreferences {
+  return getPreferenceValues<ExtensionPreferences>();
+}
+
+/**
+ * Reads the preferences of the Run Selection / Clipboard command, including the extension-wide ones.
+ * @returns The current preference values.
+ */
+export function getRunSelectionPreferences(): RunSelectionPreferences {
+  return getPreferenceValues<RunSelectionPreferences>();
+}
@@ -0,0 +1,84 @@
+// utils/processStats.test.ts
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { readPeakMemoryKb, readTerminatingSignal, wrapWithMemoryTracking } from "./processStats";
+
+vi.mock("fs", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("fs")>();
+  return { ...actual, existsSync: vi.fn(actual.existsSync) };
+});
+
+describe("wrapWithMemoryTracking", () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "process-stats-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+    vi.mocked(fs.existsSync).mockRestore();
+  });
+
+  it("leaves the command unchanged when /usr/bin/time is missing", () => {
+    vi.mocked(fs.existsSync).mockReturnValue(false);
+    expect(wrapWithMemoryTracking("bun main.ts", "/tmp/stats")).toBe("bun main.ts");
+  });
+
+  it("runs a compound custom runner command as a whole", () => {
+    vi.mocked(fs.existsSync).mockReturnValue(true);
+    // A custom runner such as `cd {dir} && bun {file}`, with a pipe and a list on top
+    const command = `cd '${directory}' && pwd -P | tr a-z A-Z; echo "it's done"`;
+    const wrapped = wrapWithMemoryTracking(command, path.join(directory, "run stats"));
+
+    const timePrefix = /^\/usr\/bin\/time (?:-l|-f %M) -o '[^']*run stats' /;
+    expect(wrapped).toMatch(timePrefix);
+    // What `time` starts must be a single program that runs the entire command
+    const started = wrapped.replace(timePrefix, "");
+    expect(started.startsWith("/bin/sh -c ")).toBe(true);
+    const output = execFileSync("/bin/sh", ["-c", started], { encoding: "utf-8" });
+    expect(output).toBe(`${fs.realpathSync(directory).toUpperCase()}\nit's done\n`);
+  });
+});
+
+describe("readPeakMemoryKb", () => {
+  it("returns null when no stats were recorded", () => {
+    expect(readPeakMemoryKb(path.join(os.tmpdir(), "missing-process-stats"))).toBeNull();
+  });
+});
+
+describe("readTerminatingSignal", () => {
+  let statsFile: string;
+
+  beforeEach(() => {
+    statsFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "process-stats-")), "stats");
+  });
+
+  afterEach(() => {
+    fs.rmSync(path.dirname(statsFile), { recursive: true, force: true });
+  });
+
+  it("reads the signal GNU time reports", () => {
+    fs.writeFileSync(statsFile, "Command terminated by signal 11\n2048\n");
+    expect(readTerminatingSignal(statsFile, 139)).toBe("SIGSEGV");
+  });
+
+  it("takes the signal number from the exit code when BSD time flags a signal", () => {
+    fs.writeFileSync(statsFile, "Command terminated abnormally.\n        0.01 real         0.00 user\n");
+    expect(readTerminatingSignal(statsFile, 152)).toBe("SIGXCPU");
+  });
+
+  it("keeps a program's own exit code above 128 as an exit code", () => {
+    fs.writeFileSync(statsFile, "Command exited with non-zero status 130\n2048\n");
+    expect(readTerminatingSignal(statsFile, 130)).toBeNull();
+    fs.writeFileSync(statsFile, "        0.01 real         0.00 user\n");
+    expect(readTerminatingSignal(statsFile, 130)).toBeNull();
+  });
+
+  it("returns null when nothing was recorded", () => {
+    expect(readTerminatingSignal(statsFile, 130)).toBeNull();
+  });
+});
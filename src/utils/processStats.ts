@@ -0,0 +1,82 @@
+// utils/processStats.ts
+import * as fs from "fs";
+import * as os from "os";
+import { quoteShellArgument } from "./inputParsing";
+
+const TIME_BINARY = "/usr/bin/time";
+
+/**
+ * Wraps a command with `/usr/bin/time` so its peak memory usage is written to a stats file.
+ * `time` can only start a single program, so the command runs in its own `sh -c`; compound commands such as
+ * `cd dir && bun file.ts` or pipelines are measured as a whole, including every process the shell waits for.
+ * @param command The shell command to wrap.
+ * @param statsFile The file the stats are written to.
+ * @returns The wrapped command, or the original command if peak memory cannot be measured on this system.
+ */
+export function wrapWithMemoryTracking(command: string, statsFile: string): string {
+  if (!fs.existsSync(TIME_BINARY)) {
+    return command;
+  }
+  // BSD time (macOS) reports in bytes with -l; GNU time (Linux) reports kilobytes with the %M format
+  const timeFlags = os.platform() === "darwin" ? "-l" : "-f %M";
+  return `${TIME_BINARY} ${timeFlags} -o ${quoteShellArgument(statsFile)} /bin/sh -c ${quoteShellArgument(command)}`;
+}
+
+/**
+ * Reads the peak memory usage recorded by `wrapWithMemoryTracking`.
+ * @param statsFile The stats file written by `/usr/bin/time`.
+ * @returns The peak resident set size in kilobytes, or null if it was not recorded.
+ */
+export function readPeakMemoryKb(statsFile: string): number | null {
+  let stats: string;
+  try {
+    stats = fs.readFileSync(statsFile, "utf-8");
+  } catch {
+    return null;
+  }
+
+  if (os.platform() === "darwin") {
+    const match = stats.match(/(\d+)\s+maximum resident set size/);
+    return match ? Math.round(Number(match[1]) / 1024) : null;
+  }
+  // GNU time may prefix the value with a line such as "Command exited with non-zero status 1"
+  const lines = stats.trim().split("\n");
+  const peakKb = Number(lines[lines.length - 1]);
+  return Number.isFinite(peakKb) ? peakKb : null;
+}
+
+/**
+ * Reads the signal that killed the program, as reported by `/usr/bin/time`, which waits for it directly.
+ * A shell reports such a program with an exit code of 128 + the signal number, which a program can also exit with
+ * itself (e.g., `exit(130)`), so the exit code alone never counts as a signal.
+ * @param statsFile The stats file written by `wrapWithMemoryTracking`.
+ * @param exitCode The exit code the run ended with.
+ * @returns The signal, or null if the program was not killed by one or no report was recorded.
+ */
+export function readTerminatingSignal(statsFile: string, exitCode: number | null): NodeJS.Signals | null {
+  let stats: string;
+  try {
+    stats = fs.readFileSync(statsFile, "utf-8");
+  } catch {
+    return null;
+  }
+
+  // GNU time names the signal number
+  const signalNumber = stats.match(/^Command terminated by signal (\d+)/m)?.[1];
+  if (signalNumber) {
+    return findSignalName(Number(signalNumber));
+  }
+  // BSD time only flags it, then kills itself with the same signal, so the exit code carries the number
+  if (/^Command terminated abnormally/m.test(stats) && exitCode !== null && exitCode > 128) {
+    return findSignalName(exitCode - 128);
+  }
+  return null;
+}
+
+/**
+ * Looks up the name of a signal number on this system.
+ */
+function findSignalName(signalNumber: number): NodeJS.Signals | null {
+  const names = Object.keys(os.constants.signals) as NodeJS.Signals[];
+  return names.find((name) => os.constants.signals[name] === signalNumber) ?? null;
+}
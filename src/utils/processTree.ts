@@ -0,0 +1,20 @@
+// utils/processTree.ts
+import { ChildProcess } from "child_process";
+
+/**
+ * Kills a child process together with every process it started (e.g. the binary built by `go build`).
+ * The child must have been spawned with `detached: true` so that it leads its own process group.
+ * @param child The child process to kill.
+ * @param signal The signal to send.
+ */
+export function killProcessTree(child: ChildProcess, signal: NodeJS.Signals): void {
+  if (child.pid === undefined) {
+    return;
+  }
+  try {
+    process.kill(-child.pid, signal);
+  } catch {
+    // The process group is already gone or not available; fall back to the direct child
+    child.kill(signal);
+  }
+}
@@ -0,0 +1,184 @@
+// utils/projectTemplates.ts
+import { parseDependencies } from "./dependencies";
+
+/**
+ * A file of an exported project.
+ */
+export interface ProjectFile {
+  path: string; // Relative to the project directory
+  contents: string;
+  executable?: boolean; // Made executable, e.g. a script with a shebang
+}
+
+/**
+ * The files of an exported project and the command that runs it from its directory.
+ */
+export interface ProjectLayout {
+  files: ProjectFile[];
+  runCommand: string;
+}
+
+/**
+ * Details of the export a project template can use.
+ */
+export interface ProjectContext {
+  name: string; // The project name, already usable as a module or package name
+  version: string | null; // Version of the language's toolchain (e.g., '1.21.5'), if known
+  shebang?: string; // The language's shebang line, for scripts
+}
+
+/**
+ * Lays out a runnable project for a snippet, with the manifest files its toolchain expects.
+ */
+export type ProjectTemplate = (code: string, context: ProjectContext) => ProjectLayout;
+
+/**
+ * Puts a shebang line at the top of a script, unless it already has one.
+ * @param code The script.
+ * @param shebang The shebang line, if the language has one.
+ * @returns The script, starting with a shebang where there is one.
+ */
+export function addShebang(code: string, shebang: string | undefined): string {
+  return shebang && !code.startsWith("#!") ? `${shebang}\n${code}` : code;
+}
+
+/**
+ * Splits an npm package specifier into its name and version range (e.g., '@types/node@20' into '@types/node' and
+ * '20'); packages without a version get any version.
+ */
+function splitNpmSpecifier(specifier: string): [string, string] {
+  const versionAt = specifier.lastIndexOf("@");
+  return versionAt > 0 ? [specifier.slice(0, versionAt), specifier.slice(versionAt + 1)] : [specifier, "*"];
+}
+
+/**
+ * Builds the package.json of a Node project, with the packages from the snippet's `// deps:` comments.
+ */
+function buildPackageJson(code: string, context: ProjectContext, startScript: string, devDependencies = {}): string {
+  const dependencies = Object.fromEntries(
+    (parseDependencies("npm", code)?.packages ?? []).map((specifier) => splitNpmSpecifier(specifier)),
+  );
+  const manifest = {
+    name: context.name,
+    version: "1.0.0",
+    private: true,
+    // ES module syntax needs the package to be a module
+    ...(/^\s*(import|export)\s/m.test(code) ? { type: "module" } : {}),
+    scripts: { start: startScript },
+    ...(Object.keys(dependencies).length > 0 ? { dependencies } : {}),
+    ...(Object.keys(devDependencies).length > 0 ? { devDependencies } : {}),
+  };
+  return `${JSON.stringify(manifest, null, 2)}\n`;
+}
+
+/**
+ * A Node project: `package.json` and `index.js`.
+ */
+export const javaScriptProject: ProjectTemplate = (code, context) => {
+  const hasDependencies = parseDependencies("npm", code) !== null;
+  return {
+    files: [
+      { path: "package.json", contents: buildPackageJson(code, context, "node index.js") },
+      { path: "index.js", contents: code },
+    ],
+    runCommand: hasDependencies ? "npm install && npm start" : "npm start",
+  };
+};
+
+/**
+ * A TypeScript project run with `tsx`: `package.json` and `index.ts`.
+ */
+export const typeScriptProject: ProjectTemplate = (code, context) => ({
+  files: [
+    { path: "package.json", contents: buildPackageJson(code, context, "tsx index.ts", { tsx: "^4.0.0" }) },
+    { path: "index.ts", contents: code },
+  ],
+  runCommand: "npm install && npm start",
+});
+
+/**
+ * A Python script, with a `requirements.txt` of the packages from its PEP 723 block.
+ */
+export const pythonProject: ProjectTemplate = (code, context) => {
+  const packages = parseDependencies("pip", code)?.packages ?? [];
+  return {
+    files: [
+      { path: "main.py", contents: addShebang(code, context.shebang), executable: true },
+      ...(packages.length > 0 ? [{ path: "requirements.txt", contents: `${packages.join("\n")}\n` }] : []),
+    ],
+    runCommand: packages.length > 0 ? "pip install -r requirements.txt && python3 main.py" : "python3 main.py",
+  };
+};
+
+/**
+ * A Go module: `go.mod` and `main.go`. Modules from `// deps:` comments are added by `go mod tidy`.
+ */
+export const goProject: ProjectTemplate = (code, context) => {
+  // The go directive enables the language features of the toolchain the snippet was run with
+  const goVersion = context.version?.match(/^\d+\.\d+/)?.[0];
+  return {
+    files: [
+      { path: "go.mod", contents: `module ${context.name}\n${goVersion ? `\ngo ${goVersion}\n` : ""}` },
+      { path: "main.go", contents: code },
+    ],
+    runCommand: parseDependencies("go", code) ? "go mod tidy && go run ." : "go run .",
+  };
+};
+
+/**
+ * A Cargo package: `Cargo.toml` and `src/main.rs`.
+ */
+export const rustProject: ProjectTemplate = (code, context) => ({
+  files: [
+    {
+      path: "Cargo.toml",
+      contents: `[package]\nname = "${context.name}"\nversion = "0.1.0"\nedition = "2021"\n\n[dependencies]\n`,
+    },
+    { path: "src/main.rs", contents: code },
+  ],
+  runCommand: "cargo run",
+});
+
+/**
+ * Builds a project of a single C or C++ file with a Makefile.
+ */
+function makeProject(code: string, sourceFile: string, buildRule: string): ProjectLayout {
+  return {
+    files: [
+      { path: sourceFile, contents: code },
+      { path: "Makefile", contents: `main: ${sourceFile}\n\t${buildRule}\n\nclean:\n\trm -f main\n` },
+    ],
+    runCommand: "make && ./main",
+  };
+}
+
+/**
+ * A C program with a Makefile.
+ */
+export const cProject: ProjectTemplate = (code) => makeProject(code, "main.c", "$(CC) -o $@ $<");
+
+/**
+ * A C++ program with a Makefile.
+ */
+export const cppProject: ProjectTemplate = (code) => makeProject(code, "main.cpp", "$(CXX) -std=c++17 -o $@ $<");
+
+/**
+ * A Java program, in a file named after its public class as the compiler requires.
+ */
+export const javaProject: ProjectTemplate = (code) => {
+  const fileName = `${getJavaClassName(code)}.java`;
+  return { files: [{ path: fileName, contents: code }], runCommand: `java ${fileName}` };
+};
+
+/**
+ * Finds the class a Java file must be named after: its public class, or else its first class.
+ * @param code The Java source.
+ * @returns The class name, or 'Main' if the code declares no class.
+ */
+export function getJavaClassName(code: string): string {
+  return (
+    code.match(/^\s*public\s+(?:(?:final|abstract)\s+)*class\s+(\w+)/m)?.[1] ??
+    code.match(/^\s*(?:(?:final|abstract)\s+)*class\s+(\w+)/m)?.[1] ??
+    "Main"
+  );
+}
@@ -0,0 +1,394 @@
+// utils/replSession.ts
+import { ChildProcess, spawn } from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+import { v4 as uuidv4 } from "uuid";
+import {
+  CodeExecutionResult,
+  CodeRun,
+  CodeRunOutputListener,
+  DetectedLanguage,
+  RunCodeOptions,
+  createExecutionResult,
+} from "./codeRunner";
+import { quoteShellArgument } from "./inputParsing";
+import { getLanguageDefinition } from "./languages";
+import { OUTPUT_DIR_ENV, collectOutputFiles, createOutputDirectory } from "./outputFiles";
+import { killProcessTree } from "./processTree";
+import {
+  ResourceLimitKind,
+  ResourceLimits,
+  buildLimitPrefix,
+  describeLimitExceeded,
+  describeLimitNotApplied,
+  findUnappliedLimit,
+  resolveResourceLimits,
+} from "./resourceLimits";
+import { SandboxReport, buildSandboxSpawn, isSandboxEnabled } from "./sandbox";
+import { createRunWorkspace } from "./workspace";
+
+/**
+ * Inputs of a run in a session. The memory limit is applied when the session starts; the CPU time limit does not
+ * apply, since CPU time adds up over the life of the session.
+ */
+export type SessionRunOptions = Pick<RunCodeOptions, "stdin" | "args" | "env" | "limits">;
+
+/**
+ * A long-lived interpreter that keeps variables, imports and definitions between runs.
+ */
+export interface ReplSession {
+  language: string; // Language value (e.g., 'python')
+  executablePath: string; // The interpreter the session was started with
+  memoryMb: number; // Memory limit applied to the interpreter when it started; 0 for none
+  sandbox: SandboxReport | null; // Protections active for the whole session, if it was started sandboxed
+  startedAt: number; // In milliseconds since the epoch
+  readonly runCount: number; // Runs sent to the session so far
+  readonly isAlive: boolean; // False once the interpreter has exited or was stopped
+  run: (code: string, options?: SessionRunOptions) => CodeRun; // Runs code with the state left by earlier runs
+  dispose: () => void; // Stops the interpreter, discarding its state
+}
+
+/**
+ * The run currently executing in a session.
+ */
+interface ActiveSessionRun {
+  output: { stdout: string; stderr: string };
+  capturedBytes: { stdout: number; stderr: number };
+  done: { stdout: boolean; stderr: boolean }; // Whether each stream's end-of-run marker was received
+  status: "ok" | "error";
+  listeners: Set<CodeRunOutputListener>;
+  startedAt: number;
+  limits: ResourceLimits;
+  runId: string;
+  outputDir: string; // Where the run can write images, passed in the CODE_RUNNER_OUTPUT_DIR environment variable
+  stopReason: "cancelled" | ResourceLimitKind | null; // Why the session was stopped during this run, if it was
+  timeoutHandle?: NodeJS.Timeout;
+  resolve: (result: CodeExecutionResult) => void;
+}
+
+const liveSessions = new Set<ReplSession>();
+
+/**
+ * Checks whether a language can run in session mode.
+ * @param language The language value.
+ * @returns True if the language has a session driver.
+ */
+export function supportsSessions(language: string): boolean {
+  return Boolean(getLanguageDefinition(language)?.sessionDriver);
+}
+
+/**
+ * Stops every running session. Called when the command closes, so no interpreter outlives it.
+ */
+export function disposeAllSessions(): void {
+  liveSessions.forEach((session) => session.dispose());
+}
+
+// A safety net for when the extension process exits without unmounting the command
+process.once("exit", disposeAllSessions);
+
+/**
+ * Creates a run that has already finished, for runs that cannot be sent to a session.
+ */
+function createFinishedRun(command: string | null, error: string): CodeRun {
+  return {
+    command,
+    result: Promise.resolve(createExecutionResult({ command, error })),
+    cancelled: false,
+    subscribe: () => () => undefined,
+    cancel: () => undefined,
+  };
+}
+
+/**
+ * Starts a session: the language's session driver, run by its interpreter in a login shell, which receives each
+ * run's code on stdin and marks the end of its output so the session can tell runs apart.
+ * @param language The detected language, with the interpreter to use.
+ * @param limits Limit overrides; only the memory limit applies to the session as a whole.
+ * @param sandboxed Whether to start the interpreter in the sandbox, which then applies to every run; defaults to the
+ * Sandboxed Mode preference.
+ * @returns The session, or null if the language has no session driver.
+ */
+export function startReplSession(
+  language: DetectedLanguage,
+  limits?: Partial<ResourceLimits>,
+  sandboxed = isSandboxEnabled(),
+): ReplSession | null {
+  const definition = getLanguageDefinition(language.value);
+  if (!definition?.sessionDriver) {
+    return null;
+  }
+
+  // The session's workspace holds its driver and the output directories of its runs until it exits
+  const workspace = createRunWorkspace();
+  const tempDir = workspace.directory;
+  const driverPath = path.join(tempDir, `session-${workspace.id}${definition.extension}`);
+  fs.writeFileSync(driverPath, definition.sessionDriver);
+
+  const token = `__code_runner_session_${uuidv4().replace(/-/g, "")}__`;
+  const executableCommand = language.command || definition.commands[0];
+  const driverCommand = definition.run({
+    command: executableCommand,
+    executable: language.executablePath ? quoteShellArgument(language.executablePath) : executableCommand,
+    filePath: driverPath,
+    outputPath: path.join(tempDir, workspace.id),
+    directory: tempDir,
+  });
+  const sessionLimits = resolveResourceLimits(limits);
+  const limitPrefix = buildLimitPrefix({ ...sessionLimits, cpuTimeSeconds: 0 });
+  const rawCommand = `${limitPrefix}exec ${driverCommand}`;
+  const defaultShellPath = process.env.SHELL || "/bin/zsh";
+  const sessionEnv = {
+    MPLBACKEND: process.env.MPLBACKEND ?? "Agg",
+    CODE_RUNNER_SESSION_TOKEN: token,
+    PYTHONUNBUFFERED: "1",
+  };
+  const spawnSetup = sandboxed
+    ? buildSandboxSpawn(defaultShellPath, rawCommand, {
+        directory: tempDir,
+        executablePath: language.executablePath,
+        env: sessionEnv,
+      })
+    : { file: defaultShellPath, args: ["-l", "-c", rawCommand], env: { ...process.env, ...sessionEnv }, report: null };
+  const command = `${spawnSetup.file} ${spawnSetup.args.map(quoteShellArgument).join(" ")}`;
+
+  let alive = true;
+  let runCount = 0;
+  let activeRun: ActiveSessionRun | null = null;
+  // Unfinished lines that may be the start of a marker, and output produced between runs (e.g., by timers)
+  const pending = { stdout: "", stderr: "" };
+  const strayOutput = { stdout: "", stderr: "" };
+
+  // Detached so the shell leads its own process group, letting us kill everything the session starts
+  const child: ChildProcess = spawn(spawnSetup.file, spawnSetup.args, {
+    cwd: tempDir,
+    env: spawnSetup.env,
+    detached: true,
+  });
+
+  const stop = () => {
+    if (!alive) {
+      return;
+    }
+    killProcessTree(child, "SIGTERM");
+    setTimeout(() => {
+      if (alive) {
+        killProcessTree(child, "SIGKILL");
+      }
+    }, 2000).unref();
+  };
+
+  const finishRun = (fields: Partial<CodeExecutionResult>) => {
+    if (!activeRun) {
+      return;
+    }
+    const run = activeRun;
+    activeRun = null;
+    clearTimeout(run.timeoutHandle);
+    run.resolve(
+      createExecutionResult({
+        stdout: run.output.stdout,
+        stderr: run.output.stderr,
+        command,
+        runDurationMs: Date.now() - run.startedAt,
+        outputFiles: collectOutputFiles(run.outputDir, run.runId),
+        sandbox: spawnSetup.report ?? undefined,
+        ...fields,
+      }),
+    );
+  };
+
+  // Adds output to the active run, truncating it and stopping the session once the output limit is reached
+  const emit = (stream: "stdout" | "stderr", text: string) => {
+    if (!text) {
+      return;
+    }
+    if (!activeRun) {
+      strayOutput[stream] += text;
+      return;
+    }
+    if (activeRun.stopReason) {
+      return;
+    }
+    const maxOutputBytes = activeRun.limits.maxOutputKb * 1024;
+    let captured = text;
+    const chunkBytes = Buffer.byteLength(text);
+    if (maxOutputBytes > 0 && activeRun.capturedBytes[stream] + chunkBytes > maxOutputBytes) {
+      const remainingBytes = maxOutputBytes - activeRun.capturedBytes[stream];
+      captured = `${Buffer.from(text).subarray(0, remainingBytes).toString("utf-8")}\n[… output truncated at ${activeRun.limits.maxOutputKb} KB]\n`;
+      activeRun.stopReason = "output";
+      stop();
+    }
+    activeRun.capturedBytes[stream] += chunkBytes;
+    activeRun.output[stream] += captured;
+    activeRun.listeners.forEach((listener) => listener(stream, captured));
+  };
+
+  // Splits the end-of-run marker off a stream's output, holding back a last line that may be an incomplete marker
+  const consume = (stream: "stdout" | "stderr", chunk: string) => {
+    pending[stream] += chunk;
+    const marker = `\n${token}`;
+    const markerIndex = pending[stream].indexOf(marker);
+    if (markerIndex >= 0) {
+      const markerEnd = pending[stream].indexOf("\n", markerIndex + 1);
+      if (markerEnd < 0) {
+        return;
+      }
+      const markerLine = pending[stream].slice(markerIndex + 1, markerEnd);
+      const rest = pending[stream].slice(markerEnd + 1);
+      emit(stream, pending[stream].slice(0, markerIndex));
+      pending[stream] = "";
+      if (activeRun) {
+        activeRun.done[stream] = true;
+        if (markerLine.endsWith(":error")) {
+          activeRun.status = "error";
+        }
+        if (activeRun.done.stdout && activeRun.done.stderr) {
+          const failed = activeRun.status === "error";
+          finishRun({
+            exitCode: failed ? 1 : 0,
+            error: failed ? "The code raised an error. The session keeps the state from before the error." : null,
+          });
+        }
+      }
+      consume(stream, rest);
+      return;
+    }
+    const lastNewline = pending[stream].lastIndexOf("\n");
+    const holdFrom =
+      lastNewline >= 0 && marker.startsWith(pending[stream].slice(lastNewline)) ? lastNewline : pending[stream].length;
+    emit(stream, pending[stream].slice(0, holdFrom));
+    pending[stream] = pending[stream].slice(holdFrom);
+  };
+
+  child.stdout?.setEncoding("utf-8");
+  child.stderr?.setEncoding("utf-8");
+  child.stdout?.on("data", (chunk: string) => consume("stdout", chunk));
+  child.stderr?.on("data", (chunk: string) => consume("stderr", chunk));
+  child.stdin?.on("error", () => undefined);
+
+  const onExit = (exitCode: number | null, signal: NodeJS.Signals | null, spawnError?: Error) => {
+    if (!alive) {
+      return;
+    }
+    alive = false;
+    liveSessions.delete(session);
+    workspace.dispose();
+    if (!activeRun) {
+      return;
+    }
+    emit("stdout", pending.stdout);
+    emit("stderr", pending.stderr);
+    const { stopReason, limits: runLimits } = activeRun;
+    const unappliedLimit = findUnappliedLimit(activeRun.output.stderr);
+    let error: string | null;
+    if (spawnError) {
+      error = `Failed to start ${defaultShellPath}: ${spawnError.message}`;
+    } else if (stopReason === "cancelled") {
+      error = "Code execution was stopped. The session was ended.";
+    } else if (stopReason) {
+      error = `${describeLimitExceeded(stopReason, runLimits)} The session was ended.`;
+    } else if (unappliedLimit) {
+      error = describeLimitNotApplied(unappliedLimit, runLimits);
+    } else if (exitCode === 0) {
+      error = null;
+    } else {
+      error = signal ? `The session was terminated by signal ${signal}.` : `The session exited with code ${exitCode}.`;
+    }
+    finishRun({ error, exitCode, signal, limitExceeded: stopReason && stopReason !== "cancelled" ? stopReason : null });
+  };
+  child.on("error", (spawnError) => onExit(null, null, spawnError));
+  child.on("close", (exitCode, signal) => onExit(exitCode, signal));
+
+  const session: ReplSession = {
+    language: language.value,
+    executablePath: language.executablePath,
+    memoryMb: sessionLimits.memoryMb,
+    sandbox: spawnSetup.report,
+    startedAt: Date.now(),
+    get runCount() {
+      return runCount;
+    },
+    get isAlive() {
+      return alive;
+    },
+    run: (code, options = {}) => {
+      if (!alive) {
+        return createFinishedRun(command, "The session has ended. Reset it to start a new one.");
+      }
+      if (activeRun) {
+        return createFinishedRun(command, "A run is already in progress in this session.");
+      }
+
+      const runLimits = resolveResourceLimits(options.limits);
+      const runId = uuidv4();
+      let cancelled = false;
+      let resolveResult: (result: CodeExecutionResult) => void = () => undefined;
+      const result = new Promise<CodeExecutionResult>((resolve) => {
+        resolveResult = resolve;
+      });
+      const run: ActiveSessionRun = {
+        output: { stdout: "", stderr: "" },
+        capturedBytes: { stdout: 0, stderr: 0 },
+        done: { stdout: false, stderr: false },
+        status: "ok",
+        listeners: new Set(),
+        startedAt: Date.now(),
+        limits: runLimits,
+        runId,
+        outputDir: createOutputDirectory(tempDir, runId),
+        stopReason: null,
+        resolve: resolveResult,
+      };
+      if (runLimits.timeoutSeconds > 0) {
+        run.timeoutHandle = setTimeout(() => {
+          run.stopReason = "timeout";
+          stop();
+        }, runLimits.timeoutSeconds * 1000);
+      }
+      activeRun = run;
+      runCount++;
+
+      // Output produced after the previous run finished belongs to this one
+      emit("stdout", strayOutput.stdout);
+      emit("stderr", strayOutput.stderr);
+      strayOutput.stdout = "";
+      strayOutput.stderr = "";
+
+      const request = {
+        code,
+        // Named like runCode's temp files, so diagnostics refer to lines of the snippet
+        filename: path.join(tempDir, `${runId}${definition.extension}`),
+        stdin: options.stdin ?? "",
+        args: options.args ?? [],
+        env: { [OUTPUT_DIR_ENV]: run.outputDir, ...options.env },
+      };
+      child.stdin?.write(`${JSON.stringify(request)}\n`);
+
+      return {
+        command,
+        result,
+        get cancelled() {
+          return cancelled;
+        },
+        subscribe: (listener) => {
+          run.listeners.add(listener);
+          return () => {
+            run.listeners.delete(listener);
+          };
+        },
+        cancel: () => {
+          if (activeRun !== run || cancelled) {
+            return;
+          }
+          cancelled = true;
+          run.stopReason = "cancelled";
+          stop();
+        },
+      };
+    },
+    dispose: stop,
+  };
+  liveSessions.add(session);
+  return session;
+}
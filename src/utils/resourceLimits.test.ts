@@ -0,0 +1,114 @@
+// utils/resourceLimits.test.ts
+import { spawnSync } from "child_process";
+import { describe, expect, it } from "vitest";
+import {
+  buildLimitPrefix,
+  classifyLimitFailure,
+  describeLimitNotApplied,
+  findUnappliedLimit,
+  isOutOfMemoryError,
+  parseLimitOverrides,
+  resolveResourceLimits,
+  ResourceLimits,
+} from "./resourceLimits";
+
+const limits: ResourceLimits = { timeoutSeconds: 5, cpuTimeSeconds: 10, memoryMb: 256, maxOutputKb: 1024 };
+
+/**
+ * Runs a script in `sh`, the way the runner runs the limit prefix.
+ */
+function runShell(script: string) {
+  return spawnSync("/bin/sh", ["-c", script], { encoding: "utf8" });
+}
+
+describe("buildLimitPrefix", () => {
+  it("is empty when no CPU or memory limit is set", () => {
+    expect(buildLimitPrefix({ ...limits, cpuTimeSeconds: 0, memoryMb: 0 })).toBe("");
+  });
+
+  it("rounds the limits to whole seconds and kilobytes", () => {
+    const prefix = buildLimitPrefix({ ...limits, cpuTimeSeconds: 0.2, memoryMb: 1.5 });
+    expect(prefix).toContain("ulimit -t 1 ");
+    expect(prefix).toContain("ulimit -v 1536 ");
+  });
+
+  it("runs the program when the limits can be applied", () => {
+    const result = runShell(`${buildLimitPrefix({ ...limits, memoryMb: 0 })}echo ran; ulimit -t`);
+    expect(result.status).toBe(0);
+    expect(result.stdout).toBe("ran\n10\n");
+    expect(findUnappliedLimit(result.stderr)).toBeNull();
+  });
+
+  it("stops before the program with a notice when a limit cannot be applied", () => {
+    // Stands in for a shell that refuses the limit, like `ulimit -v` on macOS
+    const result = runShell(`ulimit() { [ "$1" != -v ] && command ulimit "$@"; }; ${buildLimitPrefix(limits)}echo ran`);
+    expect(result.status).toBe(1);
+    expect(result.stdout).toBe("");
+    expect(findUnappliedLimit(result.stderr)).toBe("memory");
+  });
+});
+
+describe("findUnappliedLimit", () => {
+  it("reads the limit from the notice", () => {
+    expect(findUnappliedLimit("[Code Runner] Could not apply the memory limit.\n")).toBe("memory");
+    expect(findUnappliedLimit("warning\n[Code Runner] Could not apply the CPU time limit.\n")).toBe("cpu");
+  });
+
+  it("ignores the notice when it is not at the start of a line", () => {
+    expect(findUnappliedLimit("echo '[Code Runner] Could not apply the memory limit.'")).toBeNull();
+  });
+
+  it("describes the limit that was not applied", () => {
+    expect(describeLimitNotApplied("memory", limits)).toContain("memory limit of 256 MB could not be applied");
+  });
+});
+
+describe("classifyLimitFailure", () => {
+  it("attributes SIGXCPU and SIGKILL to the CPU limit only when it is set", () => {
+    expect(classifyLimitFailure("SIGXCPU", "", limits)).toBe("cpu");
+    expect(classifyLimitFailure("SIGKILL", "", limits)).toBe("cpu");
+    expect(classifyLimitFailure("SIGKILL", "", { ...limits, cpuTimeSeconds: 0 })).toBeNull();
+  });
+
+  it("attributes allocation failures to the memory limit only when it is set", () => {
+    expect(classifyLimitFailure(null, "MemoryError", limits)).toBe("memory");
+    expect(classifyLimitFailure(null, "MemoryError", { ...limits, memoryMb: 0 })).toBeNull();
+  });
+
+  it("leaves other failures to the program", () => {
+    expect(classifyLimitFailure("SIGSEGV", "Segmentation fault", limits)).toBeNull();
+    expect(classifyLimitFailure(null, "ZeroDivisionError: division by zero", limits)).toBeNull();
+  });
+});
+
+describe("isOutOfMemoryError", () => {
+  it("recognizes out-of-memory messages from several runtimes", () => {
+    expect(isOutOfMemoryError("terminate called after throwing an instance of 'std::bad_alloc'")).toBe(true);
+    expect(isOutOfMemoryError("memory allocation of 1048576 bytes failed")).toBe(true);
+    expect(isOutOfMemoryError("fatal error: runtime: out of memory")).toBe(true);
+    expect(isOutOfMemoryError("IndexError: list index out of range")).toBe(false);
+  });
+});
+
+describe("parseLimitOverrides", () => {
+  it("keeps only the fields that were filled in", () => {
+    expect(
+      parseLimitOverrides({ timeoutSeconds: " 2.5 ", cpuTimeSeconds: "", memoryMb: "0", maxOutputKb: "" }),
+    ).toEqual({ timeoutSeconds: 2.5, memoryMb: 0 });
+  });
+
+  it("rejects values that are not non-negative numbers", () => {
+    expect(() =>
+      parseLimitOverrides({ timeoutSeconds: "", cpuTimeSeconds: "-1", memoryMb: "", maxOutputKb: "" }),
+    ).toThrow("CPU time limit must be a non-negative number.");
+  });
+
+  it("falls back to the defaults for fields that were not overridden", () => {
+    expect(resolveResourceLimits({ memoryMb: 64 })).toEqual({
+      timeoutSeconds: 5,
+      cpuTimeSeconds: 0,
+      memoryMb: 64,
+      maxOutputKb: 1024,
+    });
+  });
+});
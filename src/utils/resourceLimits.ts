@@ -0,0 +1,211 @@
+// utils/resourceLimits.ts
+import { getExtensionPreferences } from "./preferences";
+
+/**
+ * Limits applied to a single run. A value of 0 disables the corresponding limit.
+ */
+export interface ResourceLimits {
+  timeoutSeconds: number; // Wall-clock time for the whole run, including compilation
+  cpuTimeSeconds: number; // CPU time of the program (not the compiler), enforced with `ulimit -t`
+  memoryMb: number; // Virtual memory of the program (not the compiler), enforced with `ulimit -v`
+  maxOutputKb: number; // Captured size of each of stdout and stderr
+}
+
+/**
+ * The limit that stopped a run.
+ */
+export type ResourceLimitKind = "timeout" | "cpu" | "memory" | "output";
+
+/**
+ * Per-run overrides as typed in the form. Empty strings fall back to the extension preferences.
+ */
+export interface ResourceLimitOverrides {
+  timeoutSeconds: string;
+  cpuTimeSeconds: string;
+  memoryMb: string;
+  maxOutputKb: string;
+}
+
+export const EMPTY_LIMIT_OVERRIDES: ResourceLimitOverrides = {
+  timeoutSeconds: "",
+  cpuTimeSeconds: "",
+  memoryMb: "",
+  maxOutputKb: "",
+};
+
+const DEFAULT_LIMITS: ResourceLimits = {
+  timeoutSeconds: 5,
+  cpuTimeSeconds: 0,
+  memoryMb: 0,
+  maxOutputKb: 1024,
+};
+
+const LIMIT_LABELS: Record<keyof ResourceLimits, string> = {
+  timeoutSeconds: "Timeout",
+  cpuTimeSeconds: "CPU time",
+  memoryMb: "Memory",
+  maxOutputKb: "Output size",
+};
+
+// Printed by the limit prefix when a limit cannot be set (e.g., `ulimit -v` on macOS), before it stops the run
+const LIMIT_NOT_APPLIED_PREFIX = "[Code Runner] Could not apply the";
+const LIMIT_NOT_APPLIED_PATTERN = /^\[Code Runner\] Could not apply the (CPU time|memory) limit/m;
+
+// Runtime messages that indicate an allocation failed because of the memory limit
+const OUT_OF_MEMORY_PATTERN =
+  /MemoryError|out of memory|Cannot allocate memory|std::bad_alloc|failed to allocate|memory allocation of \d+ bytes failed/i;
+
+/**
+ * Parses a non-negative number typed by the user.
+ * @param value The raw value.
+ * @returns The number, or undefined if the value is empty or invalid.
+ */
+function parseLimitValue(value: string | undefined): number | undefined {
+  if (value === undefined || !value.trim()) {
+    return undefined;
+  }
+  const parsed = Number(value.trim());
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+/**
+ * Reads the default limits from the extension preferences, falling back to built-in defaults for invalid values.
+ * @returns The default resource limits.
+ */
+export function getDefaultResourceLimits(): ResourceLimits {
+  const preferences = getExtensionPreferences();
+  return {
+    timeoutSeconds: parseLimitValue(preferences.timeoutSeconds) ?? DEFAULT_LIMITS.timeoutSeconds,
+    cpuTimeSeconds: parseLimitValue(preferences.cpuTimeSeconds) ?? DEFAULT_LIMITS.cpuTimeSeconds,
+    memoryMb: parseLimitValue(preferences.memoryMb) ?? DEFAULT_LIMITS.memoryMb,
+    maxOutputKb: parseLimitValue(preferences.maxOutputKb) ?? DEFAULT_LIMITS.maxOutputKb,
+  };
+}
+
+/**
+ * Converts per-run overrides typed in the form into limits.
+ * @param overrides The raw override values.
+ * @returns The overridden limits; empty fields are omitted so the defaults apply.
+ * @throws {Error} If a non-empty field is not a non-negative number.
+ */
+export function parseLimitOverrides(overrides: ResourceLimitOverrides): Partial<ResourceLimits> {
+  const limits: Partial<ResourceLimits> = {};
+  (Object.keys(overrides) as (keyof ResourceLimitOverrides)[]).forEach((key) => {
+    const rawValue = overrides[key];
+    if (!rawValue.trim()) {
+      return;
+    }
+    const parsed = parseLimitValue(rawValue);
+    if (parsed === undefined) {
+      throw new Error(`${LIMIT_LABELS[key]} limit must be a non-negative number.`);
+    }
+    limits[key] = parsed;
+  });
+  return limits;
+}
+
+/**
+ * Merges per-run overrides over the default limits from the preferences.
+ * @param overrides Limits to apply to this run only.
+ * @returns The limits for the run.
+ */
+export function resolveResourceLimits(overrides: Partial<ResourceLimits> = {}): ResourceLimits {
+  return { ...getDefaultResourceLimits(), ...overrides };
+}
+
+/**
+ * Builds the shell prefix that applies CPU and memory limits to the commands that follow it.
+ * A limit the system refuses makes the shell print a notice (see `findUnappliedLimit`) and exit, so the program never
+ * runs without a limit the UI reports.
+ * @param limits The limits for the run.
+ * @returns The `ulimit` commands, or an empty string if neither limit is set.
+ */
+export function buildLimitPrefix(limits: ResourceLimits): string {
+  const commands: [string, string][] = [];
+  if (limits.cpuTimeSeconds > 0) {
+    commands.push([`ulimit -t ${Math.max(1, Math.ceil(limits.cpuTimeSeconds))}`, "CPU time"]);
+  }
+  if (limits.memoryMb > 0) {
+    commands.push([`ulimit -v ${Math.floor(limits.memoryMb * 1024)}`, "memory"]);
+  }
+  return commands
+    .map(
+      ([command, label]) =>
+        `${command} 2>/dev/null || { echo '${LIMIT_NOT_APPLIED_PREFIX} ${label} limit.' >&2; exit 1; }; `,
+    )
+    .join("");
+}
+
+/**
+ * Finds the limit that the limit prefix could not apply, from the notice it printed.
+ * @param stderr The standard error of the run.
+ * @returns The limit, or null if every limit was applied.
+ */
+export function findUnappliedLimit(stderr: string): "cpu" | "memory" | null {
+  const label = stderr.match(LIMIT_NOT_APPLIED_PATTERN)?.[1];
+  return label === "CPU time" ? "cpu" : label === "memory" ? "memory" : null;
+}
+
+/**
+ * Describes a limit that could not be applied, so the program was not run.
+ * @param kind The limit.
+ * @param limits The limits of the run.
+ * @returns A user-facing error message.
+ */
+export function describeLimitNotApplied(kind: "cpu" | "memory", limits: ResourceLimits): string {
+  const limit =
+    kind === "cpu"
+      ? `CPU time limit of ${limits.cpuTimeSeconds} seconds could not be applied`
+      : `memory limit of ${limits.memoryMb} MB could not be applied (macOS does not support \`ulimit -v\`)`;
+  return `The ${limit}, so the code was not run. Clear the limit to run it.`;
+}
+
+/**
+ * Checks whether a failed run looks like it ran out of memory.
+ * @param stderr The program's standard error.
+ * @returns True if stderr contains a known out-of-memory message.
+ */
+export function isOutOfMemoryError(stderr: string): boolean {
+  return OUT_OF_MEMORY_PATTERN.test(stderr);
+}
+
+/**
+ * Works out which limit stopped a program that failed, from how it ended.
+ * @param signal The signal that ended the program, if any.
+ * @param stderr The program's standard error.
+ * @param limits The limits of the run.
+ * @returns The CPU or memory limit, or null if the program failed on its own.
+ */
+export function classifyLimitFailure(
+  signal: NodeJS.Signals | null,
+  stderr: string,
+  limits: ResourceLimits,
+): "cpu" | "memory" | null {
+  // Exceeding the soft CPU limit sends SIGXCPU; a program that ignores it gets SIGKILL at the hard limit
+  if (limits.cpuTimeSeconds > 0 && (signal === "SIGXCPU" || signal === "SIGKILL")) {
+    return "cpu";
+  }
+  if (limits.memoryMb > 0 && isOutOfMemoryError(stderr)) {
+    return "memory";
+  }
+  return null;
+}
+
+/**
+ * Describes which limit stopped a run.
+ * @param kind The limit that was hit.
+ * @param limits The limits of the run.
+ * @returns A user-facing error message.
+ */
+export function describeLimitExceeded(kind: ResourceLimitKind, limits: ResourceLimits): string {
+  switch (kind) {
+    case "timeout":
+      return `Code execution timed out after ${limits.timeoutSeconds} seconds (wall-clock limit). This could be due to an infinite loop or a long-running process.`;
+    case "cpu":
+      return `Code execution exceeded the CPU time limit of ${limits.cpuTimeSeconds} seconds.`;
+    case "memory":
+      return `Code execution exceeded the memory limit of ${limits.memoryMb} MB.`;
+    case "output":
+      return `Output exceeded the limit of ${limits.maxOutputKb} KB, so the program was stopped and its output truncated.`;
+  }
+}
@@ -0,0 +1,41 @@
+// utils/richOutput.test.ts
+import { describe, expect, it } from "vitest";
+import { detectOutputFormat, parseDelimited, parseJsonOutput, stripAnsi } from "./richOutput";
+
+describe("detectOutputFormat", () => {
+  it("recognizes a JSON document and JSON Lines", () => {
+    expect(detectOutputFormat('{"a": [1, 2]}\n')).toBe("json");
+    expect(detectOutputFormat('{"id": 1}\n{"id": 2}\n')).toBe("json");
+  });
+
+  it("recognizes CSV and TSV tables", () => {
+    expect(detectOutputFormat("name,age\nJane,30\n")).toBe("csv");
+    expect(detectOutputFormat("name\tage\nJane\t30\n")).toBe("tsv");
+  });
+
+  it("treats other output as text", () => {
+    expect(detectOutputFormat("Hello, world!\n")).toBe("text");
+    expect(detectOutputFormat("[1, 2] is a list\n")).toBe("text");
+    expect(detectOutputFormat("a,b\nc,d,e\n")).toBe("text");
+  });
+});
+
+describe("parseJsonOutput", () => {
+  it("returns undefined for JSON Lines of plain values", () => {
+    expect(parseJsonOutput("{}\n1\n")).toBeUndefined();
+  });
+});
+
+describe("parseDelimited", () => {
+  it("keeps delimiters and escaped quotes inside quoted fields", () => {
+    expect(parseDelimited('"Doe, Jane","say ""hi"""\r\n', ",")).toEqual([["Doe, Jane", 'say "hi"']]);
+  });
+});
+
+describe("stripAnsi", () => {
+  it("removes color and hyperlink sequences", () => {
+    expect(stripAnsi("\u001b[1;31mred\u001b[0m \u001b]8;;https://example.com\u0007link\u001b]8;;\u0007")).toBe(
+      "red link",
+    );
+  });
+});
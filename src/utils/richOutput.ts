@@ -0,0 +1,213 @@
+// utils/richOutput.ts
+import * as path from "path";
+import { toCodeBlock } from "./formatting";
+
+/**
+ * How program output is rendered.
+ */
+export type OutputFormat = "json" | "csv" | "tsv" | "text";
+
+// CSI sequences (colors, cursor movement) and OSC sequences (titles, hyperlinks)
+// eslint-disable-next-line no-control-regex
+const ANSI_PATTERN = /\u001b\[[0-?]*[ -/]*[@-~]|\u001b\][^\u0007\u001b]*(?:\u0007|\u001b\\)|\u001b[@-Z\\-_]/g;
+
+// Collapsed JSON shows this many items of each array or object
+const COLLAPSED_JSON_ITEMS = 20;
+const COLLAPSED_JSON_DEPTH = 3;
+// Larger tables are cut off, since Markdown tables of thousands of rows render slowly
+const MAX_TABLE_ROWS = 200;
+
+/**
+ * Removes ANSI escape sequences (colors, cursor movement) from program output.
+ * @param text The raw output.
+ * @returns The text without escape sequences.
+ */
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, "");
+}
+
+/**
+ * Makes ANSI escape sequences visible, for the raw output view (e.g., `␛[31m`).
+ * @param text The raw output.
+ * @returns The text with each escape character replaced by `␛`.
+ */
+export function showAnsiEscapes(text: string): string {
+  return text.split("\u001b").join("␛");
+}
+
+/**
+ * Parses JSON output: a single JSON object or array, or JSON Lines (one object or array per line).
+ * @param text The output, without ANSI escape sequences.
+ * @returns The parsed value (an array of the lines' values for JSON Lines), or undefined if the output is not JSON.
+ */
+export function parseJsonOutput(text: string): unknown {
+  const trimmed = text.trim();
+  if (!/^[[{]/.test(trimmed)) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    // Not a single document; try JSON Lines below
+  }
+  const lines = trimmed.split("\n").filter((line) => line.trim());
+  try {
+    const values = lines.map((line) => JSON.parse(line) as unknown);
+    return values.every((value) => value !== null && typeof value === "object") ? values : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Splits delimited text into rows of fields, honouring double-quoted fields (which may contain the delimiter).
+ * @param text The CSV or TSV text.
+ * @param delimiter The field delimiter.
+ * @returns The rows; blank lines are skipped.
+ */
+export function parseDelimited(text: string, delimiter: "," | "\t"): string[][] {
+  return text
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => {
+      const fields: string[] = [];
+      let field = "";
+      let inQuotes = false;
+      for (let index = 0; index < line.length; index++) {
+        const character = line[index];
+        if (inQuotes) {
+          if (character === '"' && line[index + 1] === '"') {
+            field += '"';
+            index++;
+          } else if (character === '"') {
+            inQuotes = false;
+          } else {
+            field += character;
+          }
+        } else if (character === '"' && field === "") {
+          inQuotes = true;
+        } else if (character === delimiter) {
+          fields.push(field);
+          field = "";
+        } else {
+          field += character;
+        }
+      }
+      fields.push(field.replace(/\r$/, ""));
+      return fields;
+    });
+}
+
+/**
+ * Checks whether rows look like a table: at least two rows, all with the same number (two or more) of fields.
+ */
+function isTable(rows: string[][]): boolean {
+  return rows.length >= 2 && rows[0].length >= 2 && rows.every((row) => row.length === rows[0].length);
+}
+
+/**
+ * Recognizes the format of program output.
+ * @param text The output, without ANSI escape sequences.
+ * @returns JSON, TSV or CSV when the whole output is in that format, otherwise text.
+ */
+export function detectOutputFormat(text: string): OutputFormat {
+  if (parseJsonOutput(text) !== undefined) {
+    return "json";
+  }
+  if (text.includes("\t") && isTable(parseDelimited(text, "\t"))) {
+    return "tsv";
+  }
+  if (text.includes(",") && isTable(parseDelimited(text, ","))) {
+    return "csv";
+  }
+  return "text";
+}
+
+/**
+ * Pretty-prints a JSON value. When collapsed, deeply nested values and long arrays or objects are summarized.
+ * @param value The parsed JSON value.
+ * @param collapsed Whether to summarize nested and long values.
+ * @returns The indented JSON (not valid JSON once summarized).
+ */
+export function formatJson(value: unknown, collapsed: boolean): string {
+  const format = (current: unknown, depth: number, indent: string): string => {
+    if (current === null || typeof current !== "object") {
+      return JSON.stringify(current) ?? "null";
+    }
+    const isArray = Array.isArray(current);
+    const entries: [string | null, unknown][] = isArray
+      ? (current as unknown[]).map((item) => [null, item])
+      : Object.entries(current as Record<string, unknown>);
+    const [open, close] = isArray ? ["[", "]"] : ["{", "}"];
+    if (entries.length === 0) {
+      return `${open}${close}`;
+    }
+    if (collapsed && depth >= COLLAPSED_JSON_DEPTH) {
+      const noun = isArray ? (entries.length === 1 ? "item" : "items") : entries.length === 1 ? "key" : "keys";
+      return `${open} … ${entries.length} ${noun} ${close}`;
+    }
+    const shown = collapsed ? entries.slice(0, COLLAPSED_JSON_ITEMS) : entries;
+    const innerIndent = `${indent}  `;
+    const lines = shown.map(
+      ([key, item]) =>
+        `${innerIndent}${key !== null ? `${JSON.stringify(key)}: ` : ""}${format(item, depth + 1, innerIndent)}`,
+    );
+    if (shown.length < entries.length) {
+      lines.push(`${innerIndent}… ${entries.length - shown.length} more`);
+    }
+    return `${open}\n${lines.join(",\n")}\n${indent}${close}`;
+  };
+  return format(value, 0, "");
+}
+
+/**
+ * Renders rows as a Markdown table, using the first row as the header.
+ * @param rows The rows of fields.
+ * @returns The Markdown table, followed by a note when rows were cut off.
+ */
+export function toMarkdownTable(rows: string[][]): string {
+  const escapeCell = (cell: string) => cell.replace(/\|/g, "\\|").trim() || " ";
+  const [header, ...body] = rows;
+  const lines = [
+    `| ${header.map(escapeCell).join(" | ")} |`,
+    `| ${header.map(() => "---").join(" | ")} |`,
+    ...body.slice(0, MAX_TABLE_ROWS).map((row) => `| ${row.map(escapeCell).join(" | ")} |`),
+  ];
+  if (body.length > MAX_TABLE_ROWS) {
+    lines.push("", `_${body.length - MAX_TABLE_ROWS} more rows not shown._`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Renders program output as Markdown: JSON pretty-printed, CSV and TSV as tables, anything else as plain text.
+ * @param text The raw output.
+ * @param options Whether to collapse JSON.
+ * @returns The Markdown and the recognized format.
+ */
+export function renderOutput(
+  text: string,
+  options: { collapseJson: boolean },
+): { markdown: string; format: OutputFormat } {
+  const plainText = stripAnsi(text);
+  const format = detectOutputFormat(plainText);
+  switch (format) {
+    case "json":
+      return { markdown: toCodeBlock(formatJson(parseJsonOutput(plainText), options.collapseJson), "json"), format };
+    case "tsv":
+      return { markdown: toMarkdownTable(parseDelimited(plainText, "\t")), format };
+    case "csv":
+      return { markdown: toMarkdownTable(parseDelimited(plainText, ",")), format };
+    default:
+      return { markdown: toCodeBlock(plainText), format };
+  }
+}
+
+/**
+ * Renders images as Markdown, for display in a Detail view.
+ * @param filePaths Absolute paths of the images.
+ * @returns One Markdown image per file.
+ */
+export function renderImages(filePaths: string[]): string {
+  return filePaths.map((filePath) => `![${path.basename(filePath)}](${encodeURI(`file://${filePath}`)})`).join("\n\n");
+}
@@ -0,0 +1,214 @@
+// utils/sandbox.ts
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { getExtensionPreferences } from "./preferences";
+
+/**
+ * A protection applied to a sandboxed run.
+ */
+export type SandboxProtection = "environment" | "home" | "network" | "filesystem";
+
+/**
+ * Tool used to isolate sandboxed runs in Linux namespaces.
+ */
+export type SandboxIsolation = "bwrap" | "unshare";
+
+/**
+ * Which protections were active for a sandboxed run.
+ */
+export interface SandboxReport {
+  protections: SandboxProtection[];
+  isolation: SandboxIsolation | null; // Null where no namespace tool is available (e.g., macOS)
+}
+
+/**
+ * How to spawn a command inside the sandbox.
+ */
+export interface SandboxSpawn {
+  file: string;
+  args: string[];
+  env: NodeJS.ProcessEnv;
+  report: SandboxReport;
+}
+
+export const SANDBOX_PROTECTION_LABELS: Record<SandboxProtection, string> = {
+  environment: "Scrubbed environment",
+  home: "Fresh HOME",
+  network: "No network",
+  filesystem: "Read-only filesystem",
+};
+
+// Inherited variables that carry no secrets but are needed for locale, terminal and user lookups
+const ENV_ALLOWLIST = [
+  "PATH",
+  "LANG",
+  "LANGUAGE",
+  "LC_ALL",
+  "LC_CTYPE",
+  "LC_MESSAGES",
+  "TERM",
+  "TZ",
+  "USER",
+  "LOGNAME",
+];
+
+// Toolchain managers whose shims (e.g., ~/.cargo/bin/rustc) look up their installs relative to HOME by default
+const TOOLCHAIN_HOMES: Record<string, string> = {
+  RUSTUP_HOME: ".rustup",
+  CARGO_HOME: ".cargo",
+  PYENV_ROOT: ".pyenv",
+};
+
+// Resolved on the first sandboxed run; null once it is known that no namespace tool works
+let detectedIsolation: SandboxIsolation | null | undefined;
+
+/**
+ * Checks whether sandboxed mode is turned on in the extension preferences.
+ * @returns True if runs should be sandboxed unless a run says otherwise.
+ */
+export function isSandboxEnabled(): boolean {
+  return getExtensionPreferences().sandboxed === true;
+}
+
+/**
+ * Checks whether a command runs successfully, e.g. that user namespaces are enabled for `unshare`.
+ */
+function probe(file: string, args: string[]): boolean {
+  try {
+    execFileSync(file, args, { stdio: "ignore", timeout: 5000 });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Finds a namespace tool that works on this system: `bwrap` blocks the network and makes the filesystem read-only,
+ * `unshare` only blocks the network.
+ * @returns The tool, or null on systems other than Linux or if neither tool is installed and permitted.
+ */
+export function detectSandboxIsolation(): SandboxIsolation | null {
+  if (detectedIsolation === undefined) {
+    if (os.platform() !== "linux") {
+      detectedIsolation = null;
+    } else if (probe("bwrap", ["--ro-bind", "/", "/", "--dev", "/dev", "--unshare-net", "true"])) {
+      detectedIsolation = "bwrap";
+    } else if (probe("unshare", ["--user", "--map-root-user", "--net", "true"])) {
+      detectedIsolation = "unshare";
+    } else {
+      detectedIsolation = null;
+    }
+  }
+  return detectedIsolation;
+}
+
+/**
+ * Builds the environment of a sandboxed run: an allowlist of inherited variables, a fresh HOME and temp directory
+ * inside the workspace, and the variables set for the run.
+ * @param directory The workspace directory of the run.
+ * @param executablePath The language's executable, whose directory is added to PATH.
+ * @param env Variables set for the run, which are passed through as they are.
+ * @returns The environment.
+ */
+function buildSandboxEnv(directory: string, executablePath: string, env: Record<string, string>): NodeJS.ProcessEnv {
+  const homeDir = path.join(directory, "home");
+  const tmpDir = path.join(directory, "tmp");
+  fs.mkdirSync(homeDir, { recursive: true });
+  fs.mkdirSync(tmpDir, { recursive: true });
+
+  const sandboxEnv: NodeJS.ProcessEnv = {};
+  ENV_ALLOWLIST.forEach((name) => {
+    if (process.env[name] !== undefined) {
+      sandboxEnv[name] = process.env[name];
+    }
+  });
+  Object.entries(TOOLCHAIN_HOMES).forEach(([name, homeRelativePath]) => {
+    const toolchainHome = process.env[name] ?? path.join(os.homedir(), homeRelativePath);
+    if (fs.existsSync(toolchainHome)) {
+      sandboxEnv[name] = toolchainHome;
+    }
+  });
+  // Without a login shell PATH is not extended by the user's profile, so make sure the toolchain itself is found
+  if (executablePath) {
+    sandboxEnv.PATH = [path.dirname(executablePath), sandboxEnv.PATH].filter(Boolean).join(path.delimiter);
+  }
+  return {
+    ...sandboxEnv,
+    SHELL: process.env.SHELL,
+    HOME: homeDir,
+    TMPDIR: tmpDir,
+    ...env,
+  };
+}
+
+/**
+ * Prepares a command to run in the sandbox. The command runs in a plain (not login) shell, since shell profiles
+ * commonly export secrets, with a scrubbed environment and a fresh HOME. On Linux, it also runs in namespaces
+ * where available, without network access and, with `bwrap`, with everything outside the workspace read-only.
+ * @param shellPath The shell that runs the command.
+ * @param command The shell command.
+ * @param options The workspace directory, the language's executable and the variables set for the run.
+ * @returns How to spawn the command, and which protections are active.
+ */
+export function buildSandboxSpawn(
+  shellPath: string,
+  command: string,
+  options: { directory: string; executablePath: string; env: Record<string, string> },
+): SandboxSpawn {
+  const env = buildSandboxEnv(options.directory, options.executablePath, options.env);
+  const shellArgs = [shellPath, "-c", command];
+  const protections: SandboxProtection[] = ["environment", "home"];
+  const isolation = detectSandboxIsolation();
+
+  if (isolation === "bwrap") {
+    protections.push("network", "filesystem");
+    return {
+      file: "bwrap",
+      args: [
+        "--ro-bind",
+        "/",
+        "/",
+        "--dev",
+        "/dev",
+        // Bound after the read-only root, so the workspace stays writable
+        "--bind",
+        options.directory,
+        options.directory,
+        "--unshare-net",
+        "--die-with-parent",
+        "--",
+        ...shellArgs,
+      ],
+      env,
+      report: { protections, isolation },
+    };
+  }
+  if (isolation === "unshare") {
+    protections.push("network");
+    return {
+      file: "unshare",
+      args: ["--user", "--map-root-user", "--net", "--", ...shellArgs],
+      env,
+      report: { protections, isolation },
+    };
+  }
+  return { file: shellPath, args: shellArgs.slice(1), env, report: { protections, isolation } };
+}
+
+/**
+ * Describes which protections a sandboxed run had, e.g. for the run metadata.
+ * @param report The sandbox report of the run.
+ * @returns The active protections, followed by the ones that were not available.
+ */
+export function formatSandboxReport(report: SandboxReport): string {
+  const active = report.protections.map((protection) => SANDBOX_PROTECTION_LABELS[protection]);
+  const missing = (Object.keys(SANDBOX_PROTECTION_LABELS) as SandboxProtection[])
+    .filter((protection) => !report.protections.includes(protection))
+    .map((protection) => SANDBOX_PROTECTION_LABELS[protection]);
+  const via = report.isolation ? ` (via ${report.isolation})` : "";
+  return missing.length > 0
+    ? `${active.join(", ")}${via}. Not available: ${missing.join(", ")}.`
+    : `${active.join(", ")}${via}.`;
+}
@@ -0,0 +1,175 @@
+// utils/selectionRunner.ts
+import { showToast, showHUD, Toast, LocalStorage, Clipboard, getSelectedText } from "@raycast/api";
+import { LANGUAGES_STORAGE_KEY, LAST_USED_LANGUAGE_KEY } from "../constants/storageKeys";
+import {
+  CodeExecutionResult,
+  DetectedLanguage,
+  detectInstalledLanguages,
+  startCodeRun,
+  withInterpreter,
+} from "./codeRunner";
+import { extractDiagnostics, formatDiagnostics } from "./diagnostics";
+import { formatExecutionSummary } from "./formatting";
+import { recordRunSafely } from "./history";
+import { getLanguageDefinition } from "./languages";
+import { classifyLanguage, inferLanguageFromMarkers } from "./languageInference";
+import { openInRunCode } from "./launcher";
+import { getRunSelectionPreferences } from "./preferences";
+import { isSandboxEnabled } from "./sandbox";
+
+/**
+ * Reads the selected text in the frontmost application, falling back to the clipboard.
+ * @returns The text and where it came from, or null if both are empty.
+ */
+async function readSourceText(): Promise<{ text: string; source: "selection" | "clipboard" } | null> {
+  try {
+    const selectedText = await getSelectedText();
+    if (selectedText.trim()) {
+      return { text: selectedText, source: "selection" };
+    }
+  } catch {
+    // No selection, or the frontmost application does not expose it; use the clipboard instead
+  }
+  const clipboardText = await Clipboard.readText();
+  return clipboardText && clipboardText.trim() ? { text: clipboardText, source: "clipboard" } : null;
+}
+
+/**
+ * Loads the detected languages from the cache, detecting (and caching) them if Run Code was never opened.
+ * @returns The detected languages.
+ */
+async function loadDetectedLanguages(): Promise<DetectedLanguage[]> {
+  const cachedLanguages = await LocalStorage.getItem<string>(LANGUAGES_STORAGE_KEY);
+  if (cachedLanguages) {
+    try {
+      const detected: DetectedLanguage[] = JSON.parse(cachedLanguages);
+      if (detected.length > 0) {
+        return detected;
+      }
+    } catch (parseError: unknown) {
+      console.error("[LocalStorage Parse Error]", parseError);
+    }
+  }
+  const detected = await detectInstalledLanguages();
+  if (detected.length > 0) {
+    await LocalStorage.setItem(LANGUAGES_STORAGE_KEY, JSON.stringify(detected));
+  }
+  return detected;
+}
+
+/**
+ * Builds the one-line result shown in the HUD or toast: the first line of output, or the first diagnostic or error.
+ */
+function formatResultLine(language: string, result: CodeExecutionResult): string {
+  const firstLine = (text: string | null) => text?.split("\n").find((line) => line.trim()) ?? "";
+  if (!result.error) {
+    return `✅ ${firstLine(result.stdout) || "Ran successfully with no output"}`;
+  }
+  const [diagnostic] = extractDiagnostics(
+    getLanguageDefinition(language)?.parseDiagnostics,
+    result.stderr,
+    result.stdout,
+  );
+  return `❌ ${diagnostic ? formatDiagnostics([diagnostic]) : firstLine(result.error)}`;
+}
+
+/**
+ * Runs the selected text, or the clipboard when nothing is selected, and reports the result in a toast or, with the
+ * HUD preference, only its first line in a HUD. The language comes from a Markdown code fence tag, a shebang line,
+ * language signatures, or the last language used in Run Code. The run is saved to the history, where its full output
+ * can be viewed.
+ */
+export async function runSelection(): Promise<void> {
+  const toast = await showToast({ style: Toast.Style.Animated, title: "Reading code..." });
+
+  try {
+    const sourceText = await readSourceText();
+    if (!sourceText) {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Nothing to run!";
+      toast.message = "Select some code or copy it to the clipboard.";
+      return;
+    }
+
+    // A fence tag or shebang takes precedence, then clear language signatures, then the language of the last run
+    const inferred = inferLanguageFromMarkers(sourceText.text);
+    const detected = await loadDetectedLanguages();
+    const lastUsedLanguage = await LocalStorage.getItem<string>(LAST_USED_LANGUAGE_KEY);
+    const classification = inferred.language
+      ? null
+      : classifyLanguage(
+          inferred.code,
+          detected.map((lang) => lang.value),
+          lastUsedLanguage,
+        );
+    const languageValue =
+      inferred.language ??
+      (classification?.confidence === "high" ? classification.language : null) ??
+      lastUsedLanguage ??
+      null;
+
+    const detectedLanguage = detected.find((lang) => lang.value === languageValue);
+    if (!detectedLanguage) {
+      const languageName = (languageValue && getLanguageDefinition(languageValue)?.name) || languageValue;
+      toast.style = Toast.Style.Failure;
+      toast.title = languageName ? `${languageName} is not available!` : "Unknown language!";
+      toast.message = languageName
+        ? `${languageName} was not detected on this system.`
+        : "Add a Markdown code fence tag (e.g., ```python) or a shebang line, or open the code in Run Code.";
+      return;
+    }
+
+    toast.title = `Running ${detectedLanguage.name} code from the ${sourceText.source}...`;
+    // Use the interpreter chosen for this language in Run Code, if any
+    const savedInterpreter = await LocalStorage.getItem<string>(`interpreter_${detectedLanguage.value}`);
+    const runLanguage = withInterpreter(detectedLanguage, savedInterpreter || null);
+    const startedAt = Date.now();
+    const run = startCodeRun(runLanguage, inferred.code);
+    toast.primaryAction = { title: "Stop Execution", onAction: () => run.cancel() };
+    const result = await run.result;
+    toast.primaryAction = undefined;
+
+    await recordRunSafely({
+      language: detectedLanguage.value,
+      languageName: detectedLanguage.name,
+      code: inferred.code,
+      stdin: "",
+      args: "",
+      env: "",
+      interpreterPath: runLanguage.executablePath,
+      sandboxed: isSandboxEnabled(),
+      result,
+      timestamp: startedAt,
+      durationMs: Date.now() - startedAt,
+    });
+
+    const resultLine = formatResultLine(detectedLanguage.value, result);
+    if (getRunSelectionPreferences().resultDisplay === "hud") {
+      await toast.hide();
+      await showHUD(resultLine);
+      return;
+    }
+
+    toast.style = result.error ? Toast.Style.Failure : Toast.Style.Success;
+    toast.title = run.cancelled
+      ? "Code execution stopped!"
+      : result.error
+        ? "Code execution failed!"
+        : "Code executed successfully!";
+    toast.message = `${resultLine}\n${formatExecutionSummary(result)}`;
+    toast.primaryAction = {
+      title: "Open in Run Code",
+      shortcut: { modifiers: ["cmd"], key: "o" },
+      onAction: () => openInRunCode({ language: detectedLanguage.value, code: inferred.code }),
+    };
+    toast.secondaryAction = {
+      title: "Copy Output",
+      shortcut: { modifiers: ["cmd", "shift"], key: "c" },
+      onAction: () => Clipboard.copy([result.stdout, result.stderr].filter(Boolean).join("\n")),
+    };
+  } catch (runError: unknown) {
+    toast.style = Toast.Style.Failure;
+    toast.title = "Failed to run code!";
+    toast.message = (runError instanceof Error ? runError.message : String(runError)) || "An unknown error occurred.";
+  }
+}
@@ -0,0 +1,156 @@
+// utils/sessionDrivers.test.ts
+import { spawnSync } from "child_process";
+import { describe, expect, it } from "vitest";
+import { JAVASCRIPT_SESSION_DRIVER, PYTHON_SESSION_DRIVER } from "./sessionDrivers";
+
+const TOKEN = "session-test";
+
+/**
+ * What a session printed for one request, and how it reported the request's end.
+ */
+interface SessionRunOutput {
+  stdout: string;
+  stderr: string;
+  status: string;
+}
+
+/**
+ * Runs a session driver on a series of requests and returns the output of each one.
+ */
+function runSession(
+  command: string[],
+  filename: string,
+  requests: { code: string; stdin?: string }[],
+): SessionRunOutput[] {
+  const input = requests
+    .map(({ code, stdin }) => JSON.stringify({ code, filename, stdin: stdin ?? "", args: [], env: {} }))
+    .join("\n");
+  const { stdout, stderr } = spawnSync(command[0], command.slice(1), {
+    input: `${input}\n`,
+    env: { ...process.env, CODE_RUNNER_SESSION_TOKEN: TOKEN },
+    encoding: "utf-8",
+    timeout: 10000,
+  });
+  return stdout
+    .split(new RegExp(`\\n${TOKEN}:(\\w+)\\n`))
+    .reduce<SessionRunOutput[]>((runs, part, index, parts) => {
+      if (index % 2 === 0 && index + 1 < parts.length) {
+        runs.push({ stdout: part.trim(), stderr: "", status: parts[index + 1] });
+      }
+      return runs;
+    }, [])
+    .map((run, index) => ({ ...run, stderr: (stderr.split(`\n${TOKEN}\n`)[index] ?? "").trim() }));
+}
+
+/**
+ * Runs the JavaScript session driver on a series of requests.
+ */
+function runJavaScriptSession(requests: { code: string; stdin?: string }[]): SessionRunOutput[] {
+  return runSession([process.execPath, "-e", JAVASCRIPT_SESSION_DRIVER], "snippet.js", requests);
+}
+
+/**
+ * Runs the Python session driver on a series of requests.
+ */
+function runPythonSession(requests: { code: string; stdin?: string }[]): SessionRunOutput[] {
+  return runSession(["python3", "-c", PYTHON_SESSION_DRIVER], "snippet.py", requests);
+}
+
+describe("JAVASCRIPT_SESSION_DRIVER", () => {
+  it("runs top-level let, const and class declarations again", () => {
+    const code = "let a = 10;\nconst { b } = { b: 20 };\nclass Sum {}\nconsole.log(a + b)";
+    expect(runJavaScriptSession([{ code }, { code }]).map((run) => run.stdout)).toEqual(["30", "30"]);
+  });
+
+  it("keeps declarations between runs", () => {
+    const runs = runJavaScriptSession([{ code: "const name = 'session'" }, { code: "name.toUpperCase()" }]);
+    expect(runs.map((run) => run.stdout)).toEqual(["", "'SESSION'"]);
+  });
+
+  it("keeps const bindings constant and block-scoped declarations in their block", () => {
+    const runs = runJavaScriptSession([
+      { code: "const limit = 1" },
+      { code: "limit = 2" },
+      { code: "{ let hidden = 1 }\ntypeof hidden" },
+      { code: "limit" },
+    ]);
+    expect(runs[1].status).toBe("error");
+    expect(runs[1].stderr).toContain("TypeError: Assignment to constant variable.");
+    expect(runs[2].stdout).toBe("'undefined'");
+    expect(runs[3].stdout).toBe("1");
+  });
+
+  it("awaits top-level await and a trailing promise", () => {
+    const runs = runJavaScriptSession([
+      { code: "const value = await Promise.resolve(41)" },
+      { code: "new Promise((resolve) => setTimeout(() => resolve(value + 1), 10))" },
+    ]);
+    expect(runs.map((run) => run.stdout)).toEqual(["", "42"]);
+  });
+
+  it("reports errors in the snippet without the driver's frames", () => {
+    const [thrown, syntax] = runJavaScriptSession([
+      { code: "function fail() {\n  throw new Error('boom');\n}\nfail()" },
+      { code: "let ok = 1;\nlet broken = ;" },
+    ]);
+    expect(thrown.status).toBe("error");
+    expect(thrown.stderr).toBe("Error: boom\n    at fail (snippet.js:2:9)\n    at snippet.js:4:1");
+    expect(syntax.stderr).toBe("snippet.js:2\nlet broken = ;\n             ^\n\nSyntaxError: Unexpected token ';'");
+  });
+
+  it("feeds each request's stdin to the snippet", () => {
+    const readSync = "console.log(require('fs').readFileSync(0, 'utf-8').trim())";
+    const readLines =
+      "void require('readline').createInterface({ input: process.stdin }).on('line', (line) => console.log(`> ${line}`))";
+    const runs = runJavaScriptSession([
+      { code: readSync, stdin: "first\n" },
+      { code: readLines, stdin: "a\nb\n" },
+      { code: readSync, stdin: "" },
+    ]);
+    expect(runs.map((run) => run.stdout)).toEqual(["first", "> a\n> b", ""]);
+  });
+});
+
+describe("PYTHON_SESSION_DRIVER", () => {
+  it("keeps definitions between runs and prints a trailing expression", () => {
+    const runs = runPythonSession([
+      { code: "import math\ndef area(r):\n    return math.pi * r * r" },
+      { code: "round(area(2), 2)" },
+      { code: "print('printed')\nNone" },
+    ]);
+    expect(runs.map((run) => run.stdout)).toEqual(["", "12.57", "printed"]);
+  });
+
+  it("feeds each request's stdin to the snippet", () => {
+    const code = "import sys\nprint(sys.stdin.read().split())";
+    const runs = runPythonSession([{ code, stdin: "1 2\n" }, { code }]);
+    expect(runs.map((run) => run.stdout)).toEqual(["['1', '2']", "[]"]);
+  });
+
+  it("keeps the session alive when the code exits", () => {
+    const runs = runPythonSession([
+      { code: "kept = 'state'\nraise SystemExit" },
+      { code: "import sys\nsys.exit(3)" },
+      { code: "exit('bye')" },
+      { code: "kept" },
+    ]);
+    expect(runs.map((run) => run.status)).toEqual(["ok", "error", "error", "ok"]);
+    expect(runs[2].stderr).toBe("bye");
+    expect(runs[3].stdout).toBe("'state'");
+  });
+
+  it("reports errors from the snippet's own frames and keeps earlier state", () => {
+    const runs = runPythonSession([
+      { code: "total = 1\ntotal += 1\n1 / 0" },
+      { code: "def broken(:\n    pass" },
+      { code: "total" },
+    ]);
+    expect(runs[0].status).toBe("error");
+    expect(runs[0].stderr).toBe(
+      'Traceback (most recent call last):\n  File "snippet.py", line 3, in <module>\nZeroDivisionError: division by zero',
+    );
+    expect(runs[1].stderr).toContain('File "snippet.py", line 1');
+    expect(runs[1].stderr).toContain("SyntaxError");
+    expect(runs[2].stdout).toBe("2");
+  });
+});
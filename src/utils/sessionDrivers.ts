@@ -0,0 +1,176 @@
+// utils/sessionDrivers.ts
+
+// Programs that keep a language's state alive for session mode. Each reads one JSON request per line from stdin
+// ({ code, filename, stdin, args, env }), runs the code in a persistent namespace with the request's stdin as its
+// standard input, prints the value of a trailing expression like a REPL, and then writes `\n<token>:<ok|error>\n` to
+// stdout and `\n<token>\n` to stderr, where the token comes from the CODE_RUNNER_SESSION_TOKEN environment variable.
+
+export const PYTHON_SESSION_DRIVER = String.raw`import ast
+import io
+import json
+import os
+import sys
+import traceback
+
+token = os.environ["CODE_RUNNER_SESSION_TOKEN"]
+requests = sys.stdin
+namespace = {"__name__": "__main__", "__builtins__": __builtins__}
+
+for line in iter(requests.readline, ""):
+    request = json.loads(line)
+    filename = request["filename"]
+    status = "ok"
+    os.environ.update(request["env"])
+    sys.argv = [filename] + request["args"]
+    sys.stdin = io.StringIO(request["stdin"])
+    try:
+        tree = ast.parse(request["code"], filename, "exec")
+        last = tree.body.pop() if tree.body and isinstance(tree.body[-1], ast.Expr) else None
+        exec(compile(tree, filename, "exec"), namespace)
+        if last is not None:
+            value = eval(compile(ast.Expression(last.value), filename, "eval"), namespace)
+            if value is not None:
+                print(repr(value))
+    except SystemExit as exit_request:
+        # Ends the run, not the session; like a script, the run failed unless it exited with 0 or None
+        if exit_request.code is not None and exit_request.code != 0:
+            status = "error"
+            if not isinstance(exit_request.code, int):
+                print(exit_request.code, file=sys.stderr)
+    except BaseException:
+        status = "error"
+        error_type, error, error_traceback = sys.exc_info()
+        # Skip the driver's own frame so the traceback starts in the snippet; syntax errors need no frames at all
+        frames = None if isinstance(error, SyntaxError) else error_traceback.tb_next
+        traceback.print_exception(error_type, error, frames)
+    finally:
+        sys.stdin = requests
+    sys.stdout.write("\n" + token + ":" + status + "\n")
+    sys.stdout.flush()
+    sys.stderr.write("\n" + token + "\n")
+    sys.stderr.flush()
+`;
+
+export const JAVASCRIPT_SESSION_DRIVER = String.raw`const fs = require("fs");
+const inspector = require("inspector");
+const readline = require("readline");
+const { Readable } = require("stream");
+const util = require("util");
+
+const token = process.env.CODE_RUNNER_SESSION_TOKEN;
+const requests = process.stdin;
+// Snippets run in the global scope, so they can use require like a script
+globalThis.require = require;
+
+// Snippets read the stdin of their request: process.stdin becomes a stream of it, created when first used, and
+// fs.readFileSync(0) or "/dev/stdin" returns it, while requests keep arriving on the real stdin
+let snippetStdin = "";
+let snippetStdinStream = null;
+Object.defineProperty(process, "stdin", {
+  configurable: true,
+  get() {
+    if (!snippetStdinStream) {
+      snippetStdinStream = new Readable({ read() {} });
+      snippetStdinStream.push(Buffer.from(snippetStdin));
+      snippetStdinStream.push(null);
+    }
+    return snippetStdinStream;
+  },
+});
+const readFileSync = fs.readFileSync;
+fs.readFileSync = function (file, options) {
+  if (file === 0 || file === "/dev/stdin") {
+    const encoding = typeof options === "string" ? options : options && options.encoding;
+    return encoding ? Buffer.from(snippetStdin).toString(encoding) : Buffer.from(snippetStdin);
+  }
+  return readFileSync.apply(this, arguments);
+};
+
+// Snippets are evaluated in V8's REPL mode, like input to Node's REPL: a later run can declare the same top-level
+// let, const and class names again, while const bindings, block scoping and top-level await work as in a script
+const inspectorSession = new inspector.Session();
+inspectorSession.connect();
+const post = (method, params) =>
+  new Promise((resolve, reject) =>
+    inspectorSession.post(method, params, (error, result) => (error ? reject(error) : resolve(result))),
+  );
+const OBJECT_GROUP = "code-runner-snippet";
+const RECEIVED = Symbol.for("code-runner.received");
+
+// Fetches the value an inspector result refers to, by handing it to a function that runs in this context
+async function receive(remoteObject) {
+  const { result: globalObject } = await post("Runtime.evaluate", { expression: "globalThis", objectGroup: OBJECT_GROUP });
+  const argument = remoteObject.objectId
+    ? { objectId: remoteObject.objectId }
+    : "unserializableValue" in remoteObject
+      ? { unserializableValue: remoteObject.unserializableValue }
+      : remoteObject.type === "undefined"
+        ? {}
+        : { value: remoteObject.value };
+  await post("Runtime.callFunctionOn", {
+    objectId: globalObject.objectId,
+    functionDeclaration: "function (value) { this[Symbol.for('code-runner.received')] = value; }",
+    arguments: [argument],
+  });
+  const value = globalThis[RECEIVED];
+  delete globalThis[RECEIVED];
+  return value;
+}
+
+// Prints an error thrown by a snippet without the frames of the inspector and of this driver
+function printError(error, code, filename, details) {
+  if (error instanceof SyntaxError) {
+    // Syntax errors have no frames, so point at the line the way Node does for a script
+    const line = code.split("\n")[details.lineNumber] || "";
+    console.error(filename + ":" + (details.lineNumber + 1) + "\n" + line + "\n" + " ".repeat(details.columnNumber) + "^\n");
+  }
+  const stack = error && error.stack ? String(error.stack).split("\n") : [String(error)];
+  const driverFrame = stack.findIndex((line) => line.includes("(node:inspector") || line.includes(__filename));
+  console.error((driverFrame > 0 ? stack.slice(0, driverFrame) : stack).join("\n"));
+}
+
+async function runRequest({ code, filename, stdin, args, env }) {
+  let status = "ok";
+  Object.assign(process.env, env);
+  process.argv = [process.argv[0], filename, ...args];
+  snippetStdin = stdin;
+  snippetStdinStream = null;
+  try {
+    const { result, exceptionDetails } = await post("Runtime.evaluate", {
+      // Names the snippet in stack traces; on a line of its own, so a trailing comment in the code cannot hide it
+      expression: code + "\n//# sourceURL=" + filename,
+      replMode: true,
+      awaitPromise: true,
+      objectGroup: OBJECT_GROUP,
+    });
+    if (exceptionDetails) {
+      status = "error";
+      const error = exceptionDetails.exception ? await receive(exceptionDetails.exception) : exceptionDetails.text;
+      printError(error, code, filename, exceptionDetails);
+    } else {
+      const value = await receive(result);
+      if (value !== undefined) {
+        console.log(util.inspect(value));
+      }
+      // Lets readers of stdin, such as readline "line" handlers, finish before the run is reported as done
+      const input = snippetStdinStream;
+      if (input && input.readableFlowing && !input.readableEnded) {
+        await new Promise((resolve) => input.once("end", resolve));
+      }
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+  } catch (error) {
+    status = "error";
+    console.error(error && error.stack ? error.stack : String(error));
+  } finally {
+    await post("Runtime.releaseObjectGroup", { objectGroup: OBJECT_GROUP }).catch(() => undefined);
+  }
+  process.stdout.write("\n" + token + ":" + status + "\n");
+  process.stderr.write("\n" + token + "\n");
+}
+
+let queue = Promise.resolve();
+readline.createInterface({ input: requests, terminal: false }).on("line", (line) => {
+  queue = queue.then(() => runRequest(JSON.parse(line)));
+});
+`;
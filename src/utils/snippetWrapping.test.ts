@@ -0,0 +1,65 @@
+// utils/snippetWrapping.test.ts
+import { describe, expect, it } from "vitest";
+import { mapWrappedLine, wrapGoSnippet, wrapJavaSnippet } from "./snippetWrapping";
+
+/**
+ * Finds the 1-based line of the wrapped program holding the given text.
+ */
+function findLine(code: string, text: string): number {
+  return code.split("\n").findIndex((line) => line.includes(text)) + 1;
+}
+
+describe("wrapGoSnippet", () => {
+  it("keeps declarations at package level and maps lines back to the snippet", () => {
+    const snippet = 'func double(n int) int {\n\treturn n * 2\n}\nfmt.Println(double(2))\nx := strings.ToUpper("a")';
+    const wrapped = wrapGoSnippet(snippet);
+    expect(wrapped?.code).toBe(
+      'package main\n\nimport (\n\t"fmt"\n\t"strings"\n)\n\nfunc double(n int) int {\n\treturn n * 2\n}\n\nfunc main() {\nfmt.Println(double(2))\nx := strings.ToUpper("a")\n}\n',
+    );
+    const lineMap = wrapped?.lineMap ?? [];
+    expect(mapWrappedLine(lineMap, findLine(wrapped?.code ?? "", "return n * 2"))).toBe(2);
+    expect(mapWrappedLine(lineMap, findLine(wrapped?.code ?? "", "strings.ToUpper"))).toBe(5);
+  });
+
+  it("maps added scaffolding to the nearest snippet line before it", () => {
+    const wrapped = wrapGoSnippet('fmt.Println("hi")');
+    const lineMap = wrapped?.lineMap ?? [];
+    expect(mapWrappedLine(lineMap, 1)).toBe(1);
+    expect(mapWrappedLine(lineMap, lineMap.length)).toBe(1);
+  });
+
+  it("only imports packages used outside strings and comments", () => {
+    const snippet = [
+      "// sort.Ints is not needed here",
+      'fmt.Println("os.Exit(1)", `time.Now()`)',
+      "/* math.Pi */ r := 'x'",
+      "_ = r",
+    ].join("\n");
+    expect(wrapGoSnippet(snippet)?.code).toContain('import (\n\t"fmt"\n)');
+  });
+
+  it("does not import packages the snippet already imports, under any name", () => {
+    const code = wrapGoSnippet('import str "strings"\nfmt.Println(str.ToUpper("a"))')?.code;
+    expect(code).toContain('import (\n\t"fmt"\n\tstr "strings"\n)');
+  });
+
+  it("leaves full programs alone", () => {
+    expect(wrapGoSnippet("package main\n\nfunc main() {}\n")).toBeNull();
+  });
+});
+
+describe("wrapJavaSnippet", () => {
+  it("makes methods static members of Main and maps lines back to the snippet", () => {
+    const snippet = "int add(int a, int b) {\n  return a + b;\n}\nSystem.out.println(add(1, 2));";
+    const wrapped = wrapJavaSnippet(snippet);
+    const code = wrapped?.code ?? "";
+    expect(code).toContain("static int add(int a, int b) {");
+    const lineMap = wrapped?.lineMap ?? [];
+    expect(mapWrappedLine(lineMap, findLine(code, "return a + b"))).toBe(2);
+    expect(mapWrappedLine(lineMap, findLine(code, "System.out.println"))).toBe(4);
+  });
+
+  it("leaves programs declaring a class alone", () => {
+    expect(wrapJavaSnippet("public class Main {}")).toBeNull();
+  });
+});
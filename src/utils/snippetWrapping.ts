@@ -0,0 +1,250 @@
+// utils/snippetWrapping.ts
+
+/**
+ * A snippet wrapped in the scaffolding its language requires, with a map back to the lines that were typed.
+ */
+export interface WrappedSnippet {
+  code: string;
+  lineMap: (number | null)[]; // 1-based snippet line of each wrapped line; null for added scaffolding
+}
+
+/**
+ * Wraps bare statements in the scaffolding a language needs to run them (e.g., `package main` and `func main` in Go).
+ * @returns The wrapped snippet, or null if the code is already a full program.
+ */
+export type SnippetWrapper = (code: string) => WrappedSnippet | null;
+
+// Standard library packages added to Go snippets when their name is used (e.g., `strings.Split`)
+const GO_PACKAGES: Record<string, string> = {
+  bufio: "bufio",
+  bytes: "bytes",
+  errors: "errors",
+  fmt: "fmt",
+  heap: "container/heap",
+  io: "io",
+  json: "encoding/json",
+  log: "log",
+  maps: "maps",
+  math: "math",
+  big: "math/big",
+  bits: "math/bits",
+  rand: "math/rand",
+  os: "os",
+  filepath: "path/filepath",
+  reflect: "reflect",
+  regexp: "regexp",
+  slices: "slices",
+  sort: "sort",
+  strconv: "strconv",
+  strings: "strings",
+  sync: "sync",
+  atomic: "sync/atomic",
+  time: "time",
+  unicode: "unicode",
+  utf8: "unicode/utf8",
+};
+
+// Imports every Java snippet gets, unless it already imports them
+const JAVA_DEFAULT_IMPORTS = ["java.util.*"];
+
+// A Java method declaration at the start of a line, e.g. `static int add(int a, int b) {`
+const JAVA_METHOD =
+  /^(?:(?:public|private|protected|static|final|synchronized)\s+)*(?:<[^>]+>\s+)?[\w.]+(?:<[^;=]*>)?(?:\[\])*\s+\w+\s*\([^;=]*\)\s*(?:throws\s+[\w.,\s]+)?\{?\s*$/;
+const JAVA_STATEMENT_KEYWORDS = /^(?:return|new|throw|else|if|for|while|switch|do|try|catch|yield)\b/;
+
+/**
+ * Creates a builder for a wrapped snippet, which records where each added line came from.
+ */
+function createSnippetBuilder() {
+  const lines: string[] = [];
+  const lineMap: (number | null)[] = [];
+  return {
+    add: (line: string, sourceLine: number | null = null) => {
+      lines.push(line);
+      lineMap.push(sourceLine);
+    },
+    build: (): WrappedSnippet => ({ code: `${lines.join("\n")}\n`, lineMap }),
+  };
+}
+
+/**
+ * Counts how much a line opens blocks, by its braces and parentheses. Brackets inside strings and comments are
+ * counted too, which only matters for declarations with unbalanced brackets in a string.
+ */
+function countOpenBlocks(line: string): number {
+  let depth = 0;
+  for (const character of line) {
+    if (character === "{" || character === "(") {
+      depth++;
+    } else if (character === "}" || character === ")") {
+      depth--;
+    }
+  }
+  return depth;
+}
+
+/**
+ * Removes the comments and string and rune literals of Go code, so names mentioned in them are not taken for uses.
+ */
+function stripGoStringsAndComments(code: string): string {
+  return code.replace(/\/\/[^\n]*|\/\*[\s\S]*?\*\/|`[^`]*`|"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'/g, " ");
+}
+
+/**
+ * Collects a declaration that starts at a line, up to the line that closes its block.
+ * @returns The index of the last line of the declaration.
+ */
+function findDeclarationEnd(lines: string[], start: number): number {
+  let depth = countOpenBlocks(lines[start]);
+  let end = start;
+  while (depth > 0 && end + 1 < lines.length) {
+    end++;
+    depth += countOpenBlocks(lines[end]);
+  }
+  return end;
+}
+
+/**
+ * Wraps a Go snippet: top-level `func`, `type`, `var` and `const` declarations stay at package level, everything
+ * else goes into `func main`, and standard library packages that are used but not imported are imported.
+ * Lines are kept unindented, so compiler columns still match the snippet.
+ * @param code The snippet.
+ * @returns The wrapped program, or null if the snippet already declares its package.
+ */
+export function wrapGoSnippet(code: string): WrappedSnippet | null {
+  if (/^\s*package\s+\w+/m.test(code)) {
+    return null;
+  }
+
+  const lines = code.split("\n");
+  const imports: { spec: string; sourceLine: number }[] = [];
+  const declarations: number[] = [];
+  const statements: number[] = [];
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    if (/^import\s*\(/.test(line)) {
+      const end = findDeclarationEnd(lines, index);
+      for (let inner = index + 1; inner < end; inner++) {
+        if (lines[inner].trim()) {
+          imports.push({ spec: lines[inner].trim(), sourceLine: inner + 1 });
+        }
+      }
+      index = end;
+    } else if (/^import\s+/.test(line)) {
+      imports.push({ spec: line.replace(/^import\s+/, "").trim(), sourceLine: index + 1 });
+    } else if (/^(func|type|var|const)\b/.test(line)) {
+      const end = findDeclarationEnd(lines, index);
+      for (let inner = index; inner <= end; inner++) {
+        declarations.push(inner);
+      }
+      index = end;
+    } else {
+      statements.push(index);
+    }
+  }
+
+  // Package names that are already available, whether imported by path or under an alias
+  const importedNames = new Set(
+    imports.map(({ spec }) => {
+      const [, alias, importPath] = spec.match(/^(?:(\w+)\s+)?"([^"]+)"/) ?? [];
+      return alias ?? importPath?.split("/").pop() ?? spec;
+    }),
+  );
+  const codeOnly = stripGoStringsAndComments(code);
+  const inferredImports = Object.entries(GO_PACKAGES)
+    .filter(([name]) => !importedNames.has(name) && new RegExp(String.raw`\b${name}\.[A-Z]`).test(codeOnly))
+    .map(([, importPath]) => importPath)
+    .sort();
+
+  const builder = createSnippetBuilder();
+  builder.add("package main");
+  builder.add("");
+  if (imports.length > 0 || inferredImports.length > 0) {
+    builder.add("import (");
+    inferredImports.forEach((importPath) => builder.add(`\t"${importPath}"`));
+    imports.forEach(({ spec, sourceLine }) => builder.add(`\t${spec}`, sourceLine));
+    builder.add(")");
+    builder.add("");
+  }
+  declarations.forEach((index) => builder.add(lines[index], index + 1));
+
+  const hasMain = declarations.some((index) => /^func\s+main\s*\(/.test(lines[index]));
+  if (!hasMain) {
+    builder.add("");
+    builder.add("func main() {");
+    statements.forEach((index) => builder.add(lines[index], index + 1));
+    builder.add("}");
+  }
+  return builder.build();
+}
+
+/**
+ * Wraps a Java snippet: imports stay at the top, method declarations become static methods of a `Main` class, and
+ * everything else goes into its `main` method. `java.util.*` is imported unless the snippet imports it itself.
+ * @param code The snippet.
+ * @returns The wrapped program, or null if the snippet already declares a top-level type.
+ */
+export function wrapJavaSnippet(code: string): WrappedSnippet | null {
+  if (
+    /^(?:(?:public|private|protected|abstract|final|sealed|static)\s+)*(?:class|interface|enum|record)\s+\w+/m.test(
+      code,
+    )
+  ) {
+    return null;
+  }
+
+  const lines = code.split("\n");
+  const imports: number[] = [];
+  const methods: number[] = [];
+  const methodStarts = new Set<number>();
+  const statements: number[] = [];
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    if (/^import\s+[\w.*\s]+;/.test(line)) {
+      imports.push(index);
+    } else if (JAVA_METHOD.test(line) && !JAVA_STATEMENT_KEYWORDS.test(line)) {
+      methodStarts.add(index);
+      const end = findDeclarationEnd(lines, index);
+      for (let inner = index; inner <= end; inner++) {
+        methods.push(inner);
+      }
+      index = end;
+    } else {
+      statements.push(index);
+    }
+  }
+
+  const builder = createSnippetBuilder();
+  JAVA_DEFAULT_IMPORTS.filter((name) => !imports.some((index) => lines[index].includes(name))).forEach((name) =>
+    builder.add(`import ${name};`),
+  );
+  imports.forEach((index) => builder.add(lines[index], index + 1));
+  builder.add("class Main {");
+  methods.forEach((index) => {
+    // main is static, so methods it calls must be too
+    const needsStatic = methodStarts.has(index) && !/\bstatic\b/.test(lines[index]);
+    builder.add(needsStatic ? `static ${lines[index]}` : lines[index], index + 1);
+  });
+  builder.add("public static void main(String[] args) throws Exception {");
+  statements.forEach((index) => builder.add(lines[index], index + 1));
+  builder.add("}");
+  builder.add("}");
+  return builder.build();
+}
+
+/**
+ * Maps a line of a wrapped snippet back to the snippet. Lines of added scaffolding map to the nearest snippet line
+ * before them (e.g., a missing closing brace is reported at the end of the snippet).
+ * @param lineMap The line map of the wrapped snippet.
+ * @param line The 1-based line in the wrapped program.
+ * @returns The 1-based line in the snippet.
+ */
+export function mapWrappedLine(lineMap: (number | null)[], line: number): number {
+  for (let index = Math.min(line, lineMap.length) - 1; index >= 0; index--) {
+    const sourceLine = lineMap[index];
+    if (sourceLine !== null) {
+      return sourceLine;
+    }
+  }
+  return lineMap.find((sourceLine): sourceLine is number => sourceLine !== null) ?? 1;
+}
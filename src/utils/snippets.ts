@@ -0,0 +1,174 @@
+// utils/snippets.ts
+import { LocalStorage } from "@raycast/api";
+import * as fs from "fs";
+import * as path from "path";
+import { v4 as uuidv4 } from "uuid";
+import { SNIPPETS_STORAGE_KEY } from "../constants/storageKeys";
+
+/**
+ * The user-editable details of a snippet.
+ */
+export interface SnippetDetails {
+  name: string;
+  description: string;
+  tags: string[];
+}
+
+/**
+ * A named piece of code saved in the snippet library.
+ */
+export interface Snippet extends SnippetDetails {
+  id: string;
+  language: string; // Language value (e.g., 'python')
+  code: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * The format of an exported snippet library file.
+ */
+interface SnippetLibraryFile {
+  version: 1;
+  snippets: Snippet[];
+}
+
+/**
+ * Loads the snippet library from local storage.
+ * @returns The snippets, sorted by name.
+ */
+export async function loadSnippets(): Promise<Snippet[]> {
+  const storedSnippets = await LocalStorage.getItem<string>(SNIPPETS_STORAGE_KEY);
+  if (!storedSnippets) {
+    return [];
+  }
+  try {
+    const snippets = JSON.parse(storedSnippets) as Snippet[];
+    return snippets.sort((a, b) => a.name.localeCompare(b.name));
+  } catch (parseError: unknown) {
+    console.error("[LocalStorage Parse Error]", parseError);
+    return [];
+  }
+}
+
+/**
+ * Persists the snippet library.
+ * @param snippets Every snippet in the library.
+ */
+async function saveSnippets(snippets: Snippet[]): Promise<void> {
+  await LocalStorage.setItem(SNIPPETS_STORAGE_KEY, JSON.stringify(snippets));
+}
+
+/**
+ * Adds a new snippet to the library.
+ * @param language The snippet's language value.
+ * @param code The snippet's code.
+ * @param details The name, description and tags.
+ * @returns The created snippet.
+ */
+export async function createSnippet(language: string, code: string, details: SnippetDetails): Promise<Snippet> {
+  const now = Date.now();
+  const snippet: Snippet = { id: uuidv4(), language, code, ...details, createdAt: now, updatedAt: now };
+  await saveSnippets([...(await loadSnippets()), snippet]);
+  return snippet;
+}
+
+/**
+ * Updates an existing snippet.
+ * @param id The id of the snippet to update.
+ * @param changes The fields to change.
+ */
+export async function updateSnippet(id: string, changes: Partial<Omit<Snippet, "id" | "createdAt">>): Promise<void> {
+  const snippets = await loadSnippets();
+  await saveSnippets(
+    snippets.map((snippet) => (snippet.id === id ? { ...snippet, ...changes, updatedAt: Date.now() } : snippet)),
+  );
+}
+
+/**
+ * Creates a copy of a snippet, named after the original.
+ * @param snippet The snippet to copy.
+ * @returns The copy.
+ */
+export async function duplicateSnippet(snippet: Snippet): Promise<Snippet> {
+  return createSnippet(snippet.language, snippet.code, {
+    name: `${snippet.name} Copy`,
+    description: snippet.description,
+    tags: [...snippet.tags],
+  });
+}
+
+/**
+ * Removes a snippet from the library.
+ * @param id The id of the snippet to remove.
+ */
+export async function deleteSnippet(id: string): Promise<void> {
+  await saveSnippets((await loadSnippets()).filter((snippet) => snippet.id !== id));
+}
+
+/**
+ * Splits a comma-separated tags string into unique, trimmed tags.
+ * @param input The raw tags (e.g., 'sorting, kata').
+ * @returns The tags.
+ */
+export function parseTags(input: string): string[] {
+  return [...new Set(input.split(",").map((tag) => tag.trim().toLowerCase()))].filter(Boolean);
+}
+
+/**
+ * Writes the whole snippet library to a JSON file.
+ * @param directory The directory to write the file to.
+ * @returns The path of the written file.
+ */
+export async function exportSnippets(directory: string): Promise<string> {
+  const library: SnippetLibraryFile = { version: 1, snippets: await loadSnippets() };
+  const filePath = path.join(directory, `code-runner-snippets-${new Date().toISOString().slice(0, 10)}.json`);
+  await fs.promises.writeFile(filePath, JSON.stringify(library, null, 2));
+  return filePath;
+}
+
+/**
+ * Validates a snippet read from an exported library file.
+ * @param value The raw value.
+ * @returns True if it has every field a snippet needs.
+ */
+function isValidSnippet(value: unknown): value is Snippet {
+  const snippet = value as Partial<Snippet>;
+  return (
+    !!snippet &&
+    typeof snippet.id === "string" &&
+    typeof snippet.name === "string" &&
+    typeof snippet.language === "string" &&
+    typeof snippet.code === "string" &&
+    (snippet.tags === undefined ||
+      (Array.isArray(snippet.tags) && snippet.tags.every((tag) => typeof tag === "string")))
+  );
+}
+
+/**
+ * Merges the snippets of an exported library file into the library.
+ * Snippets with an id that already exists replace the existing snippet.
+ * @param filePath The exported library file.
+ * @returns The number of imported snippets and the number of invalid entries that were skipped.
+ * @throws {Error} If the file cannot be read or is not a snippet library.
+ */
+export async function importSnippets(filePath: string): Promise<{ imported: number; skipped: number }> {
+  const parsed = JSON.parse(await fs.promises.readFile(filePath, "utf-8")) as Partial<SnippetLibraryFile>;
+  if (!parsed || !Array.isArray(parsed.snippets)) {
+    throw new Error("The file is not a Code Runner snippet library.");
+  }
+
+  const now = Date.now();
+  const importedSnippets: Snippet[] = parsed.snippets.filter(isValidSnippet).map((snippet) => ({
+    ...snippet,
+    description: typeof snippet.description === "string" ? snippet.description : "",
+    tags: snippet.tags ?? [],
+    createdAt: typeof snippet.createdAt === "number" ? snippet.createdAt : now,
+    updatedAt: typeof snippet.updatedAt === "number" ? snippet.updatedAt : now,
+  }));
+  const importedIds = new Set(importedSnippets.map((snippet) => snippet.id));
+  const existingSnippets = (await loadSnippets()).filter((snippet) => !importedIds.has(snippet.id));
+
+  await saveSnippets([...existingSnippets, ...importedSnippets]);
+  return { imported: importedSnippets.length, skipped: parsed.snippets.length - importedSnippets.length };
+}
@@ -0,0 +1,67 @@
+// utils/templates.ts
+import { LocalStorage } from "@raycast/api";
+import { getLanguageDefinition } from "./languages";
+
+/**
+ * Marks where code goes in a starter template. It is removed when the template is used as starter code, and replaced
+ * by the current code when the code is wrapped in the template.
+ */
+export const CURSOR_PLACEHOLDER = "{cursor}";
+
+/**
+ * Loads the template the user saved for a language.
+ * @param language The language value.
+ * @returns The saved template, or undefined if the language uses its built-in template.
+ */
+export async function loadCustomTemplate(language: string): Promise<string | undefined> {
+  return LocalStorage.getItem<string>(`template_${language}`);
+}
+
+/**
+ * Loads the starter template of a language: the one the user saved, or the built-in one.
+ * @param language The language value.
+ * @returns The template, which may contain the cursor placeholder.
+ */
+export async function loadTemplate(language: string): Promise<string> {
+  return (await loadCustomTemplate(language)) ?? getLanguageDefinition(language)?.template ?? "";
+}
+
+/**
+ * Saves a language's starter template, replacing the built-in one.
+ * @param language The language value.
+ * @param template The template, optionally with the cursor placeholder.
+ */
+export async function saveTemplate(language: string, template: string): Promise<void> {
+  await LocalStorage.setItem(`template_${language}`, template);
+}
+
+/**
+ * Deletes a language's saved template, so the built-in one is used again.
+ * @param language The language value.
+ */
+export async function resetTemplate(language: string): Promise<void> {
+  await LocalStorage.removeItem(`template_${language}`);
+}
+
+/**
+ * Fills in a template: the first cursor placeholder is replaced by the code and any others are removed. Without a
+ * placeholder, the code is added at the end of the template.
+ * @param template The template.
+ * @param code The code to put at the placeholder; empty for starter code.
+ * @returns The filled-in code.
+ */
+export function applyTemplate(template: string, code: string = ""): string {
+  const index = template.indexOf(CURSOR_PLACEHOLDER);
+  if (index === -1) {
+    return code ? `${template.replace(/\n*$/, "")}\n\n${code}` : template;
+  }
+  const before = template.slice(0, index);
+  const after = template
+    .slice(index + CURSOR_PLACEHOLDER.length)
+    .split(CURSOR_PLACEHOLDER)
+    .join("");
+  // Wrapped code takes on the indentation of the placeholder's line
+  const linePrefix = before.slice(before.lastIndexOf("\n") + 1);
+  const indentation = /^\s*$/.test(linePrefix) ? linePrefix : "";
+  return `${before}${code.split("\n").join(`\n${indentation}`)}${after}`;
+}
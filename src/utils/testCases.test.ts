@@ -0,0 +1,80 @@
+// utils/testCases.test.ts
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { DetectedLanguage, createExecutionResult, runCode } from "./codeRunner";
+import { TestCase, addTestCase, deleteTestCase, loadTestCases, runTestCase, updateTestCase } from "./testCases";
+
+vi.mock("./codeRunner", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("./codeRunner")>();
+  return { ...actual, runCode: vi.fn() };
+});
+
+const python: DetectedLanguage = {
+  name: "Python",
+  value: "python",
+  command: "python3",
+  executablePath: "/usr/bin/python3",
+};
+
+const testCase: TestCase = { id: "case-1", name: "Sums", stdin: "1 2\n", expectedOutput: "3\ndone\n" };
+
+describe("runTestCase", () => {
+  beforeEach(() => {
+    vi.mocked(runCode).mockReset();
+  });
+
+  it("runs the code with the case's stdin and the form's other options", async () => {
+    vi.mocked(runCode).mockResolvedValue(createExecutionResult({ stdout: "3\ndone\n", runDurationMs: 12 }));
+    const outcome = await runTestCase(python, "print(3)", testCase, { args: ["-v"] });
+
+    expect(runCode).toHaveBeenCalledWith(python, "print(3)", { args: ["-v"], stdin: "1 2\n" });
+    expect(outcome).toMatchObject({ testCaseId: "case-1", passed: true, durationMs: 12 });
+    expect(outcome.diff).toEqual([
+      { type: "equal", text: "3" },
+      { type: "equal", text: "done" },
+    ]);
+  });
+
+  it("ignores trailing whitespace and trailing blank lines", async () => {
+    vi.mocked(runCode).mockResolvedValue(createExecutionResult({ stdout: "3   \ndone\t\n\n\n" }));
+    expect((await runTestCase(python, "", testCase)).passed).toBe(true);
+  });
+
+  it("diffs the expected output against the actual output line by line", async () => {
+    vi.mocked(runCode).mockResolvedValue(createExecutionResult({ stdout: "4\ndone\nextra\n" }));
+    const outcome = await runTestCase(python, "", testCase);
+
+    expect(outcome.passed).toBe(false);
+    expect(outcome.diff).toEqual([
+      { type: "removed", text: "3" },
+      { type: "added", text: "4" },
+      { type: "equal", text: "done" },
+      { type: "added", text: "extra" },
+    ]);
+  });
+
+  it("fails a run that errored even when its output matched", async () => {
+    vi.mocked(runCode).mockResolvedValue(
+      createExecutionResult({ stdout: "3\ndone\n", error: "Process exited with code 1." }),
+    );
+    const outcome = await runTestCase(python, "", testCase);
+
+    expect(outcome.passed).toBe(false);
+    expect(outcome.diff.every((line) => line.type === "equal")).toBe(true);
+  });
+});
+
+describe("test case storage", () => {
+  it("adds, updates and deletes a language's test cases in order", async () => {
+    const first = await addTestCase("ruby", { name: "First", stdin: "", expectedOutput: "1" });
+    const second = await addTestCase("ruby", { name: "Second", stdin: "2", expectedOutput: "2" });
+    await updateTestCase("ruby", first.id, { name: "Renamed", stdin: "", expectedOutput: "one" });
+    expect((await loadTestCases("ruby")).map(({ name, expectedOutput }) => [name, expectedOutput])).toEqual([
+      ["Renamed", "one"],
+      ["Second", "2"],
+    ]);
+
+    await deleteTestCase("ruby", first.id);
+    expect(await loadTestCases("ruby")).toEqual([second]);
+    expect(await loadTestCases("go")).toEqual([]);
+  });
+});
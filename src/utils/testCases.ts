@@ -0,0 +1,136 @@
+// utils/testCases.ts
+import { LocalStorage } from "@raycast/api";
+import { v4 as uuidv4 } from "uuid";
+import { CodeExecutionResult, DetectedLanguage, RunCodeOptions, runCode } from "./codeRunner";
+import { DiffLine, diffLines, hasChanges } from "./diff";
+
+/**
+ * The user-editable fields of a test case.
+ */
+export interface TestCaseDetails {
+  name: string;
+  stdin: string;
+  expectedOutput: string; // Compared with stdout, ignoring trailing whitespace
+}
+
+/**
+ * An input/expected-output pair attached to a language's code.
+ */
+export interface TestCase extends TestCaseDetails {
+  id: string;
+}
+
+/**
+ * The outcome of running the code against one test case.
+ */
+export interface TestCaseResult {
+  testCaseId: string;
+  passed: boolean; // The program succeeded and its output matched the expected output
+  result: CodeExecutionResult;
+  diff: DiffLine[]; // Expected output (removed lines) against actual output (added lines)
+  durationMs: number; // Run time of the program, excluding compilation where it is measured separately
+}
+
+/**
+ * Normalizes program output for comparison: trailing whitespace on each line and trailing blank lines are ignored.
+ * @param output The raw output.
+ * @returns The normalized output.
+ */
+function normalizeOutput(output: string): string {
+  return output
+    .split("\n")
+    .map((line) => line.replace(/\s+$/, ""))
+    .join("\n")
+    .replace(/\n+$/, "");
+}
+
+/**
+ * Loads the test cases saved for a language.
+ * @param language The language value (e.g., 'python').
+ * @returns The test cases, in the order they were added.
+ */
+export async function loadTestCases(language: string): Promise<TestCase[]> {
+  const storedTestCases = await LocalStorage.getItem<string>(`tests_${language}`);
+  if (!storedTestCases) {
+    return [];
+  }
+  try {
+    return JSON.parse(storedTestCases) as TestCase[];
+  } catch (parseError: unknown) {
+    console.error("[LocalStorage Parse Error]", parseError);
+    return [];
+  }
+}
+
+/**
+ * Persists the test cases of a language.
+ * @param language The language value.
+ * @param testCases Every test case of the language.
+ */
+async function saveTestCases(language: string, testCases: TestCase[]): Promise<void> {
+  await LocalStorage.setItem(`tests_${language}`, JSON.stringify(testCases));
+}
+
+/**
+ * Adds a test case to a language.
+ * @param language The language value.
+ * @param details The test case's name, input and expected output.
+ * @returns The new test case.
+ */
+export async function addTestCase(language: string, details: TestCaseDetails): Promise<TestCase> {
+  const testCase: TestCase = { id: uuidv4(), ...details };
+  await saveTestCases(language, [...(await loadTestCases(language)), testCase]);
+  return testCase;
+}
+
+/**
+ * Updates the fields of a test case.
+ * @param language The language value.
+ * @param id The id of the test case.
+ * @param details The new fields.
+ */
+export async function updateTestCase(language: string, id: string, details: TestCaseDetails): Promise<void> {
+  const testCases = await loadTestCases(language);
+  await saveTestCases(
+    language,
+    testCases.map((testCase) => (testCase.id === id ? { ...testCase, ...details } : testCase)),
+  );
+}
+
+/**
+ * Removes a test case from a language.
+ * @param language The language value.
+ * @param id The id of the test case.
+ */
+export async function deleteTestCase(language: string, id: string): Promise<void> {
+  await saveTestCases(
+    language,
+    (await loadTestCases(language)).filter((testCase) => testCase.id !== id),
+  );
+}
+
+/**
+ * Runs code with a test case's input and compares its output with the expected output.
+ * @param language The detected language to run the code with.
+ * @param code The source code to execute.
+ * @param testCase The test case to run.
+ * @param options Arguments, environment variables and limits for the run; stdin comes from the test case.
+ * @returns The test case's outcome.
+ */
+export async function runTestCase(
+  language: DetectedLanguage,
+  code: string,
+  testCase: TestCase,
+  options: Omit<RunCodeOptions, "stdin"> = {},
+): Promise<TestCaseResult> {
+  const startedAt = Date.now();
+  const result = await runCode(language, code, { ...options, stdin: testCase.stdin });
+  const diff = diffLines(normalizeOutput(testCase.expectedOutput), normalizeOutput(result.stdout));
+  return {
+    testCaseId: testCase.id,
+    passed: !result.error && !hasChanges(diff),
+    result,
+    diff,
+    durationMs: result.runDurationMs ?? Date.now() - startedAt,
+  };
+}
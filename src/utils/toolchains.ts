@@ -0,0 +1,233 @@
+// utils/toolchains.ts
+import { spawn } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { quoteShellArgument } from "./inputParsing";
+import { killProcessTree } from "./processTree";
+
+/**
+ * One installation of a language runtime or compiler.
+ */
+export interface ExecutableCandidate {
+  command: string; // The command name (e.g., 'python3.12', 'deno')
+  executablePath: string; // Absolute path of the executable
+  version: string | null; // Version reported by the executable (e.g., '3.12.1'), if it could be read
+}
+
+/**
+ * How a script run in the login shell ended, with everything it printed.
+ */
+export interface LoginShellResult {
+  shellPath: string;
+  stdout: string;
+  stderr: string; // Includes noise printed by rc files (e.g., warnings from version managers)
+  exitCode: number | null; // Null if the shell could not be started or was killed
+  durationMs: number;
+  error: string | null; // Why the shell failed to start or was killed (e.g., on timeout)
+}
+
+// Printed between version probes so the combined output can be split per executable
+const VERSION_MARKER = "__CODE_RUNNER_VERSION_PROBE__";
+const VERSION_PATTERN = /\d+\.\d+(?:\.\d+)?/;
+
+/**
+ * Runs a script in the user's login shell, so PATH and version manager setup from rc files are applied.
+ * The shell leads its own process group, so a timeout or abort also stops the programs the script started
+ * (e.g., `pip` during a dependency install).
+ * @param script The script to run.
+ * @param timeout Maximum time to wait, in milliseconds.
+ * @param options The working directory, and a signal that stops the script when aborted.
+ * @returns The script's output, exit code and duration; never rejects.
+ */
+export function runLoginShellScript(
+  script: string,
+  timeout: number,
+  options: { cwd?: string; signal?: AbortSignal } = {},
+): Promise<LoginShellResult> {
+  const defaultShellPath = process.env.SHELL || "/bin/zsh";
+  const startedAt = Date.now();
+  return new Promise<LoginShellResult>((resolve) => {
+    const child = spawn(defaultShellPath, ["-l", "-c", script], {
+      cwd: options.cwd,
+      detached: true,
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+    let stdout = "";
+    let stderr = "";
+    let stopReason: string | null = null;
+    const stop = (reason: string) => {
+      if (stopReason === null) {
+        stopReason = reason;
+        killProcessTree(child, "SIGKILL");
+      }
+    };
+    const timer = setTimeout(() => stop(`Timed out after ${timeout} ms.`), timeout);
+    const onAbort = () => stop("The operation was aborted.");
+    options.signal?.addEventListener("abort", onAbort);
+    if (options.signal?.aborted) {
+      onAbort();
+    }
+
+    const finish = (exitCode: number | null, error: string | null) => {
+      clearTimeout(timer);
+      options.signal?.removeEventListener("abort", onAbort);
+      resolve({
+        shellPath: defaultShellPath,
+        stdout,
+        stderr,
+        exitCode,
+        durationMs: Date.now() - startedAt,
+        // A non-zero exit code is reported by the exit code alone; anything else (e.g., a timeout) is an error
+        error,
+      });
+    };
+    child.stdout.on("data", (chunk: Buffer) => (stdout += chunk.toString()));
+    child.stderr.on("data", (chunk: Buffer) => (stderr += chunk.toString()));
+    child.on("error", (spawnError) => finish(null, spawnError.message));
+    child.on("close", (exitCode, signal) => {
+      if (stopReason !== null) {
+        finish(null, stopReason);
+      } else {
+        finish(exitCode, exitCode === null ? `Killed by ${signal}.` : null);
+      }
+    });
+  });
+}
+
+/**
+ * Runs a script in the user's login shell and returns only its standard output.
+ * Errors and stderr noise from rc files are ignored, so a noisy profile never hides executables that were found.
+ */
+async function runInLoginShell(script: string, timeout: number): Promise<string> {
+  return (await runLoginShellScript(script, timeout)).stdout;
+}
+
+/**
+ * Finds every executable on the login shell's PATH for each of the given commands.
+ * @param commands The commands to look up (e.g., ['node', 'python3']).
+ * @returns A map from each command to the absolute paths found, in PATH order.
+ */
+export async function findExecutables(commands: string[]): Promise<Map<string, string[]>> {
+  const found = new Map<string, string[]>();
+  if (commands.length === 0) {
+    return found;
+  }
+
+  const stdout = await runInLoginShell(`which -a ${commands.map(quoteShellArgument).join(" ")}`, 15000);
+  // Some shells report missing commands on stdout (e.g., 'python3.8 not found'), so only keep absolute paths
+  stdout
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => path.isAbsolute(line))
+    .forEach((executablePath) => {
+      const command = path.basename(executablePath);
+      found.set(command, [...(found.get(command) ?? []), executablePath]);
+    });
+  return found;
+}
+
+/**
+ * Expands an installation pattern (e.g., the `bin/node` of every version directory installed by nvm).
+ * A leading `~` is the home directory, and each `*` matches one directory name.
+ * @param pattern The pattern to expand.
+ * @returns The existing paths that match, newest-looking versions first.
+ */
+export function expandInstallPattern(pattern: string): string[] {
+  const expanded = pattern.startsWith("~") ? path.join(os.homedir(), pattern.slice(1)) : pattern;
+  const segments = expanded.split(path.sep);
+
+  let matches = [segments[0] === "" ? path.sep : segments[0]];
+  for (const segment of segments.slice(1)) {
+    if (!segment) {
+      continue;
+    }
+    if (!segment.includes("*")) {
+      matches = matches.map((match) => path.join(match, segment));
+      continue;
+    }
+    const segmentPattern = new RegExp(`^${segment.split("*").map(escapeRegExp).join(".*")}$`);
+    matches = matches.flatMap((match) => {
+      try {
+        return fs
+          .readdirSync(match)
+          .filter((entry) => segmentPattern.test(entry))
+          .sort((a, b) => b.localeCompare(a, undefined, { numeric: true }))
+          .map((entry) => path.join(match, entry));
+      } catch {
+        return [];
+      }
+    });
+  }
+
+  return matches.filter((match) => fs.existsSync(match));
+}
+
+/**
+ * Escapes a string for literal use inside a regular expression.
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Reads a version number from the output of an executable's version command.
+ * @param output The output (e.g., 'Python 3.12.1').
+ * @returns The first version number found (e.g., '3.12.1'), or null.
+ */
+export function parseVersion(output: string): string | null {
+  return output.match(VERSION_PATTERN)?.[0] ?? null;
+}
+
+/**
+ * Reads the version of each executable by running it with its version arguments.
+ * All probes run in a single login shell, so tools that rely on the user's PATH (e.g., `tsx`) still work.
+ * @param probes The executables and the arguments that make them print their version.
+ * @returns The versions, in the same order as the probes; null where no version could be read.
+ */
+export async function detectVersions(
+  probes: { executablePath: string; versionArgs: string[] }[],
+): Promise<(string | null)[]> {
+  if (probes.length === 0) {
+    return [];
+  }
+
+  const script = probes
+    .map(
+      ({ executablePath, versionArgs }, index) =>
+        `echo ${VERSION_MARKER}${index}; ${[executablePath, ...versionArgs].map(quoteShellArgument).join(" ")} 2>&1 </dev/null | head -n 5`,
+    )
+    .join("; ");
+  const stdout = await runInLoginShell(script, 20000);
+
+  const versions: (string | null)[] = probes.map(() => null);
+  stdout.split(VERSION_MARKER).forEach((section) => {
+    const index = parseInt(section, 10);
+    if (Number.isInteger(index) && index < versions.length) {
+      versions[index] = parseVersion(section.slice(String(index).length));
+    }
+  });
+  return versions;
+}
+
+/**
+ * Removes paths that resolve to the same file (e.g., `/usr/bin/python3` and `/usr/bin/python3.12`), keeping the first.
+ * @param paths The paths to deduplicate.
+ * @returns The unique paths, in their original order.
+ */
+export function dedupeExecutables(paths: string[]): string[] {
+  const seen = new Set<string>();
+  return paths.filter((executablePath) => {
+    let realPath = executablePath;
+    try {
+      realPath = fs.realpathSync(executablePath);
+    } catch {
+      // Keep paths that cannot be resolved; they are compared as-is
+    }
+    if (seen.has(realPath)) {
+      return false;
+    }
+    seen.add(realPath);
+    return true;
+  });
+}
@@ -0,0 +1,94 @@
+// utils/workspace.ts
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { v4 as uuidv4 } from "uuid";
+
+/**
+ * A directory of its own for one run or session, holding its source file, build outputs and output files.
+ */
+export interface RunWorkspace {
+  id: string; // Unique id, also used to name the source file
+  directory: string; // Absolute path of the workspace directory
+  dispose: () => void; // Deletes the directory and everything in it
+}
+
+// Workspace directories are named `run-<pid>-<uuid>`, so a sweep can tell whether their owner is still running
+const WORKSPACE_PATTERN = /^run-(\d+)-[0-9a-f-]{36}$/;
+
+// Directories that do not follow the naming scheme are only removed once they are this old
+const STALE_AGE_MS = 24 * 60 * 60 * 1000;
+
+let hasSweptStaleWorkspaces = false;
+
+/**
+ * Gets the directory that holds every workspace, under the OS temp directory.
+ */
+export function getWorkspaceRoot(): string {
+  return path.join(os.tmpdir(), "raycast-code-runner");
+}
+
+/**
+ * Checks whether a process is still running.
+ */
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error: unknown) {
+    // EPERM means the process exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/**
+ * Deletes workspaces left behind by extension processes that have exited (e.g., after a crash).
+ * Runs once per process, when the first workspace is created.
+ */
+export function sweepStaleWorkspaces(): void {
+  const root = getWorkspaceRoot();
+  if (!fs.existsSync(root)) {
+    return;
+  }
+  fs.readdirSync(root).forEach((name) => {
+    const directory = path.join(root, name);
+    try {
+      const owner = name.match(WORKSPACE_PATTERN);
+      const isStale = owner
+        ? Number(owner[1]) !== process.pid && !isProcessAlive(Number(owner[1]))
+        : Date.now() - fs.statSync(directory).mtimeMs > STALE_AGE_MS;
+      if (isStale) {
+        fs.rmSync(directory, { recursive: true, force: true });
+      }
+    } catch (sweepError: unknown) {
+      console.error("[Workspace Sweep Error]", sweepError);
+    }
+  });
+}
+
+/**
+ * Creates an isolated workspace directory for a run or session. Overlapping runs never share a directory, so
+ * cleaning up one run cannot affect another.
+ * @returns The workspace, which must be disposed of once the run has finished.
+ */
+export function createRunWorkspace(): RunWorkspace {
+  if (!hasSweptStaleWorkspaces) {
+    hasSweptStaleWorkspaces = true;
+    sweepStaleWorkspaces();
+  }
+  const id = uuidv4();
+  const directory = path.join(getWorkspaceRoot(), `run-${process.pid}-${id}`);
+  fs.mkdirSync(directory, { recursive: true });
+  return {
+    id,
+    directory,
+    dispose: () => {
+      try {
+        fs.rmSync(directory, { recursive: true, force: true });
+      } catch (cleanupError: unknown) {
+        const errorMessage = cleanupError instanceof Error ? cleanupError.message : String(cleanupError);
+        console.error(`Error cleaning up workspace ${directory}: ${errorMessage}`);
+      }
+    },
+  };
+}
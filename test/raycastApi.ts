@@ -0,0 +1,26 @@
+// test/raycastApi.ts
+import * as os from "os";
+import * as path from "path";
+
+// Stands in for @raycast/api in unit tests: the package only ships types, and Raycast provides the module at runtime
+
+export const environment = {
+  supportPath: path.join(os.tmpdir(), "code-runner-tests"),
+};
+
+// Every icon is its own name
+export const Icon = new Proxy({} as Record<string, string>, { get: (_icons, name) => String(name) });
+
+const storage = new Map<string, string>();
+export const LocalStorage = {
+  getItem: async <T>(key: string) => storage.get(key) as T | undefined,
+  setItem: async (key: string, value: string) => {
+    storage.set(key, String(value));
+  },
+  removeItem: async (key: string) => {
+    storage.delete(key);
+  },
+  clear: async () => storage.clear(),
+};
+
+export const getPreferenceValues = () => ({});
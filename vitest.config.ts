@@ -0,0 +1,10 @@
+import * as path from "path";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    alias: {
+      "@raycast/api": path.join(__dirname, "test", "raycastApi.ts"),
+    },
+  },
+});